@@ -1,12 +1,88 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import OrderForm from './components/OrderForm';
 import GridForm from './components/GridForm';
 import CancelForm from './components/CancelForm';
 import ConsoleLog from './components/ConsoleLog';
-import { OrderRequest, LogEntry, ApiCredentials } from './types';
-import { placeOrder, getListenKey, cancelOrder, keepAliveListenKey } from './services/api';
-import { subscribeToTicker, subscribeToUserData } from './services/websocket';
-import { Settings, Shield, Zap, Globe, AlertTriangle, Activity, Grid, Wifi, XCircle } from 'lucide-react';
+import OrderBook from './components/OrderBook';
+import PositionsPanel from './components/PositionsPanel';
+import OpenOrdersPanel from './components/OpenOrdersPanel';
+import AccountPanel from './components/AccountPanel';
+import VaultPanel from './components/VaultPanel';
+import GridBotPanel from './components/GridBotPanel';
+import WatchlistPanel from './components/WatchlistPanel';
+import StrategyForm from './components/StrategyForm';
+import StrategyPanel from './components/StrategyPanel';
+import PriceChart from './components/PriceChart';
+import {
+  OrderRequest,
+  LogEntry,
+  ApiCredentials,
+  OrderBookView,
+  BracketSpec,
+  BinanceOrderResponse,
+  Position,
+  OpenOrder,
+  OrderSide,
+  OrderType,
+  AccountInfo,
+  MarginType,
+  PositionMode,
+  EnvironmentId,
+  EnvironmentProfile,
+  CredentialProfile,
+  KeyType,
+  GridBot,
+  GridBotSpec,
+  BatchOrderResult,
+  WatchlistRow,
+  StrategyInstance,
+  Kline,
+  KlineInterval
+} from './types';
+import {
+  placeOrder,
+  cancelOrder,
+  getPositionRisk,
+  getOpenOrders,
+  getOrder,
+  placeBatchOrders,
+  cancelAllOpenOrders,
+  amendOrder,
+  setLeverage,
+  setMarginType,
+  setPositionMode,
+  getProxyStatus
+} from './services/api';
+import { loadAccountInfo } from './services/account';
+import { onVaultLock, touchVault } from './services/vault';
+import { startTimeSync, subscribeToTimeSync, getTimeSyncStatus, TimeSyncStatus, DRIFT_WARNING_MS } from './services/timeSync';
+import { subscribeToRateLimits, getRateLimitStatus, RateLimitStatus } from './services/restClient';
+import { subscribeToStreamStatus, getStreamStatuses, StreamStatus, ROTATION_REASON } from './services/streamConnection';
+import { subscribeToPaperUserData, getPaperConfig, setPaperConfig, PaperConfig } from './services/paperExchange';
+import { subscribeToMarkPrices, OrderUpdate, AccountUpdate } from './services/websocket';
+import { startUserDataStream } from './services/userDataStream';
+import { fromPositionRisk, applyAccountUpdate, applyMarkPrice } from './utils/positions';
+import { fromOrderResponse, upsertOrder, applyOrderUpdate, removeOrder, reconcileOrders } from './utils/orderStore';
+import { validateOrderInput, validateOrderCap } from './utils/validator';
+import { verifySigningKey } from './utils/signing';
+import {
+  getActiveEnvironment,
+  getEnvironmentProfiles,
+  setActiveEnvironment,
+  updateEnvironmentProfile,
+  MAINNET_CONFIRMATION
+} from './services/environment';
+import { loadSymbolRules, hasSymbolRules, isSymbolRulesLoaded } from './services/exchangeInfo';
+import { subscribeToOrderBook } from './services/orderBook';
+import { subscribeToCandles } from './services/candles';
+import { createBracketManager, BracketManager } from './services/bracket';
+import { createOrderSubmitter, OrderSubmitter } from './services/orderSubmission';
+import { createGridBotManager, GridBotManager } from './services/gridBot';
+import { createStrategyRuntime, StrategyRuntime } from './services/strategyRuntime';
+import { STRATEGIES } from './strategies';
+import { createWatchlistFeed, loadWatchlist, saveWatchlist, WatchlistFeed, MAX_WATCHLIST_SYMBOLS } from './services/watchlist';
+import { GridPlanRow } from './utils/grid';
+import { Settings, Shield, Zap, Globe, AlertTriangle, Activity, Grid, Cpu, Wifi, WifiOff, XCircle } from 'lucide-react';
 
 const App: React.FC = () => {
   // State
@@ -15,123 +91,525 @@ const App: React.FC = () => {
   const [demoMode, setDemoMode] = useState(true);
   const [apiKey, setApiKey] = useState('');
   const [apiSecret, setApiSecret] = useState('');
+  const [keyType, setKeyType] = useState<KeyType>('HMAC');
   const [showSettings, setShowSettings] = useState(false);
-  const [activeTab, setActiveTab] = useState<'manual' | 'grid' | 'cancel'>('manual');
+  const [vaultProfileId, setVaultProfileId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<'manual' | 'grid' | 'strategy' | 'cancel'>('manual');
   
   // Market Data State
   const [symbol, setSymbol] = useState('BTCUSDT');
   const [currentPrice, setCurrentPrice] = useState<string | null>(null);
+  const [rulesCount, setRulesCount] = useState<number | null>(null);
+  const [orderBook, setOrderBook] = useState<OrderBookView | null>(null);
+  const [priceSelection, setPriceSelection] = useState<{ price: string; id: number } | null>(null);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const openOrdersRef = useRef<OpenOrder[]>([]);
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [paperConfig, setPaperConfigState] = useState<PaperConfig>(getPaperConfig);
+  const [environment, setEnvironment] = useState<EnvironmentProfile>(getActiveEnvironment);
+  const [timeSync, setTimeSync] = useState<TimeSyncStatus>(getTimeSyncStatus);
+  const [rateLimits, setRateLimits] = useState<RateLimitStatus>(getRateLimitStatus);
+  const [streamStatuses, setStreamStatuses] = useState<StreamStatus[]>(getStreamStatuses);
+  const [gridBots, setGridBots] = useState<GridBot[]>([]);
+  const [strategyInstances, setStrategyInstances] = useState<StrategyInstance[]>([]);
+  const [watchlist, setWatchlist] = useState<string[]>(loadWatchlist);
+  const [watchlistRows, setWatchlistRows] = useState<WatchlistRow[]>([]);
+  const [chartInterval, setChartInterval] = useState<KlineInterval>('15m');
+  const [candles, setCandles] = useState<Kline[] | null>(null);
+  const [gridPreview, setGridPreview] = useState<GridPlanRow[] | null>(null);
+  const [environmentProfiles, setEnvironmentProfiles] = useState<EnvironmentProfile[]>(getEnvironmentProfiles);
+  const [mainnetPrompt, setMainnetPrompt] = useState(false);
+  const [mainnetConfirmText, setMainnetConfirmText] = useState('');
+  const [hostDraft, setHostDraft] = useState(() => {
+    const active = getActiveEnvironment();
+    return { baseUrl: active.baseUrl, streamUrl: active.streamUrl };
+  });
+  openOrdersRef.current = openOrders;
+  // Read by strategies between renders
+  const positionsRef = useRef(positions);
+  positionsRef.current = positions;
+  const accountRef = useRef(account);
+  accountRef.current = account;
 
   // Logging Helper
-  const addLog = useCallback((level: LogEntry['level'], message: string, details?: any) => {
+  const addLog = useCallback((level: LogEntry['level'], message: string, details?: any, source?: string) => {
     const newLog: LogEntry = {
       id: crypto.randomUUID(),
       timestamp: new Date().toLocaleTimeString(),
       level,
       message,
-      details
+      details,
+      source
     };
     setLogs(prev => [...prev, newLog]);
   }, []);
 
-  // WebSocket Effect for Ticker
+  // Latest mode/credentials for long-lived services that outlive a render
+  const sessionRef = useRef({ demoMode, creds: { apiKey, apiSecret, keyType } as ApiCredentials, symbol, currentPrice });
+  sessionRef.current = { demoMode, creds: { apiKey, apiSecret, keyType }, symbol, currentPrice };
+
+  // Credentials loaded from the vault are dropped again when it locks
+  const vaultProfileRef = useRef(vaultProfileId);
+  vaultProfileRef.current = vaultProfileId;
+
+  useEffect(() => {
+    const unsubscribe = onVaultLock(() => {
+      if (!vaultProfileRef.current) return;
+      setApiKey('');
+      setApiSecret('');
+      setVaultProfileId(null);
+      addLog('WARN', 'Credential vault locked. API credentials from the vault were cleared.');
+    });
+
+    // Any interaction counts as activity for the vault's auto-lock
+    const activity = () => touchVault();
+    window.addEventListener('pointerdown', activity);
+    window.addEventListener('keydown', activity);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('pointerdown', activity);
+      window.removeEventListener('keydown', activity);
+    };
+  }, [addLog]);
+
+  const handleUseVaultProfile = (profile: CredentialProfile) => {
+    setApiKey(profile.apiKey);
+    setApiSecret(profile.apiSecret);
+    setKeyType(profile.keyType || 'HMAC');
+    setVaultProfileId(profile.id);
+    addLog('INFO', `Using API key profile "${profile.name}"`);
+  };
+
+  // Changes whenever Live Mode would talk to different hosts; streams and snapshots key off it
+  const environmentKey = `${environment.id}|${environment.baseUrl}|${environment.streamUrl}`;
+  // Through the signing proxy the keys live server-side
+  const credentialsMissing = !demoMode && !environment.signedByProxy && (!apiKey || !apiSecret);
+
+  // Tags orders with a client id and resolves unknown outcomes before any retry
+  const orderSubmitterRef = useRef<OrderSubmitter | null>(null);
+  if (!orderSubmitterRef.current) {
+    orderSubmitterRef.current = createOrderSubmitter({
+      placeOrder: (order) => placeOrder(sessionRef.current.demoMode, order, sessionRef.current.creds),
+      getOrder: (sym, clientOrderId) => getOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      onLog: addLog
+    });
+  }
+
+  // Live orders must clear the environment's notional cap
+  const checkOrderCap = useCallback((order: OrderRequest) => {
+    const session = sessionRef.current;
+    if (session.demoMode) return;
+    const sameSymbol = order.symbol.toUpperCase() === session.symbol.toUpperCase();
+    const capError = validateOrderCap(order, sameSymbol ? session.currentPrice : null, getActiveEnvironment().maxOrderNotional);
+    if (capError) throw new Error(capError.message);
+  }, []);
+
+  // Every order goes through here so the environment cap is checked before placeOrder
+  const submitOrder = useCallback(async (order: OrderRequest): Promise<BinanceOrderResponse> => {
+    checkOrderCap(order);
+    return orderSubmitterRef.current!.submit(order);
+  }, [checkOrderCap]);
+
+  // Batch counterpart of submitOrder; placed orders go straight into the store
+  const submitBatch = useCallback(async (orders: OrderRequest[], rollbackOnFailure: boolean): Promise<BatchOrderResult[]> => {
+    orders.forEach(checkOrderCap);
+    const session = sessionRef.current;
+    const results = await placeBatchOrders(session.demoMode, orders, session.creds, { rollbackOnFailure });
+    setOpenOrders(prev => results.reduce(
+      (acc, r) => (r.response && !r.rolledBack ? upsertOrder(acc, fromOrderResponse(r.response)) : acc),
+      prev
+    ));
+    return results;
+  }, [checkOrderCap]);
+
+  const bracketManagerRef = useRef<BracketManager | null>(null);
+  if (!bracketManagerRef.current) {
+    bracketManagerRef.current = createBracketManager({
+      submitOrder: async (order) => {
+        const response = await submitOrder(order);
+        setOpenOrders(prev => upsertOrder(prev, fromOrderResponse(response)));
+        return response;
+      },
+      submitBatch,
+      cancelOrder: (sym, clientOrderId) => cancelOrder(sessionRef.current.demoMode, sym, clientOrderId, sessionRef.current.creds),
+      getOrder: (sym, clientOrderId) => getOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      onLog: addLog
+    });
+  }
+
+  const gridBotManagerRef = useRef<GridBotManager | null>(null);
+  if (!gridBotManagerRef.current) {
+    gridBotManagerRef.current = createGridBotManager({
+      submitOrder: async (order) => {
+        const response = await submitOrder(order);
+        setOpenOrders(prev => upsertOrder(prev, fromOrderResponse(response)));
+        return response;
+      },
+      submitBatch,
+      cancelOrder: (sym, clientOrderId) => cancelOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      getOrder: (sym, clientOrderId) => getOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      onLog: addLog,
+      onChange: setGridBots
+    });
+  }
+
+  const strategyRuntimeRef = useRef<StrategyRuntime | null>(null);
+  if (!strategyRuntimeRef.current) {
+    strategyRuntimeRef.current = createStrategyRuntime({
+      strategies: STRATEGIES,
+      submitOrder: async (order) => {
+        const response = await submitOrder(order);
+        setOpenOrders(prev => upsertOrder(prev, fromOrderResponse(response)));
+        return response;
+      },
+      cancelOrder: (sym, clientOrderId) => cancelOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      getOrder: (sym, clientOrderId) => getOrder(sessionRef.current.demoMode, sym, { origClientOrderId: clientOrderId }, sessionRef.current.creds),
+      getPositions: () => positionsRef.current,
+      getAccount: () => accountRef.current,
+      onLog: addLog,
+      onChange: setStrategyInstances
+    });
+  }
+
+  // Single entry point for order updates, live (user data stream) or simulated
+  const handleOrderUpdate = useCallback((data: OrderUpdate) => {
+    const statusColor = data.status === 'FILLED' ? 'SUCCESS' 
+                      : data.status === 'CANCELED' ? 'WARN' 
+                      : 'INFO';
+
+    addLog(statusColor, `Order Update: ${data.symbol} is ${data.status}`, {
+      side: data.side,
+      filled: `${data.executedQty} / ${data.originalQty}`,
+      price: data.avgPrice,
+      type: data.type
+    });
+
+    setOpenOrders(prev => applyOrderUpdate(prev, data));
+    bracketManagerRef.current?.handleOrderUpdate(data);
+    gridBotManagerRef.current?.handleOrderUpdate(data);
+    strategyRuntimeRef.current?.handleOrderUpdate(data);
+  }, [addLog]);
+
+  // Open orders: seed from REST, then replace wholesale when reconciling after a reconnect
+  const refreshOpenOrders = useCallback(async (reconcile: boolean) => {
+    try {
+      const raw = await getOpenOrders(sessionRef.current.demoMode, sessionRef.current.creds);
+      const { orders, added, removed } = reconcileOrders(openOrdersRef.current, raw.map(fromOrderResponse));
+      setOpenOrders(orders);
+
+      if (reconcile && (added.length > 0 || removed.length > 0)) {
+        addLog('WARN', `Open orders reconciled: ${added.length} missing, ${removed.length} stale`, {
+          added: added.map(o => o.orderId),
+          removed: removed.map(o => o.orderId)
+        });
+      }
+    } catch (e: any) {
+      addLog('WARN', 'Failed to load open orders', { error: e.message });
+    }
+  }, [addLog]);
+
+  // Positions: REST snapshot (carries leverage & liquidation price) ...
+  const refreshPositions = useCallback(async () => {
+    try {
+      const raw = await getPositionRisk(sessionRef.current.demoMode, sessionRef.current.creds);
+      setPositions(raw.map(fromPositionRisk));
+    } catch (e: any) {
+      addLog('WARN', 'Failed to load positions', { error: e.message });
+    }
+  }, [addLog]);
+
+  // Balances, margin and per-symbol leverage / margin type
+  const refreshAccount = useCallback(async () => {
+    try {
+      setAccount(await loadAccountInfo(sessionRef.current.demoMode, sessionRef.current.creds));
+    } catch (e: any) {
+      addLog('WARN', 'Failed to load account', { error: e.message });
+    }
+  }, [addLog]);
+
+  // ... patched in place by ACCOUNT_UPDATE, then re-read for fresh liquidation prices and balances
+  const positionRefreshRef = useRef<any>(null);
+  const handleAccountUpdate = useCallback((data: AccountUpdate) => {
+    setPositions(prev => applyAccountUpdate(prev, data));
+    if (positionRefreshRef.current) clearTimeout(positionRefreshRef.current);
+    positionRefreshRef.current = setTimeout(() => {
+      refreshPositions();
+      refreshAccount();
+    }, 1000);
+  }, [refreshPositions, refreshAccount]);
+
+  useEffect(() => {
+    setPositions([]);
+    setOpenOrders([]);
+    setAccount(null);
+    if (!credentialsMissing) {
+      refreshPositions();
+      refreshOpenOrders(false);
+      refreshAccount();
+    }
+  }, [demoMode, apiKey, apiSecret, keyType, environmentKey, credentialsMissing, refreshPositions, refreshOpenOrders, refreshAccount]);
+
+  // Mark price stream for every symbol we hold
+  const positionSymbols = Array.from(new Set(positions.map(p => p.symbol))).sort().join(',');
+  useEffect(() => {
+    if (!positionSymbols) return;
+    return subscribeToMarkPrices(positionSymbols.split(','), (mark) => {
+      setPositions(prev => applyMarkPrice(prev, mark));
+    });
+  }, [positionSymbols, environmentKey]);
+
+  // Exchange clock offset for signed requests (Live Mode only; the paper engine has no clock to match)
+  useEffect(() => {
+    if (demoMode) return;
+    let warnedHost: string | null = null;
+
+    const unsubscribe = subscribeToTimeSync((next) => {
+      setTimeSync(next);
+      if (next.error || next.host === warnedHost || Math.abs(next.offsetMs) < DRIFT_WARNING_MS) return;
+      warnedHost = next.host;
+      addLog('WARN', `Local clock is ${(next.offsetMs / 1000).toFixed(2)}s off the exchange clock. Timestamps are corrected automatically.`, next);
+    });
+    const stop = startTimeSync((message) => addLog('WARN', 'Server time sync failed', { error: message }));
+
+    return () => {
+      stop();
+      unsubscribe();
+    };
+  }, [demoMode, environmentKey, addLog]);
+
+  // Brackets, grid bots and strategies belong to the venue they were started on; restore that venue's set
+  useEffect(() => {
+    if (credentialsMissing) return;
+    bracketManagerRef.current!.restore(demoMode ? 'demo' : environment.id);
+    gridBotManagerRef.current!.restore(demoMode ? 'demo' : environment.id);
+    strategyRuntimeRef.current!.restore(demoMode ? 'demo' : environment.id);
+  }, [demoMode, environmentKey, credentialsMissing]);
+
+  useEffect(() => {
+    strategyRuntimeRef.current!.handlePositions(positions);
+  }, [positions]);
+
+  // Request weight / order counts as reported by the exchange
+  useEffect(() => {
+    let lastBlockedUntil = getRateLimitStatus().blockedUntil;
+    return subscribeToRateLimits((next) => {
+      setRateLimits(next);
+      if (next.blockedUntil === null || next.blockedUntil === lastBlockedUntil) return;
+      lastBlockedUntil = next.blockedUntil;
+      const seconds = Math.ceil((next.blockedUntil - Date.now()) / 1000);
+      addLog('ERROR', `Binance rate limit hit. Requests are paused for ${seconds}s.`, next);
+    });
+  }, [addLog]);
+
+  // WebSocket connection states; drops and recoveries go to the console log
+  useEffect(() => {
+    const previous = new Map(getStreamStatuses().map(s => [s.id, s.state]));
+    return subscribeToStreamStatus((next) => {
+      setStreamStatuses(next);
+      for (const stream of next) {
+        const before = previous.get(stream.id);
+        previous.set(stream.id, stream.state);
+        if (before === stream.state) continue;
+        if (stream.state === 'stale') {
+          addLog('WARN', `${stream.label} stream stopped responding`);
+        } else if (stream.state === 'reconnecting') {
+          addLog(stream.lastError === ROTATION_REASON ? 'INFO' : 'WARN', `${stream.label} stream disconnected (${stream.lastError}). Reconnecting...`);
+        } else if (stream.state === 'open' && (before === 'reconnecting' || before === 'stale')) {
+          addLog('SUCCESS', `${stream.label} stream ${before === 'stale' ? 'recovered' : 'reconnected'}`);
+        }
+      }
+      const ids = new Set(next.map(s => s.id));
+      for (const id of previous.keys()) {
+        if (!ids.has(id)) previous.delete(id);
+      }
+    });
+  }, [addLog]);
+
+  // Load exchange trading rules (tick size, lot size, notional) for the active mode and environment
+  useEffect(() => {
+    let cancelled = false;
+    setRulesCount(null);
+
+    loadSymbolRules(demoMode)
+      .then((count) => {
+        if (cancelled) return;
+        setRulesCount(count);
+        addLog('INFO', `Loaded trading rules for ${count} symbols`);
+      })
+      .catch((e: any) => {
+        if (cancelled) return;
+        addLog('WARN', 'Failed to load exchangeInfo. Falling back to default trading rules.', { error: e.message });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [demoMode, environmentKey, addLog]);
+
+  // Watchlist: one combined-stream connection per environment; edits to the list only (un)subscribe
+  const watchlistFeedRef = useRef<WatchlistFeed | null>(null);
+  useEffect(() => {
+    const feed = createWatchlistFeed(setWatchlistRows);
+    watchlistFeedRef.current = feed;
+    return () => {
+      feed.close();
+      watchlistFeedRef.current = null;
+    };
+  }, [environmentKey]);
+
   useEffect(() => {
+    saveWatchlist(watchlist);
+    watchlistFeedRef.current?.setSymbols(watchlist);
+  }, [watchlist, environmentKey]);
+
+  // Header price: the active symbol's bookTicker on the watchlist connection, so switching only (un)subscribes
+  useEffect(() => {
+    let cleanup: (() => void) | undefined;
+    setCurrentPrice(null);
+
     const handler = setTimeout(() => {
       if (symbol.length >= 3) {
-        const cleanup = subscribeToTicker(symbol, (price) => {
+        cleanup = watchlistFeedRef.current?.subscribeToPrice(symbol, (price) => {
           setCurrentPrice(price);
         });
-        return cleanup;
       }
-    }, 500); // Debounce to avoid spamming connection while typing
+    }, 500); // Debounce to avoid spamming subscriptions while typing
 
     return () => {
       clearTimeout(handler);
-      subscribeToTicker('', () => {}); // Force close
+      if (cleanup) cleanup();
     };
-  }, [symbol]);
+  }, [symbol, environmentKey]);
 
-  // WebSocket Effect for User Data Stream
+  const handleWatchlistAdd = (next: string): boolean => {
+    if (watchlist.includes(next)) {
+      addLog('WARN', `${next} is already on the watchlist`);
+      return false;
+    }
+    if (isSymbolRulesLoaded() && !hasSymbolRules(next)) {
+      addLog('ERROR', `Symbol ${next} is not listed on the exchange.`);
+      return false;
+    }
+    if (watchlist.length >= MAX_WATCHLIST_SYMBOLS) {
+      addLog('ERROR', `The watchlist holds at most ${MAX_WATCHLIST_SYMBOLS} symbols`);
+      return false;
+    }
+    setWatchlist(prev => [...prev, next]);
+    return true;
+  };
+
+  const handleWatchlistRemove = (target: string) => {
+    setWatchlist(prev => prev.filter(s => s !== target));
+  };
+
+  // Order Book Effect (depth diff stream + REST snapshot)
   useEffect(() => {
-    let cleanupFn: (() => void) | undefined;
-    let keepAliveInterval: any = null;
-
-    const connectUserData = async () => {
-      // Only connect if in Live Mode and API Key is available
-      if (!demoMode && apiKey) {
-        try {
-          addLog('INFO', 'Initializing Real-time User Data Stream...');
-          const listenKey = await getListenKey(apiKey);
-          
-          cleanupFn = subscribeToUserData(listenKey, (data) => {
-            const statusColor = data.status === 'FILLED' ? 'SUCCESS' 
-                              : data.status === 'CANCELED' ? 'WARN' 
-                              : 'INFO';
-            
-            const msg = `Order Update: ${data.symbol} is ${data.status}`;
-            
-            addLog(statusColor, msg, {
-              side: data.side,
-              filled: `${data.executedQty} / ${data.originalQty}`,
-              price: data.avgPrice,
-              type: data.type
-            });
-          });
-          
-          addLog('SUCCESS', 'User Data Stream Connected');
-
-          // Keep-alive every 50 minutes (listenKey invalidates after 60m)
-          keepAliveInterval = setInterval(async () => {
-             try {
-                await keepAliveListenKey(apiKey);
-                addLog('INFO', 'User Stream ListenKey extended');
-             } catch (e) {
-                addLog('WARN', 'Failed to extend ListenKey', e);
-             }
-          }, 50 * 60 * 1000);
-
-        } catch (e: any) {
-          addLog('ERROR', 'Failed to connect to User Stream. Check API Key/Network.', { error: e.message });
-        }
+    let cleanup: (() => void) | undefined;
+    setOrderBook(null);
+
+    const handler = setTimeout(() => {
+      if (symbol.length >= 3) {
+        cleanup = subscribeToOrderBook(
+          symbol,
+          (book) => setOrderBook(book),
+          (message) => addLog('WARN', message)
+        );
       }
+    }, 500);
+
+    return () => {
+      clearTimeout(handler);
+      if (cleanup) cleanup();
     };
+  }, [symbol, environmentKey, addLog]);
 
-    if (!demoMode && apiKey) {
-      connectUserData();
-    }
+  // Candles for the chart (REST history + kline stream)
+  useEffect(() => {
+    let cleanup: (() => void) | undefined;
+    setCandles(null);
+
+    const handler = setTimeout(() => {
+      if (symbol.length >= 3) {
+        cleanup = subscribeToCandles(
+          symbol,
+          chartInterval,
+          (next) => setCandles(next),
+          (message) => addLog('WARN', message)
+        );
+      }
+    }, 500);
 
     return () => {
-      if (cleanupFn) cleanupFn();
-      if (keepAliveInterval) clearInterval(keepAliveInterval);
+      clearTimeout(handler);
+      if (cleanup) cleanup();
     };
-  }, [demoMode, apiKey, addLog]);
+  }, [symbol, chartInterval, environmentKey, addLog]);
+
+  // Grid bot orders are re-placed by the bot itself, so the chart does not let them be dragged
+  const gridOrderIds = useMemo(() => {
+    const ids = new Set<string>();
+    for (const bot of gridBots) {
+      for (const level of bot.levels) {
+        if (level.clientOrderId) ids.add(level.clientOrderId);
+      }
+    }
+    return ids;
+  }, [gridBots]);
+
+  const handleBookPriceSelect = (price: string) => {
+    setPriceSelection({ price, id: Date.now() });
+    setActiveTab('manual');
+  };
+
+  // User Data Stream: paper engine events in Demo Mode, a managed listenKey stream in Live Mode
+  useEffect(() => {
+    if (demoMode) {
+      // The paper engine publishes the same events the exchange would
+      return subscribeToPaperUserData(handleOrderUpdate, { onAccountUpdate: handleAccountUpdate });
+    }
+    // Only connect if an API Key is available (here or in the proxy)
+    if (!apiKey && !environment.signedByProxy) return;
+
+    return startUserDataStream({
+      apiKey,
+      onOrderUpdate: handleOrderUpdate,
+      onAccountUpdate: handleAccountUpdate,
+      onResync: () => {
+        refreshOpenOrders(true);
+        refreshPositions();
+        refreshAccount();
+        bracketManagerRef.current!.restore(environment.id);
+        gridBotManagerRef.current!.restore(environment.id);
+        strategyRuntimeRef.current!.restore(environment.id);
+      },
+      onLog: addLog
+    });
+  }, [demoMode, apiKey, environmentKey, addLog, handleOrderUpdate, handleAccountUpdate, refreshOpenOrders, refreshPositions, refreshAccount]);
 
   // Handler for Single Order
-  const handleOrderSubmit = async (order: OrderRequest) => {
+  const handleOrderSubmit = async (order: OrderRequest, bracket?: BracketSpec) => {
     setIsLoading(true);
-    addLog('INFO', `Preparing to send ${order.side} ${order.type} order for ${order.symbol}...`, order);
+    addLog('INFO', `Preparing to send ${order.side} ${order.type} order for ${order.symbol}...`, bracket ? { order, bracket } : order);
 
     try {
-      if (!demoMode && (!apiKey || !apiSecret)) {
+      if (credentialsMissing) {
         throw new Error('API Key and Secret required for Live Mode');
       }
 
-      const creds: ApiCredentials = { apiKey, apiSecret };
-      const response = await placeOrder(demoMode, order, creds);
-      
-      addLog('SUCCESS', `Order Placed Successfully: #${response.orderId}`, response);
+      let response: BinanceOrderResponse;
 
-      // Simulate an update for Demo Mode so user sees "movement"
-      if (demoMode) {
-        setTimeout(() => {
-          addLog('SUCCESS', `(Simulated) Order Update: ${order.symbol} is FILLED`, {
-            side: order.side,
-            filled: `${order.quantity} / ${order.quantity}`,
-            price: currentPrice || order.price || 'Market',
-            status: 'FILLED'
-          });
-        }, 2000);
+      if (bracket) {
+        // The manager places the entry and arms the exits once it fills
+        const placed = await bracketManagerRef.current!.place(order, bracket);
+        response = placed.response;
+        addLog('INFO', `Bracket ${placed.bracket.id} waiting for entry fill`);
+      } else {
+        response = await submitOrder(order);
+        setOpenOrders(prev => upsertOrder(prev, fromOrderResponse(response)));
       }
+      
+      addLog('SUCCESS', `Order Placed Successfully: #${response.orderId}`, response);
 
     } catch (error: any) {
       addLog('ERROR', error.message || 'Failed to place order', error);
@@ -140,37 +618,238 @@ const App: React.FC = () => {
     }
   };
 
-  // Handler for Grid Strategy (Multiple Orders)
-  const handleGridSubmit = async (orders: OrderRequest[]) => {
+  // Market close (full or partial) through the normal order path
+  const handleClosePosition = (position: Position, quantity: string) => {
+    const hedged = position.positionSide !== 'BOTH';
+    handleOrderSubmit({
+      symbol: position.symbol,
+      side: position.positionAmt > 0 ? OrderSide.SELL : OrderSide.BUY,
+      type: OrderType.MARKET,
+      quantity,
+      // Hedge mode closes by trading against the leg; reduceOnly is rejected there
+      reduceOnly: hedged ? undefined : true,
+      positionSide: hedged ? position.positionSide : undefined
+    });
+  };
+
+  const requireCreds = (): ApiCredentials => {
+    if (credentialsMissing) {
+      throw new Error('API Key and Secret required for Live Mode');
+    }
+    return { apiKey, apiSecret, keyType };
+  };
+
+  // Open orders table actions
+  const handleCancelOpenOrder = async (order: OpenOrder) => {
     setIsLoading(true);
-    addLog('INFO', `Starting Grid Deployment: ${orders.length} orders generated`, { count: orders.length });
+    try {
+      const response = await cancelOrder(demoMode, order.symbol, { orderId: order.orderId }, requireCreds());
+      addLog('SUCCESS', `Order Canceled: ${order.orderId}`, response);
+      setOpenOrders(prev => removeOrder(prev, order.orderId));
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to cancel order', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-    if (!demoMode && (!apiKey || !apiSecret)) {
-       addLog('ERROR', 'API Key and Secret required for Live Mode');
-       setIsLoading(false);
-       return;
+  const handleCancelAllOpenOrders = async (targetSymbol: string) => {
+    setIsLoading(true);
+    addLog('INFO', `Cancelling all open orders for ${targetSymbol}...`);
+    try {
+      const response = await cancelAllOpenOrders(demoMode, targetSymbol, requireCreds());
+      addLog('SUCCESS', `All ${targetSymbol} orders canceled`, response);
+      setOpenOrders(prev => prev.filter(o => o.symbol !== targetSymbol.toUpperCase()));
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to cancel orders', error);
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    const creds: ApiCredentials = { apiKey, apiSecret };
-    let successCount = 0;
-    let failCount = 0;
-
-    // Execute sequentially to respect rate limits (basic implementation)
-    for (const order of orders) {
-      try {
-        await placeOrder(demoMode, order, creds);
-        addLog('SUCCESS', `Grid Order Placed: ${order.side} @ ${order.price}`, { symbol: order.symbol });
-        successCount++;
-        // Small delay
-        await new Promise(r => setTimeout(r, 200)); 
-      } catch (error: any) {
-        addLog('ERROR', `Grid Order Failed: ${order.price}`, error);
-        failCount++;
-      }
+  const handleAmendOrder = async (order: OpenOrder, price: string, quantity: string): Promise<boolean> => {
+    const errors = validateOrderInput(
+      {
+        symbol: order.symbol,
+        side: order.side,
+        type: OrderType.LIMIT,
+        price,
+        quantity,
+        reduceOnly: order.reduceOnly,
+        positionSide: order.positionSide
+      },
+      order.symbol === symbol ? currentPrice : null
+    );
+    if (errors.length > 0) {
+      addLog('ERROR', `Amend rejected: ${errors[0].message}`, errors);
+      return false;
+    }
+
+    setIsLoading(true);
+    try {
+      // An amend can grow the order, so it has to clear the cap like a new one
+      checkOrderCap({
+        symbol: order.symbol,
+        side: order.side,
+        type: OrderType.LIMIT,
+        price,
+        quantity,
+        reduceOnly: order.reduceOnly,
+        positionSide: order.positionSide
+      });
+      const response = await amendOrder(
+        demoMode,
+        { orderId: order.orderId },
+        { symbol: order.symbol, side: order.side, price, quantity },
+        requireCreds()
+      );
+      addLog('SUCCESS', `Order Amended: #${order.orderId} -> ${quantity} @ ${price}`, response);
+      setOpenOrders(prev => upsertOrder(prev, fromOrderResponse(response)));
+      return true;
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to amend order', error);
+      return false;
+    } finally {
+      setIsLoading(false);
     }
+  };
 
-    addLog('INFO', `Grid Deployment Complete. Success: ${successCount}, Failed: ${failCount}`);
-    setIsLoading(false);
+  const updatePaperConfig = (patch: Partial<PaperConfig>) => {
+    setPaperConfig(patch);
+    setPaperConfigState(getPaperConfig());
+  };
+
+  // Environment profiles
+  const refreshEnvironment = () => {
+    const active = getActiveEnvironment();
+    setEnvironment(active);
+    setEnvironmentProfiles(getEnvironmentProfiles());
+    setHostDraft({ baseUrl: active.baseUrl, streamUrl: active.streamUrl });
+  };
+
+  const logProxyStatus = async () => {
+    try {
+      const status = await getProxyStatus();
+      addLog(status.signing ? 'INFO' : 'WARN', `Signing proxy forwards to ${status.upstreamUrl}${status.signing ? '' : ' (no API credentials loaded)'}`, status);
+    } catch (error: any) {
+      addLog('ERROR', `Signing proxy unreachable at ${getActiveEnvironment().baseUrl}. Start it with "npm run proxy".`, { error: error.message });
+    }
+  };
+
+  const handleSelectEnvironment = (id: EnvironmentId) => {
+    if (id === environment.id) return;
+    if (id === 'mainnet') {
+      setMainnetPrompt(true);
+      setMainnetConfirmText('');
+      return;
+    }
+    const profile = setActiveEnvironment(id);
+    setMainnetPrompt(false);
+    refreshEnvironment();
+    addLog('INFO', `Environment switched to ${profile.label}`, { rest: profile.baseUrl, stream: profile.streamUrl });
+    if (profile.signedByProxy) logProxyStatus();
+  };
+
+  const handleConfirmMainnet = () => {
+    try {
+      const profile = setActiveEnvironment('mainnet', mainnetConfirmText);
+      setMainnetPrompt(false);
+      setMainnetConfirmText('');
+      refreshEnvironment();
+      addLog('WARN', `Environment switched to ${profile.label}. Live orders now use real funds.`, { rest: profile.baseUrl, stream: profile.streamUrl });
+    } catch (error: any) {
+      addLog('ERROR', error.message);
+    }
+  };
+
+  const handleApplyHosts = () => {
+    try {
+      const profile = updateEnvironmentProfile(environment.id, hostDraft);
+      refreshEnvironment();
+      addLog('INFO', `${profile.label} hosts updated`, { rest: profile.baseUrl, stream: profile.streamUrl });
+      if (profile.signedByProxy) logProxyStatus();
+    } catch (error: any) {
+      addLog('ERROR', error.message);
+    }
+  };
+
+  const handleSetOrderCap = (id: EnvironmentId, value: string) => {
+    const cap = parseFloat(value);
+    updateEnvironmentProfile(id, { maxOrderNotional: cap > 0 ? cap : null });
+    refreshEnvironment();
+  };
+
+  // Account settings
+  const handleSetLeverage = async (targetSymbol: string, leverage: number): Promise<boolean> => {
+    setIsLoading(true);
+    try {
+      const response = await setLeverage(demoMode, targetSymbol, leverage, requireCreds());
+      addLog('SUCCESS', `Leverage for ${targetSymbol} set to ${leverage}x`, response);
+      await refreshAccount();
+      return true;
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to change leverage', error);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetMarginType = async (targetSymbol: string, marginType: MarginType) => {
+    setIsLoading(true);
+    try {
+      const response = await setMarginType(demoMode, targetSymbol, marginType, requireCreds());
+      addLog('SUCCESS', `Margin type for ${targetSymbol} set to ${marginType}`, response);
+      await refreshAccount();
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to change margin type', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetPositionMode = async (mode: PositionMode) => {
+    setIsLoading(true);
+    try {
+      const response = await setPositionMode(demoMode, mode, requireCreds());
+      addLog('SUCCESS', `Position mode set to ${mode === 'HEDGE' ? 'Hedge' : 'One-way'}`, response);
+      await refreshAccount();
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to change position mode', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Grid bots: placed here, then driven by fills through handleOrderUpdate
+  const handleGridStart = async (spec: GridBotSpec) => {
+    if (credentialsMissing) {
+      addLog('ERROR', 'API Key and Secret required for Live Mode');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await gridBotManagerRef.current!.start(spec);
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to start grid bot', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Strategies: started here, then driven by market data and fills inside the runtime
+  const handleStrategyStart = async (strategyId: string, params: Record<string, number>) => {
+    if (credentialsMissing) {
+      addLog('ERROR', 'API Key and Secret required for Live Mode');
+      return;
+    }
+
+    try {
+      strategyRuntimeRef.current!.start(strategyId, symbol, params);
+    } catch (error: any) {
+      addLog('ERROR', error.message || 'Failed to start strategy', error);
+    }
   };
 
   // Handler for Cancel Order
@@ -179,14 +858,15 @@ const App: React.FC = () => {
     addLog('INFO', `Attempting to cancel order ${orderId} for ${targetSymbol}...`);
 
     try {
-        if (!demoMode && (!apiKey || !apiSecret)) {
+        if (credentialsMissing) {
             throw new Error('API Key and Secret required for Live Mode');
         }
 
-        const creds: ApiCredentials = { apiKey, apiSecret };
+        const creds: ApiCredentials = { apiKey, apiSecret, keyType };
         const response = await cancelOrder(demoMode, targetSymbol, orderId, creds);
 
         addLog('SUCCESS', `Order Canceled: ${response.orderId || orderId}`, response);
+        if (response.orderId) setOpenOrders(prev => removeOrder(prev, response.orderId));
         
         // If simulated
         if (demoMode) {
@@ -214,11 +894,28 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-slate-100 to-slate-400">
                 Binance Terminal
               </h1>
-              <p className="text-xs text-slate-500 font-mono tracking-tight">FUTURES TESTNET</p>
+              <p className={`text-xs font-mono tracking-tight ${environment.id === 'mainnet' ? 'text-rose-400' : 'text-slate-500'}`}>
+                {environment.label.toUpperCase()}
+              </p>
             </div>
           </div>
 
           <div className="flex items-center space-x-4">
+            {/* Stream health */}
+            {streamStatuses.length > 0 && (
+              <div
+                className={`flex items-center space-x-1.5 text-xs font-mono ${
+                  streamStatuses.some(s => s.state === 'reconnecting')
+                    ? 'text-rose-400'
+                    : streamStatuses.some(s => s.state !== 'open') ? 'text-orange-300' : 'text-emerald-400'
+                }`}
+                title={streamStatuses.map(s => `${s.label}: ${s.state}${s.state !== 'open' && s.lastError ? ` (${s.lastError})` : ''}`).join('\n')}
+              >
+                {streamStatuses.some(s => s.state === 'reconnecting') ? <WifiOff className="w-4 h-4" /> : <Wifi className="w-4 h-4" />}
+                <span>{streamStatuses.filter(s => s.state === 'open').length}/{streamStatuses.length}</span>
+              </div>
+            )}
+
             {/* Mode Toggle */}
             <div className="flex items-center bg-slate-800 rounded-full p-1 border border-slate-700">
               <button
@@ -249,6 +946,19 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {/* Mainnet Banner (always visible while mainnet is selected) */}
+      {environment.id === 'mainnet' && (
+        <div className="bg-rose-600 text-white text-xs font-bold sticky top-16 z-40 shadow">
+          <div className="max-w-7xl mx-auto px-4 py-1.5 flex items-center justify-center space-x-2">
+            <AlertTriangle className="w-4 h-4" />
+            <span>
+              MAINNET - {demoMode ? 'Demo Mode orders are simulated, but switching to Live trades real funds' : 'Live orders use REAL FUNDS'}
+              {environment.maxOrderNotional !== null && ` (cap ${environment.maxOrderNotional} USDT per order)`}
+            </span>
+          </div>
+        </div>
+      )}
+
       {/* Settings Panel (Collapsible) */}
       {showSettings && (
         <div className="bg-slate-900 border-b border-slate-800 animate-in slide-in-from-top-2">
@@ -258,36 +968,200 @@ const App: React.FC = () => {
                 <Shield className="w-4 h-4 mr-2 text-blue-400" />
                 API Credentials (Required for Live Mode)
               </h3>
-              <div className="space-y-3">
-                <input
-                  type="text"
-                  placeholder="API Key"
-                  value={apiKey}
-                  onChange={(e) => setApiKey(e.target.value)}
-                  className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 outline-none"
-                />
-                <input
-                  type="password"
-                  placeholder="API Secret"
-                  value={apiSecret}
-                  onChange={(e) => setApiSecret(e.target.value)}
-                  className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 outline-none"
+              {environment.signedByProxy ? (
+                <p className="text-sm text-slate-400">
+                  The signing proxy holds the API key and secret (<span className="font-mono">BINANCE_API_KEY</span> / <span className="font-mono">BINANCE_API_SECRET</span>) and signs every request. Nothing is entered here.
+                </p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex space-x-1 p-0.5 bg-slate-800 rounded">
+                    {([['HMAC', 'HMAC'], ['ED25519', 'Ed25519'], ['RSA', 'RSA']] as [KeyType, string][]).map(([type, label]) => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => {
+                          setKeyType(type);
+                          setVaultProfileId(null);
+                        }}
+                        className={`flex-1 py-1 rounded text-[11px] font-medium transition ${
+                          keyType === type ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="text"
+                    placeholder="API Key"
+                    value={apiKey}
+                    onChange={(e) => {
+                      setApiKey(e.target.value);
+                      setVaultProfileId(null);
+                    }}
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 outline-none"
+                  />
+                  <input
+                    type="password"
+                    placeholder={keyType === 'HMAC' ? 'API Secret' : 'Private Key (PKCS#8 PEM)'}
+                    value={apiSecret}
+                    onChange={(e) => {
+                      setApiSecret(e.target.value);
+                      setVaultProfileId(null);
+                    }}
+                    onBlur={() => {
+                      if (!apiSecret) return;
+                      verifySigningKey({ apiKey, apiSecret, keyType })
+                        .catch((error: any) => addLog('ERROR', `Invalid ${keyType} private key: ${error.message}`));
+                    }}
+                    className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 outline-none"
+                  />
+                </div>
+              )}
+              {!environment.signedByProxy && (
+                <VaultPanel
+                  credentials={{ apiKey, apiSecret, keyType }}
+                  activeProfileId={vaultProfileId}
+                  onUseProfile={handleUseVaultProfile}
+                  onLog={addLog}
                 />
-              </div>
+              )}
             </div>
             <div className="bg-blue-500/5 border border-blue-500/10 rounded-lg p-4 text-sm text-blue-200/80">
               <div className="flex items-start">
                 <InfoIcon className="w-5 h-5 text-blue-400 mr-2 shrink-0 mt-0.5" />
                 <div className="space-y-2">
                   <p>
-                    <strong>Security Note:</strong> Keys are stored only in React state memory. They are never sent to any server other than Binance.
+                    <strong>Security Note:</strong> Keys are held in React state memory and only sent to the REST host of the selected environment. The optional vault stores them AES-GCM encrypted under your passphrase; plaintext is never written to disk.
                   </p>
                   <p>
-                    <strong>CORS Warning:</strong> Live Mode requires a browser extension (like "Allow CORS") to function because Binance API does not typically allow direct browser requests.
+                    <strong>CORS Warning:</strong> Binance does not allow direct browser requests. Run the bundled signing proxy (<span className="font-mono">npm run proxy</span>) and select the Local Signing Proxy environment, or use a browser extension (like "Allow CORS") with the other environments.
                   </p>
                 </div>
               </div>
             </div>
+            <div className="space-y-4 md:col-span-2">
+              <h3 className="text-sm font-semibold text-slate-300 flex items-center">
+                <Globe className="w-4 h-4 mr-2 text-blue-400" />
+                Environment (Live Mode)
+              </h3>
+              <div className="flex space-x-1 p-1 bg-slate-800 rounded-lg">
+                {environmentProfiles.map(p => (
+                  <button
+                    key={p.id}
+                    type="button"
+                    onClick={() => handleSelectEnvironment(p.id)}
+                    className={`flex-1 py-1.5 rounded text-xs font-medium transition ${
+                      environment.id === p.id
+                        ? (p.id === 'mainnet' ? 'bg-rose-600 text-white' : 'bg-blue-600 text-white')
+                        : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+                    }`}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+              </div>
+
+              {mainnetPrompt && (
+                <div className="bg-rose-500/10 border border-rose-500/30 rounded-lg p-3 space-y-2">
+                  <p className="text-xs text-rose-200">
+                    Mainnet trades real funds. Type <span className="font-mono font-bold">{MAINNET_CONFIRMATION}</span> to continue.
+                  </p>
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={mainnetConfirmText}
+                      onChange={(e) => setMainnetConfirmText(e.target.value)}
+                      className="flex-1 bg-slate-800 border border-rose-500/40 rounded px-3 py-2 text-sm font-mono focus:ring-1 focus:ring-rose-500 outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={handleConfirmMainnet}
+                      disabled={mainnetConfirmText !== MAINNET_CONFIRMATION}
+                      className="px-3 py-2 rounded bg-rose-600 hover:bg-rose-500 text-xs font-bold text-white disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      Switch to Mainnet
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setMainnetPrompt(false)}
+                      className="px-3 py-2 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {(environment.id === 'custom' || environment.id === 'proxy') && (
+                <div className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                  {([
+                    ['REST Base URL', 'baseUrl'],
+                    ['Stream Base URL', 'streamUrl']
+                  ] as const).map(([label, key]) => (
+                    <label key={key} className="block">
+                      <span className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">{label}</span>
+                      <input
+                        type="text"
+                        value={hostDraft[key]}
+                        onChange={(e) => setHostDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                        className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm font-mono focus:ring-1 focus:ring-blue-500 outline-none"
+                      />
+                    </label>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={handleApplyHosts}
+                    disabled={hostDraft.baseUrl === environment.baseUrl && hostDraft.streamUrl === environment.streamUrl}
+                    className="px-3 py-2 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    Apply
+                  </button>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {environmentProfiles.map(p => (
+                  <label key={p.id} className="block">
+                    <span className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">{p.label} Cap (USDT/order)</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      placeholder="No cap"
+                      value={p.maxOrderNotional ?? ''}
+                      onChange={(e) => handleSetOrderCap(p.id, e.target.value)}
+                      className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm font-mono focus:ring-1 focus:ring-blue-500 outline-none"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-4 md:col-span-2">
+              <h3 className="text-sm font-semibold text-slate-300 flex items-center">
+                <Activity className="w-4 h-4 mr-2 text-blue-400" />
+                Paper Trading (Demo Mode)
+              </h3>
+              <div className="grid grid-cols-3 gap-3">
+                {([
+                  ['Slippage (bps)', paperConfig.slippageBps, (v: number) => updatePaperConfig({ slippageBps: v })],
+                  ['Maker Fee (%)', paperConfig.makerFeeRate * 100, (v: number) => updatePaperConfig({ makerFeeRate: v / 100 })],
+                  ['Taker Fee (%)', paperConfig.takerFeeRate * 100, (v: number) => updatePaperConfig({ takerFeeRate: v / 100 })]
+                ] as const).map(([label, value, onChange]) => (
+                  <label key={label} className="block">
+                    <span className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">{label}</span>
+                    <input
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={Number(value.toPrecision(10))}
+                      onChange={(e) => onChange(Math.max(0, parseFloat(e.target.value) || 0))}
+                      className="w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm font-mono focus:ring-1 focus:ring-blue-500 outline-none"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
       )}
@@ -317,6 +1191,13 @@ const App: React.FC = () => {
                   <Grid className="w-4 h-4" />
                   <span>Grid</span>
                 </button>
+                <button 
+                  onClick={() => setActiveTab('strategy')}
+                  className={`flex-1 flex items-center justify-center space-x-2 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'strategy' ? 'bg-slate-700 text-white shadow' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                  <Cpu className="w-4 h-4" />
+                  <span>Bots</span>
+                </button>
                 <button 
                   onClick={() => setActiveTab('cancel')}
                   className={`flex items-center justify-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'cancel' ? 'bg-slate-700 text-white shadow' : 'text-slate-400 hover:text-slate-200 hover:text-red-300'}`}
@@ -343,8 +1224,11 @@ const App: React.FC = () => {
                     symbol={symbol}
                     onSymbolChange={setSymbol}
                     currentPrice={currentPrice}
+                    priceSelection={priceSelection}
                     onSubmit={handleOrderSubmit} 
                     isLoading={isLoading} 
+                    hedgeMode={account?.positionMode === 'HEDGE'}
+                    defaultLeverage={account?.symbolSettings[symbol]?.leverage}
                   />
                 </>
               )}
@@ -366,8 +1250,48 @@ const App: React.FC = () => {
                     symbol={symbol}
                     onSymbolChange={setSymbol}
                     currentPrice={currentPrice}
-                    onSubmit={handleGridSubmit} 
+                    onSubmit={handleGridStart} 
                     isLoading={isLoading} 
+                    defaultLeverage={account?.symbolSettings[symbol]?.leverage}
+                    makerFeeRate={paperConfig.makerFeeRate}
+                    takerFeeRate={paperConfig.takerFeeRate}
+                    onPreviewChange={setGridPreview}
+                  />
+                  <GridBotPanel
+                    bots={gridBots}
+                    onPause={(id) => gridBotManagerRef.current!.pause(id)}
+                    onResume={(id) => gridBotManagerRef.current!.resume(id)}
+                    onStop={(id) => gridBotManagerRef.current!.stop(id)}
+                  />
+                </>
+              )}
+
+              {activeTab === 'strategy' && (
+                <>
+                  <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-lg font-medium text-white flex items-center">
+                      Run Strategy
+                    </h2>
+                    {currentPrice && (
+                       <div className="flex items-center space-x-2 bg-slate-800 px-3 py-1 rounded-full border border-slate-700 animate-in fade-in">
+                          <Wifi className="w-3 h-3 text-green-400 animate-pulse" />
+                          <span className="text-sm font-mono font-bold text-green-400">{currentPrice}</span>
+                       </div>
+                    )}
+                  </div>
+                  <StrategyForm
+                    strategies={STRATEGIES}
+                    symbol={symbol}
+                    onSymbolChange={setSymbol}
+                    onSubmit={handleStrategyStart}
+                    isLoading={isLoading}
+                  />
+                  <StrategyPanel
+                    strategies={STRATEGIES}
+                    instances={strategyInstances}
+                    onPause={(id) => strategyRuntimeRef.current!.pause(id)}
+                    onResume={(id) => strategyRuntimeRef.current!.resume(id)}
+                    onStop={(id) => strategyRuntimeRef.current!.stop(id)}
                   />
                 </>
               )}
@@ -391,11 +1315,32 @@ const App: React.FC = () => {
               {!demoMode && (
                 <div className="mt-4 flex items-center justify-center space-x-2 text-xs text-rose-400 bg-rose-500/5 py-2 rounded border border-rose-500/10">
                   <AlertTriangle className="w-3 h-3" />
-                  <span>Live Mode Active - Real Testnet Funds</span>
+                  <span>
+                    Live Mode Active - {environment.id === 'mainnet' ? 'Real Funds' : environment.label}
+                    {environment.maxOrderNotional !== null && ` (max ${environment.maxOrderNotional} USDT/order)`}
+                  </span>
                 </div>
               )}
             </div>
 
+            <WatchlistPanel
+              rows={watchlistRows}
+              activeSymbol={symbol}
+              onSelect={setSymbol}
+              onAdd={handleWatchlistAdd}
+              onRemove={handleWatchlistRemove}
+            />
+
+            <AccountPanel
+              account={account}
+              symbol={symbol}
+              onRefresh={refreshAccount}
+              onSetLeverage={handleSetLeverage}
+              onSetMarginType={handleSetMarginType}
+              onSetPositionMode={handleSetPositionMode}
+              isLoading={isLoading}
+            />
+
             {/* Quick Stats */}
             <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 shadow-xl flex flex-col justify-center items-center text-center space-y-4">
               <div className="w-12 h-12 bg-slate-800 rounded-full flex items-center justify-center relative">
@@ -405,18 +1350,77 @@ const App: React.FC = () => {
               <div>
                 <h3 className="text-slate-300 font-medium">Connection Status</h3>
                 <p className="text-sm text-slate-500 mt-1">
-                  {demoMode ? 'Simulated Environment' : 'Direct API Connection'}
+                  {demoMode ? 'Simulated Environment' : `Direct API Connection (${environment.label})`}
                 </p>
                  <div className="mt-2 text-xs font-mono text-slate-400">
                     {currentPrice ? `Linked: ${symbol}` : 'Waiting for Ticker...'}
                  </div>
+                 <div className="mt-1 text-[10px] font-mono text-slate-500">
+                    {rulesCount !== null ? `Trading rules: ${rulesCount} symbols` : 'Loading trading rules...'}
+                 </div>
+                 {!demoMode && (
+                   <div
+                     className={`mt-1 text-[10px] font-mono ${
+                       timeSync.error ? 'text-rose-400' : Math.abs(timeSync.offsetMs) >= DRIFT_WARNING_MS ? 'text-orange-300' : 'text-slate-500'
+                     }`}
+                     title={timeSync.error || `recvWindow ${timeSync.recvWindow} ms`}
+                   >
+                     {timeSync.syncedAt === null
+                       ? (timeSync.error ? 'Clock sync failed' : 'Syncing exchange clock...')
+                       : `Clock offset: ${timeSync.offsetMs > 0 ? '+' : ''}${timeSync.offsetMs} ms · RTT ${timeSync.rttMs} ms`}
+                   </div>
+                 )}
+                 {!demoMode && rateLimits.updatedAt !== null && (
+                   <div
+                     className={`mt-1 text-[10px] font-mono ${
+                       rateLimits.blockedUntil !== null && rateLimits.blockedUntil > Date.now()
+                         ? 'text-rose-400'
+                         : rateLimits.usedWeight1m >= rateLimits.weightLimit1m * 0.75 ? 'text-orange-300' : 'text-slate-500'
+                     }`}
+                   >
+                     {`Weight: ${rateLimits.usedWeight1m}/${rateLimits.weightLimit1m} · Orders: ${rateLimits.orderCount10s}/${rateLimits.orderLimit10s} (10s)`}
+                   </div>
+                 )}
               </div>
             </div>
           </div>
 
-          {/* Right Column: Console/Logs */}
-          <div className="lg:col-span-8 h-full">
-            <ConsoleLog logs={logs} onClear={() => setLogs([])} />
+          {/* Right Column: Order Book + Chart/Console, Positions */}
+          <div className="lg:col-span-8 h-full flex flex-col gap-6">
+            <div className="flex-1 min-h-0 grid xl:grid-cols-8 gap-6">
+              <div className="xl:col-span-3 h-full min-h-[400px]">
+                <OrderBook symbol={symbol} book={orderBook} onPriceSelect={handleBookPriceSelect} />
+              </div>
+              <div className="xl:col-span-5 h-full min-h-[400px] flex flex-col gap-6">
+                <div className="flex-1 min-h-[240px]">
+                  <PriceChart
+                    symbol={symbol}
+                    interval={chartInterval}
+                    onIntervalChange={setChartInterval}
+                    candles={candles}
+                    orders={openOrders}
+                    positions={positions}
+                    gridPreview={gridPreview}
+                    lockedClientOrderIds={gridOrderIds}
+                    onAmendOrder={(order, price) => handleAmendOrder(order, price, order.origQty)}
+                  />
+                </div>
+                <div className="h-48 shrink-0">
+                  <ConsoleLog logs={logs} onClear={() => setLogs([])} />
+                </div>
+              </div>
+            </div>
+            <div className="h-56 shrink-0 grid xl:grid-cols-2 gap-6">
+              <PositionsPanel positions={positions} onClose={handleClosePosition} isLoading={isLoading} />
+              <OpenOrdersPanel
+                orders={openOrders}
+                symbol={symbol}
+                onCancel={handleCancelOpenOrder}
+                onCancelAll={handleCancelAllOpenOrders}
+                onAmend={handleAmendOrder}
+                isLoading={isLoading}
+              />
+            </div>
           </div>
         </div>
       </main>
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { AccountInfo, MarginType, PositionMode } from '../types';
+import { Wallet, RefreshCw } from 'lucide-react';
+
+interface AccountPanelProps {
+  account: AccountInfo | null;
+  symbol: string;
+  onRefresh: () => void;
+  onSetLeverage: (symbol: string, leverage: number) => Promise<boolean>;
+  onSetMarginType: (symbol: string, marginType: MarginType) => void;
+  onSetPositionMode: (mode: PositionMode) => void;
+  isLoading: boolean;
+}
+
+const MAX_LEVERAGE = 125;
+const DEFAULT_LEVERAGE = 20;
+
+const AccountPanel: React.FC<AccountPanelProps> = ({
+  account,
+  symbol,
+  onRefresh,
+  onSetLeverage,
+  onSetMarginType,
+  onSetPositionMode,
+  isLoading
+}) => {
+  const settings = account?.symbolSettings[symbol.toUpperCase()];
+  const currentLeverage = settings?.leverage ?? DEFAULT_LEVERAGE;
+  const marginType: MarginType = settings?.marginType ?? 'CROSSED';
+  const [leverageInput, setLeverageInput] = useState(currentLeverage.toString());
+
+  useEffect(() => {
+    setLeverageInput(currentLeverage.toString());
+  }, [currentLeverage, symbol]);
+
+  const parsedLeverage = parseInt(leverageInput);
+  const leverageValid = Number.isInteger(parsedLeverage) && parsedLeverage >= 1 && parsedLeverage <= MAX_LEVERAGE;
+
+  const ratioColor = (ratio: number) => ratio >= 80 ? 'text-rose-400' : ratio >= 50 ? 'text-orange-300' : 'text-emerald-400';
+  const pnlColor = (value: number) => value > 0 ? 'text-emerald-400' : value < 0 ? 'text-rose-400' : 'text-slate-300';
+
+  const toggleClass = (active: boolean) =>
+    `flex-1 py-1 rounded text-[11px] font-medium transition ${
+      active ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-700'
+    }`;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 shadow-xl space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-300 font-medium flex items-center space-x-2">
+          <Wallet className="w-4 h-4 text-slate-400" />
+          <span>Account</span>
+        </h3>
+        <button
+          type="button"
+          onClick={onRefresh}
+          disabled={isLoading}
+          className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40"
+          title="Refresh account"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {!account ? (
+        <div className="text-slate-600 italic text-center text-sm py-2">
+          Account not loaded.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50">
+              <div className="text-[10px] uppercase tracking-wide text-slate-500">Wallet</div>
+              <div className="text-slate-200">{account.totalWalletBalance.toFixed(2)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50">
+              <div className="text-[10px] uppercase tracking-wide text-slate-500">Available</div>
+              <div className="text-slate-200">{account.availableBalance.toFixed(2)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50">
+              <div className="text-[10px] uppercase tracking-wide text-slate-500">Margin Balance</div>
+              <div className="text-slate-200">{account.totalMarginBalance.toFixed(2)}</div>
+            </div>
+            <div className="bg-slate-800/50 p-2 rounded border border-slate-700/50">
+              <div className="text-[10px] uppercase tracking-wide text-slate-500">Unrealized PnL</div>
+              <div className={pnlColor(account.totalUnrealizedProfit)}>{account.totalUnrealizedProfit.toFixed(2)}</div>
+            </div>
+          </div>
+          <div className="flex justify-between text-xs font-mono">
+            <span className="text-slate-500">Margin Ratio</span>
+            <span className={ratioColor(account.marginRatio)}>{account.marginRatio.toFixed(2)}%</span>
+          </div>
+
+          {/* Per-symbol settings */}
+          <div className="bg-slate-800/50 p-3 rounded border border-slate-700/50 space-y-3">
+            <div className="text-[10px] font-medium text-slate-400 uppercase tracking-wider">
+              {symbol} Settings
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                min="1"
+                max={MAX_LEVERAGE}
+                step="1"
+                value={leverageInput}
+                onChange={(e) => setLeverageInput(e.target.value)}
+                className={`w-20 bg-slate-800 border ${leverageValid ? 'border-slate-700' : 'border-red-500/70'} text-xs text-white font-mono rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500`}
+              />
+              <span className="text-xs text-slate-500">x</span>
+              <button
+                type="button"
+                onClick={() => onSetLeverage(symbol, parsedLeverage)}
+                disabled={isLoading || !leverageValid || parsedLeverage === currentLeverage}
+                className="flex-1 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Set Leverage
+              </button>
+            </div>
+            <div className="flex space-x-1 p-0.5 bg-slate-800 rounded">
+              {(['CROSSED', 'ISOLATED'] as MarginType[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => m !== marginType && onSetMarginType(symbol, m)}
+                  disabled={isLoading}
+                  className={toggleClass(marginType === m)}
+                >
+                  {m === 'CROSSED' ? 'Cross' : 'Isolated'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Account-wide position mode */}
+          <div>
+            <div className="text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">
+              Position Mode
+            </div>
+            <div className="flex space-x-1 p-0.5 bg-slate-800 rounded">
+              {(['ONE_WAY', 'HEDGE'] as PositionMode[]).map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => m !== account.positionMode && onSetPositionMode(m)}
+                  disabled={isLoading}
+                  className={toggleClass(account.positionMode === m)}
+                >
+                  {m === 'ONE_WAY' ? 'One-way' : 'Hedge'}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-[10px] text-slate-500">
+              Applies to every symbol; requires no open positions or orders.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccountPanel;
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { LogEntry } from '../types';
 import { Terminal, Clock, AlertCircle, CheckCircle, Info } from 'lucide-react';
 
@@ -9,6 +9,15 @@ interface ConsoleLogProps {
 
 const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs, onClear }) => {
   const bottomRef = useRef<HTMLDivElement>(null);
+  // '' shows everything; otherwise only the logs of one strategy instance
+  const [sourceFilter, setSourceFilter] = useState('');
+
+  const sources = useMemo(() => Array.from(new Set(logs.map(l => l.source).filter((s): s is string => !!s))), [logs]);
+  const visibleLogs = sourceFilter ? logs.filter(l => l.source === sourceFilter) : logs;
+
+  useEffect(() => {
+    if (sourceFilter && !sources.includes(sourceFilter)) setSourceFilter('');
+  }, [sources, sourceFilter]);
 
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -39,21 +48,36 @@ const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs, onClear }) => {
           <Terminal className="w-4 h-4 text-slate-400" />
           <span className="text-sm font-semibold text-slate-300">System Logs</span>
         </div>
-        <button 
-          onClick={onClear}
-          className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
-        >
-          Clear
-        </button>
+        <div className="flex items-center space-x-3">
+          {sources.length > 0 && (
+            <select
+              value={sourceFilter}
+              onChange={(e) => setSourceFilter(e.target.value)}
+              className="bg-slate-900 border border-slate-700 text-xs text-slate-300 rounded px-1.5 py-0.5 focus:outline-none"
+              title="Show the logs of one strategy"
+            >
+              <option value="">All sources</option>
+              {sources.map(source => (
+                <option key={source} value={source}>{source}</option>
+              ))}
+            </select>
+          )}
+          <button 
+            onClick={onClear}
+            className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Clear
+          </button>
+        </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-4 font-mono text-sm space-y-3 bg-black/40">
-        {logs.length === 0 && (
+        {visibleLogs.length === 0 && (
           <div className="text-slate-600 italic text-center mt-10">
             No logs available. Ready for orders.
           </div>
         )}
-        {logs.map((log) => (
+        {visibleLogs.map((log) => (
           <div key={log.id} className="group animate-in fade-in slide-in-from-bottom-1 duration-300">
             <div className="flex items-start space-x-3">
               <span className="text-slate-500 text-xs mt-0.5 whitespace-nowrap">
@@ -66,6 +90,11 @@ const ConsoleLog: React.FC<ConsoleLogProps> = ({ logs, onClear }) => {
                 <span className={`font-medium ${getColor(log.level)}`}>
                   [{log.level}]
                 </span>
+                {log.source && (
+                  <span className="ml-2 px-1.5 py-0.5 rounded bg-cyan-500/10 border border-cyan-500/30 text-cyan-300 text-xs">
+                    {log.source}
+                  </span>
+                )}
                 <span className="text-slate-300 ml-2">{log.message}</span>
                 {log.details && (
                   <pre className="mt-2 text-xs bg-slate-800/50 p-2 rounded text-slate-400 overflow-x-auto border border-slate-700/50">
@@ -0,0 +1,89 @@
+import React from 'react';
+import { GridBot, OrderSide } from '../types';
+import { Bot, Pause, Play, Square } from 'lucide-react';
+
+interface GridBotPanelProps {
+  bots: GridBot[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onStop: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<GridBot['status'], string> = {
+  RUNNING: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  PAUSED: 'bg-orange-500/10 text-orange-300 border-orange-500/30',
+  STOPPED: 'bg-slate-700 text-slate-400 border-slate-600',
+  FAILED: 'bg-rose-500/10 text-rose-400 border-rose-500/30'
+};
+
+const GridBotPanel: React.FC<GridBotPanelProps> = ({ bots, onPause, onResume, onStop }) => {
+  if (bots.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <h3 className="flex items-center text-xs font-medium text-slate-400 uppercase tracking-wider">
+        <Bot className="w-4 h-4 mr-2 text-purple-400" />
+        Grid Bots
+      </h3>
+
+      {bots.map(bot => {
+        const resting = bot.levels.filter(l => l.clientOrderId);
+        const buys = resting.filter(l => l.side === OrderSide.BUY).length;
+        return (
+          <div key={bot.id} className="bg-slate-800/50 border border-slate-700/50 rounded p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-mono text-slate-200">{bot.symbol}</span>
+                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-medium ${STATUS_STYLES[bot.status]}`}>{bot.status}</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                {bot.status === 'RUNNING' && (
+                  <button type="button" onClick={() => onPause(bot.id)} className="p-1 rounded text-slate-400 hover:text-orange-300" title="Pause (cancels orders)">
+                    <Pause className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {bot.status === 'PAUSED' && (
+                  <button type="button" onClick={() => onResume(bot.id)} className="p-1 rounded text-slate-400 hover:text-emerald-400" title="Resume">
+                    <Play className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Stop grid ${bot.id} and cancel its orders?`)) onStop(bot.id);
+                  }}
+                  disabled={bot.status === 'STOPPED'}
+                  className="p-1 rounded text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                  title="Stop (cancels orders)"
+                >
+                  <Square className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 text-[10px] text-slate-500">
+              <div>
+                <div className="uppercase tracking-wide opacity-70">Range</div>
+                <div className="font-mono text-slate-300">{bot.levels[0]?.price} - {bot.levels[bot.levels.length - 1]?.price}</div>
+              </div>
+              <div>
+                <div className="uppercase tracking-wide opacity-70">Orders</div>
+                <div className="font-mono text-slate-300">
+                  <span className="text-emerald-400">{buys}B</span> / <span className="text-rose-400">{resting.length - buys}S</span>
+                </div>
+              </div>
+              <div>
+                <div className="uppercase tracking-wide opacity-70">Cycles · Profit</div>
+                <div className={`font-mono ${bot.realizedProfit >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                  {bot.cycles} · {bot.realizedProfit.toFixed(4)}
+                </div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default GridBotPanel;
@@ -1,41 +1,95 @@
-import React, { useState, useEffect } from 'react';
-import { OrderSide, OrderType, OrderRequest } from '../types';
-import { validateGridInput, getSymbolRules } from '../utils/validator';
-import { Grid, ArrowDown, TrendingUp, TrendingDown, Play, Target, AlertCircle } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { GridBotSpec, GridQuantityMode, GridSpacing, OrderSide, ValidationCode, ValidationError, ValidationField } from '../types';
+import { validateGridInput, validateGridLevels, getSymbolRules } from '../utils/validator';
+import { buildGridPlan, GridPlan, GridPlanRow } from '../utils/grid';
+import { Grid, TrendingUp, TrendingDown, Target, AlertCircle } from 'lucide-react';
 
 interface GridFormProps {
   symbol: string;
   onSymbolChange: (symbol: string) => void;
   currentPrice: string | null;
-  onSubmit: (orders: OrderRequest[]) => Promise<void>;
+  onSubmit: (spec: GridBotSpec) => Promise<void>;
   isLoading: boolean;
+  defaultLeverage?: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+  onPreviewChange?: (rows: GridPlanRow[] | null) => void; // Feeds the chart overlay
 }
 
+const QUANTITY_MODES: { mode: GridQuantityMode; label: string; amountLabel: string }[] = [
+  { mode: 'BASE', label: 'Fixed Qty', amountLabel: 'Qty Per Grid' },
+  { mode: 'QUOTE', label: 'Fixed Notional', amountLabel: 'Notional Per Grid' },
+  { mode: 'PYRAMID', label: 'Pyramid', amountLabel: 'Base Qty (Nearest Level)' }
+];
+
+const formatAmount = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
 const GridForm: React.FC<GridFormProps> = ({ 
   symbol, 
   onSymbolChange, 
   currentPrice,
   onSubmit, 
-  isLoading 
+  isLoading,
+  defaultLeverage,
+  makerFeeRate,
+  takerFeeRate,
+  onPreviewChange
 }) => {
   const [minPrice, setMinPrice] = useState('90000');
   const [maxPrice, setMaxPrice] = useState('100000');
   const [gridCount, setGridCount] = useState('5');
-  const [quantityPerGrid, setQuantityPerGrid] = useState('0.001');
+  const [spacing, setSpacing] = useState<GridSpacing>('ARITHMETIC');
+  const [quantityMode, setQuantityMode] = useState<GridQuantityMode>('BASE');
+  const [amount, setAmount] = useState('0.001');
   const [refPrice, setRefPrice] = useState('95000');
-  const [validationError, setValidationError] = useState<string | null>(null);
+  const [leverage, setLeverage] = useState('10');
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+
+  useEffect(() => {
+    if (defaultLeverage) setLeverage(defaultLeverage.toString());
+  }, [defaultLeverage]);
+
+  useEffect(() => {
+    setValidationErrors([]);
+  }, [minPrice, maxPrice, gridCount, spacing, quantityMode, amount, refPrice, symbol]);
+
+  // Live preview; null until the inputs describe a usable grid
+  const plan: GridPlan | null = useMemo(() => {
+    const min = parseFloat(minPrice);
+    const max = parseFloat(maxPrice);
+    const count = parseInt(gridCount);
+    const ref = parseFloat(refPrice);
+    const value = parseFloat(amount);
+    if (!(min > 0) || !(max > min) || !(count >= 2) || count > 100 || isNaN(ref) || !(value > 0)) return null;
+
+    const rules = getSymbolRules(symbol);
+    return buildGridPlan({
+      minPrice: min,
+      maxPrice: max,
+      count,
+      spacing,
+      referencePrice: ref,
+      quantityMode,
+      amount: value,
+      leverage: parseInt(leverage) || 1,
+      makerFeeRate,
+      takerFeeRate
+    }, rules.tickSize, rules.stepSize);
+  }, [symbol, minPrice, maxPrice, gridCount, spacing, quantityMode, amount, refPrice, leverage, makerFeeRate, takerFeeRate]);
 
   useEffect(() => {
-    setValidationError(null);
-  }, [minPrice, maxPrice, quantityPerGrid, symbol]);
+    if (!onPreviewChange) return;
+    onPreviewChange(plan ? plan.rows : null);
+    return () => onPreviewChange(null);
+  }, [plan, onPreviewChange]);
 
   const generateGrid = (e: React.FormEvent) => {
     e.preventDefault();
     
     // 1. Validate Inputs
-    const error = validateGridInput(symbol, minPrice, maxPrice, quantityPerGrid);
-    if (error) {
-      setValidationError(error);
+    const errors = validateGridInput(symbol, minPrice, maxPrice, amount, quantityMode);
+    if (errors.length > 0) {
+      setValidationErrors(errors);
       return;
     }
 
@@ -43,37 +97,30 @@ const GridForm: React.FC<GridFormProps> = ({
     const max = parseFloat(maxPrice);
     const count = parseInt(gridCount);
     const ref = parseFloat(refPrice);
-    const qty = quantityPerGrid;
     
-    if (count < 2) {
-      setValidationError("Grid count must be at least 2");
+    if (isNaN(count) || count < 2 || count > 100) {
+      setValidationErrors([{ code: ValidationCode.INVALID_RANGE, field: 'gridCount', message: 'Grid count must be between 2 and 100' }]);
       return;
     }
 
-    const rules = getSymbolRules(symbol);
-    const step = (max - min) / (count - 1);
-    const orders: OrderRequest[] = [];
-
-    for (let i = 0; i < count; i++) {
-      const priceLevel = min + (i * step);
-      // Ensure price level respects precision
-      const priceStr = priceLevel.toFixed(rules.priceDecimals);
-      
-      if (Math.abs(priceLevel - ref) < (1 / Math.pow(10, rules.priceDecimals))) continue; 
-      
-      const side = priceLevel < ref ? OrderSide.BUY : OrderSide.SELL;
-      
-      orders.push({
-        symbol: symbol,
-        side: side,
-        type: OrderType.LIMIT,
-        quantity: qty,
-        price: priceStr,
-        timeInForce: 'GTC'
-      });
+    if (isNaN(ref) || ref < min || ref > max) {
+      setValidationErrors([{ code: ValidationCode.INVALID_RANGE, field: 'price', message: 'Reference price must be inside the grid range' }]);
+      return;
     }
-    
-    onSubmit(orders);
+
+    // 2. Validate every order the grid will place
+    if (!plan) return;
+    const levelErrors = validateGridLevels(symbol, plan.rows.filter(row => row.side));
+    if (levelErrors.length > 0) {
+      setValidationErrors(levelErrors);
+      return;
+    }
+
+    onSubmit({
+      symbol,
+      levels: plan.rows.map(({ price, quantity }) => ({ price, quantity })),
+      referencePrice: ref
+    });
   };
 
   const useCurrentPrice = () => {
@@ -82,6 +129,9 @@ const GridForm: React.FC<GridFormProps> = ({
 
   const rules = getSymbolRules(symbol);
 
+  const hasError = (field: ValidationField) => validationErrors.some(err => err.field === field);
+  const inputBorder = (field: ValidationField) => hasError(field) ? 'border-red-500/70' : 'border-slate-700';
+
   return (
     <form onSubmit={generateGrid} className="space-y-6">
        <div>
@@ -93,7 +143,7 @@ const GridForm: React.FC<GridFormProps> = ({
             type="text"
             value={symbol}
             onChange={(e) => onSymbolChange(e.target.value.toUpperCase())}
-            className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            className={`w-full bg-slate-800 border ${inputBorder('symbol')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500`}
             required
           />
         </div>
@@ -105,12 +155,12 @@ const GridForm: React.FC<GridFormProps> = ({
             <span className="text-slate-300 font-mono font-medium">{rules.minQty}</span>
           </div>
           <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50 flex flex-col items-center">
-            <span className="uppercase tracking-wide opacity-70">Price Prec</span>
-            <span className="text-slate-300 font-mono font-medium">{rules.priceDecimals}</span>
+            <span className="uppercase tracking-wide opacity-70">Tick Size</span>
+            <span className="text-slate-300 font-mono font-medium">{rules.tickSize}</span>
           </div>
           <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50 flex flex-col items-center">
-            <span className="uppercase tracking-wide opacity-70">Qty Prec</span>
-            <span className="text-slate-300 font-mono font-medium">{rules.qtyDecimals}</span>
+            <span className="uppercase tracking-wide opacity-70">Min Notional</span>
+            <span className="text-slate-300 font-mono font-medium">{rules.minNotional}</span>
           </div>
         </div>
       </div>
@@ -124,7 +174,7 @@ const GridForm: React.FC<GridFormProps> = ({
             type="number"
             value={minPrice}
             onChange={(e) => setMinPrice(e.target.value)}
-            className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            className={`w-full bg-slate-800 border ${inputBorder('minPrice')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500`}
             required
           />
         </div>
@@ -136,7 +186,7 @@ const GridForm: React.FC<GridFormProps> = ({
             type="number"
             value={maxPrice}
             onChange={(e) => setMaxPrice(e.target.value)}
-            className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            className={`w-full bg-slate-800 border ${inputBorder('maxPrice')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500`}
             required
           />
         </div>
@@ -182,43 +232,150 @@ const GridForm: React.FC<GridFormProps> = ({
             value={gridCount}
             onChange={(e) => setGridCount(e.target.value)}
             min="2"
-            max="20"
-            className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            max="100"
+            className={`w-full bg-slate-800 border ${inputBorder('gridCount')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500`}
             required
           />
         </div>
         <div>
           <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
-            Qty Per Grid
+            Leverage
           </label>
           <input
             type="number"
-            step={Math.pow(0.1, rules.qtyDecimals).toString()}
-            value={quantityPerGrid}
-            onChange={(e) => setQuantityPerGrid(e.target.value)}
+            min="1"
+            max="125"
+            value={leverage}
+            onChange={(e) => setLeverage(e.target.value)}
             className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
-            placeholder={`Min ${rules.minQty}`}
-            required
           />
         </div>
       </div>
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+            Spacing
+          </label>
+          <div className="flex bg-slate-800 rounded-md p-1 border border-slate-700">
+            {(['ARITHMETIC', 'GEOMETRIC'] as GridSpacing[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setSpacing(option)}
+                className={`flex-1 py-1 rounded text-xs font-medium transition-all ${spacing === option ? 'bg-purple-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                title={option === 'ARITHMETIC' ? 'Equal price steps' : 'Equal percentage steps'}
+              >
+                {option === 'ARITHMETIC' ? 'Arithmetic' : 'Geometric'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+            Sizing
+          </label>
+          <select
+            value={quantityMode}
+            onChange={(e) => setQuantityMode(e.target.value as GridQuantityMode)}
+            className="w-full bg-slate-800 border border-slate-700 text-white text-sm rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            {QUANTITY_MODES.map(({ mode, label }) => (
+              <option key={mode} value={mode}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+          {QUANTITY_MODES.find(m => m.mode === quantityMode)!.amountLabel}
+        </label>
+        <input
+          type="number"
+          step={quantityMode === 'QUOTE' ? 'any' : rules.stepSize.toString()}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className={`w-full bg-slate-800 border ${inputBorder('quantity')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500`}
+          placeholder={quantityMode === 'QUOTE' ? `Min ${rules.minNotional}` : `Min ${rules.minQty}`}
+          required
+        />
+      </div>
+
       <div className="bg-slate-800/50 p-3 rounded text-xs text-slate-400 flex flex-col space-y-2">
          <div className="flex items-center space-x-2">
             <TrendingDown className="w-3 h-3 text-emerald-400" />
-            <span>Buys placed below {refPrice}</span>
+            <span>Buys placed below {refPrice}, each re-sold one level up when filled</span>
          </div>
          <div className="flex items-center space-x-2">
             <TrendingUp className="w-3 h-3 text-rose-400" />
-            <span>Sells placed above {refPrice}</span>
+            <span>Sells placed above {refPrice}, each re-bought one level down when filled</span>
          </div>
       </div>
 
+      {/* Preview */}
+      {plan && (
+        <div className="border border-slate-700 rounded-md overflow-hidden">
+          <table className="w-full text-[11px] font-mono">
+            <thead className="bg-slate-800 text-[10px] uppercase tracking-wide text-slate-500">
+              <tr>
+                <th className="text-left font-medium px-2 py-1.5">Side</th>
+                <th className="text-right font-medium px-2 py-1.5">Price</th>
+                <th className="text-right font-medium px-2 py-1.5">Qty</th>
+                <th className="text-right font-medium px-2 py-1.5">Notional</th>
+                <th className="text-right font-medium px-2 py-1.5">Net / Grid</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.rows.slice().reverse().map(row => (
+                <tr key={row.price} className="border-t border-slate-800">
+                  <td className={`px-2 py-1 ${row.side === OrderSide.BUY ? 'text-emerald-400' : row.side === OrderSide.SELL ? 'text-rose-400' : 'text-slate-600'}`}>
+                    {row.side ?? 'EMPTY'}
+                  </td>
+                  <td className="px-2 py-1 text-right text-slate-200">{row.price}</td>
+                  <td className="px-2 py-1 text-right text-slate-300">{row.side ? row.quantity : '-'}</td>
+                  <td className="px-2 py-1 text-right text-slate-400">{row.side ? formatAmount(row.notional) : '-'}</td>
+                  <td className={`px-2 py-1 text-right ${row.netProfit === null ? 'text-slate-600' : row.netProfit > 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
+                    {row.netProfit === null ? '-' : formatAmount(row.netProfit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="bg-slate-800/50 border-t border-slate-700 px-2 py-2 grid grid-cols-2 gap-1 text-[10px] text-slate-400">
+            <span>Total notional</span>
+            <span className="text-right font-mono text-slate-200">{formatAmount(plan.totalNotional)}</span>
+            <span>Margin at {parseInt(leverage) || 1}x</span>
+            <span className="text-right font-mono text-slate-200">{formatAmount(plan.marginRequired)}</span>
+            {plan.profitPerGrid && (
+              <>
+                <span>Profit / grid (maker {(makerFeeRate * 100).toFixed(3)}%)</span>
+                <span className="text-right font-mono text-slate-200">
+                  {formatAmount(plan.profitPerGrid.min)} - {formatAmount(plan.profitPerGrid.max)}
+                </span>
+              </>
+            )}
+            {plan.takerProfitPerGrid && (
+              <>
+                <span>Profit / grid (taker {(takerFeeRate * 100).toFixed(3)}%)</span>
+                <span className="text-right font-mono text-slate-200">
+                  {formatAmount(plan.takerProfitPerGrid.min)} - {formatAmount(plan.takerProfitPerGrid.max)}
+                </span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
        {/* Validation Error Message */}
-       {validationError && (
+       {validationErrors.length > 0 && (
         <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-md flex items-start space-x-2 animate-in fade-in slide-in-from-top-1">
           <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
-          <span className="text-xs text-red-300">{validationError}</span>
+          <div className="space-y-1">
+            {validationErrors.map(err => (
+              <p key={`${err.field}-${err.code}`} className="text-xs text-red-300">{err.message}</p>
+            ))}
+          </div>
         </div>
       )}
 
@@ -229,7 +386,7 @@ const GridForm: React.FC<GridFormProps> = ({
       >
         {isLoading ? 'Deploying...' : (
           <>
-            <span>Deploy Strategy</span>
+            <span>Start Grid Bot</span>
             <Grid className="w-4 h-4" />
           </>
         )}
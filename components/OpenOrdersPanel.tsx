@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { OpenOrder, OrderSide, OrderType } from '../types';
+import { getSymbolRules } from '../utils/validator';
+import { ORDER_TYPE_LABELS } from '../utils/orderTypes';
+import { ListOrdered, Pencil, X, Check, Trash2 } from 'lucide-react';
+
+interface OpenOrdersPanelProps {
+  orders: OpenOrder[];
+  symbol: string;
+  onCancel: (order: OpenOrder) => void;
+  onCancelAll: (symbol: string) => void;
+  onAmend: (order: OpenOrder, price: string, quantity: string) => Promise<boolean>;
+  isLoading: boolean;
+}
+
+const OpenOrdersPanel: React.FC<OpenOrdersPanelProps> = ({
+  orders,
+  symbol,
+  onCancel,
+  onCancelAll,
+  onAmend,
+  isLoading
+}) => {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editPrice, setEditPrice] = useState('');
+  const [editQty, setEditQty] = useState('');
+
+  const startEdit = (order: OpenOrder) => {
+    setEditingId(order.orderId);
+    setEditPrice(order.price);
+    setEditQty(order.origQty);
+  };
+
+  const saveEdit = async (order: OpenOrder) => {
+    const ok = await onAmend(order, editPrice, editQty);
+    if (ok) setEditingId(null);
+  };
+
+  const symbolOrderCount = orders.filter(o => o.symbol === symbol.toUpperCase()).length;
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-800 border-b border-slate-700">
+        <div className="flex items-center space-x-2">
+          <ListOrdered className="w-4 h-4 text-slate-400" />
+          <span className="text-sm font-semibold text-slate-300">Open Orders</span>
+          <span className="text-xs text-slate-500 font-mono">({orders.length})</span>
+        </div>
+        <button
+          type="button"
+          onClick={() => onCancelAll(symbol)}
+          disabled={isLoading || symbolOrderCount === 0}
+          className="flex items-center space-x-1 text-xs text-red-300 hover:text-red-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        >
+          <Trash2 className="w-3 h-3" />
+          <span>Cancel all {symbol}</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {orders.length === 0 ? (
+          <div className="text-slate-600 italic text-center text-sm py-6">
+            No open orders.
+          </div>
+        ) : (
+          <table className="w-full text-xs font-mono">
+            <thead className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-800">
+              <tr>
+                <th className="text-left font-medium px-3 py-1.5">Time</th>
+                <th className="text-left font-medium px-3 py-1.5">Symbol</th>
+                <th className="text-left font-medium px-3 py-1.5">Type</th>
+                <th className="text-right font-medium px-3 py-1.5">Price</th>
+                <th className="text-right font-medium px-3 py-1.5">Trigger</th>
+                <th className="text-right font-medium px-3 py-1.5">Filled / Qty</th>
+                <th className="text-right font-medium px-3 py-1.5"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orders.map(order => {
+                const rules = getSymbolRules(order.symbol);
+                const isBuy = order.side === OrderSide.BUY;
+                const isEditing = editingId === order.orderId;
+                // PUT /fapi/v1/order only modifies LIMIT orders
+                const canAmend = order.type === OrderType.LIMIT;
+                const hasPrice = parseFloat(order.price) > 0;
+                const hasTrigger = parseFloat(order.stopPrice) > 0;
+
+                return (
+                  <tr key={order.orderId} className="border-b border-slate-800/60 hover:bg-slate-800/40">
+                    <td className="px-3 py-1.5 text-slate-500 whitespace-nowrap">
+                      {new Date(order.updateTime).toLocaleTimeString()}
+                    </td>
+                    <td className="px-3 py-1.5 whitespace-nowrap">
+                      <span className="text-slate-200">{order.symbol}</span>
+                      {order.reduceOnly && <span className="ml-1 text-[10px] text-slate-500">RO</span>}
+                    </td>
+                    <td className={`px-3 py-1.5 whitespace-nowrap ${isBuy ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      {ORDER_TYPE_LABELS[order.type] || order.type} / {order.side}
+                    </td>
+                    <td className="px-3 py-1.5 text-right text-slate-300">
+                      {isEditing ? (
+                        <input
+                          type="number"
+                          step={rules.tickSize.toString()}
+                          value={editPrice}
+                          onChange={(e) => setEditPrice(e.target.value)}
+                          className="w-24 bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-right text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      ) : hasPrice ? order.price : 'Market'}
+                    </td>
+                    <td className="px-3 py-1.5 text-right text-orange-300">
+                      {hasTrigger ? order.stopPrice : '--'}
+                    </td>
+                    <td className="px-3 py-1.5 text-right text-slate-300 whitespace-nowrap">
+                      {order.executedQty} /{' '}
+                      {isEditing ? (
+                        <input
+                          type="number"
+                          step={rules.stepSize.toString()}
+                          value={editQty}
+                          onChange={(e) => setEditQty(e.target.value)}
+                          className="w-20 bg-slate-800 border border-slate-600 rounded px-1.5 py-0.5 text-right text-white focus:outline-none focus:ring-1 focus:ring-blue-500"
+                        />
+                      ) : order.origQty}
+                    </td>
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap space-x-1">
+                      {isEditing ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => saveEdit(order)}
+                            disabled={isLoading}
+                            className="p-1 rounded text-emerald-400 hover:bg-slate-700 disabled:opacity-40"
+                            title="Save"
+                          >
+                            <Check className="w-3.5 h-3.5" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditingId(null)}
+                            className="p-1 rounded text-slate-400 hover:bg-slate-700"
+                            title="Discard"
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          {canAmend && (
+                            <button
+                              type="button"
+                              onClick={() => startEdit(order)}
+                              disabled={isLoading}
+                              className="p-1 rounded text-blue-300 hover:bg-slate-700 disabled:opacity-40"
+                              title="Amend price / quantity"
+                            >
+                              <Pencil className="w-3.5 h-3.5" />
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={() => onCancel(order)}
+                            disabled={isLoading}
+                            className="p-1 rounded text-red-300 hover:bg-slate-700 disabled:opacity-40"
+                            title="Cancel order"
+                          >
+                            <X className="w-3.5 h-3.5" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OpenOrdersPanel;
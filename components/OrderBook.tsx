@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { OrderBookLevel, OrderBookView } from '../types';
+import { getSymbolRules } from '../utils/validator';
+import { aggregateLevels } from '../utils/orderBook';
+import { roundToStep } from '../utils/precision';
+import { BookOpen, RefreshCw } from 'lucide-react';
+
+interface OrderBookProps {
+  symbol: string;
+  book: OrderBookView | null;
+  onPriceSelect: (price: string) => void;
+}
+
+const VISIBLE_LEVELS = 12;
+const GROUPING_MULTIPLIERS = [1, 10, 100, 1000];
+
+const OrderBook: React.FC<OrderBookProps> = ({ symbol, book, onPriceSelect }) => {
+  const [multiplier, setMultiplier] = useState(1);
+  const rules = getSymbolRules(symbol);
+  // toPrecision strips float noise such as 0.1 * 3 = 0.30000000000000004
+  const step = Number((rules.tickSize * multiplier).toPrecision(12));
+
+  const { bids, asks, maxTotal } = useMemo(() => {
+    if (!book) return { bids: [], asks: [], maxTotal: 0 };
+    const toEntries = (levels: OrderBookLevel[]) => levels.map(l => [l.price, l.qty] as [number, number]);
+    const groupedBids = aggregateLevels(toEntries(book.bids), true, step, VISIBLE_LEVELS);
+    const groupedAsks = aggregateLevels(toEntries(book.asks), false, step, VISIBLE_LEVELS);
+    const max = Math.max(
+      groupedBids[groupedBids.length - 1]?.total || 0,
+      groupedAsks[groupedAsks.length - 1]?.total || 0
+    );
+    return { bids: groupedBids, asks: groupedAsks, maxTotal: max };
+  }, [book, step]);
+
+  const formatPrice = (price: number) => roundToStep(price, step);
+  const formatQty = (qty: number) => qty.toFixed(rules.qtyDecimals);
+
+  const spread = bids.length && asks.length ? asks[0].price - bids[0].price : null;
+
+  const renderRow = (level: OrderBookLevel, isBid: boolean) => {
+    const width = maxTotal > 0 ? (level.total / maxTotal) * 100 : 0;
+    const price = formatPrice(level.price);
+    return (
+      <button
+        key={`${isBid ? 'b' : 'a'}-${price}`}
+        type="button"
+        onClick={() => onPriceSelect(price)}
+        className="relative w-full grid grid-cols-3 px-3 py-0.5 text-xs font-mono hover:bg-slate-800/80 transition-colors"
+        title="Use this price"
+      >
+        <div
+          className={`absolute inset-y-0 right-0 ${isBid ? 'bg-emerald-500/10' : 'bg-rose-500/10'}`}
+          style={{ width: `${width}%` }}
+        />
+        <span className={`relative text-left ${isBid ? 'text-emerald-400' : 'text-rose-400'}`}>{price}</span>
+        <span className="relative text-right text-slate-300">{formatQty(level.qty)}</span>
+        <span className="relative text-right text-slate-500">{formatQty(level.total)}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-800 border-b border-slate-700">
+        <div className="flex items-center space-x-2">
+          <BookOpen className="w-4 h-4 text-slate-400" />
+          <span className="text-sm font-semibold text-slate-300">Order Book</span>
+          {book && !book.synced && (
+            <span title="Resyncing">
+              <RefreshCw className="w-3 h-3 text-yellow-400 animate-spin" />
+            </span>
+          )}
+        </div>
+        <select
+          value={multiplier}
+          onChange={(e) => setMultiplier(parseInt(e.target.value))}
+          className="bg-slate-900 border border-slate-700 text-xs text-slate-300 font-mono rounded px-1.5 py-0.5 focus:outline-none"
+        >
+          {GROUPING_MULTIPLIERS.map(m => (
+            <option key={m} value={m}>{Number((rules.tickSize * m).toPrecision(12))}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 px-3 py-1 text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-800">
+        <span>Price</span>
+        <span className="text-right">Size</span>
+        <span className="text-right">Total</span>
+      </div>
+
+      {!book ? (
+        <div className="flex-1 flex items-center justify-center text-slate-600 italic text-sm">
+          Waiting for depth stream...
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col justify-center overflow-hidden py-1">
+          <div className="flex flex-col-reverse">
+            {asks.map(level => renderRow(level, false))}
+          </div>
+          <div className="px-3 py-1.5 my-1 flex justify-between text-xs font-mono border-y border-slate-800 bg-slate-950/40">
+            <span className="text-slate-500">Spread</span>
+            <span className="text-slate-300">{spread !== null ? roundToStep(spread, rules.tickSize) : '-'}</span>
+          </div>
+          <div>
+            {bids.map(level => renderRow(level, true))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderBook;
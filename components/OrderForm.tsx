@@ -1,54 +1,140 @@
 import React, { useState, useEffect } from 'react';
-import { OrderSide, OrderType, OrderRequest } from '../types';
-import { validateOrderInput, getSymbolRules } from '../utils/validator';
+import {
+  OrderSide,
+  OrderType,
+  OrderRequest,
+  TimeInForce,
+  WorkingType,
+  ValidationError,
+  ValidationField,
+  BracketOffsetMode,
+  BracketSpec,
+  PositionSide
+} from '../types';
+import { validateOrderInput, validateBracketInput, getSymbolRules } from '../utils/validator';
+import {
+  ORDER_TYPE_LABELS,
+  TIME_IN_FORCE_LABELS,
+  isConditional,
+  requiresPrice,
+  requiresStopPrice,
+  supportsClosePosition,
+  supportsTimeInForce
+} from '../utils/orderTypes';
 import { ArrowRight, DollarSign, Activity, AlertCircle, RefreshCw, Info } from 'lucide-react';
 
 interface OrderFormProps {
   symbol: string;
   onSymbolChange: (symbol: string) => void;
   currentPrice: string | null;
-  onSubmit: (order: OrderRequest) => Promise<void>;
+  priceSelection?: { price: string; id: number } | null; // e.g. a clicked order book level
+  onSubmit: (order: OrderRequest, bracket?: BracketSpec) => Promise<void>;
   isLoading: boolean;
+  hedgeMode?: boolean; // Orders target an explicit LONG / SHORT leg instead of using Reduce Only
+  defaultLeverage?: number;
 }
 
+const BRACKET_MODE_LABELS: Record<BracketOffsetMode, string> = {
+  PRICE: 'Price',
+  PERCENT: '% Move',
+  ROE: 'ROE %'
+};
+
 const OrderForm: React.FC<OrderFormProps> = ({ 
   symbol, 
   onSymbolChange, 
   currentPrice, 
+  priceSelection,
   onSubmit, 
-  isLoading 
+  isLoading,
+  hedgeMode = false,
+  defaultLeverage
 }) => {
   const [side, setSide] = useState<OrderSide>(OrderSide.BUY);
+  const [positionSide, setPositionSide] = useState<Exclude<PositionSide, 'BOTH'>>('LONG');
   const [type, setType] = useState<OrderType>(OrderType.LIMIT);
   const [quantity, setQuantity] = useState('');
   const [price, setPrice] = useState('');
   const [stopPrice, setStopPrice] = useState('');
-  const [validationError, setValidationError] = useState<string | null>(null);
+  const [callbackRate, setCallbackRate] = useState('1');
+  const [activationPrice, setActivationPrice] = useState('');
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>(TimeInForce.GTC);
+  const [workingType, setWorkingType] = useState<WorkingType>(WorkingType.CONTRACT_PRICE);
+  const [priceProtect, setPriceProtect] = useState(false);
+  const [reduceOnly, setReduceOnly] = useState(false);
+  const [closePosition, setClosePosition] = useState(false);
+  const [bracketEnabled, setBracketEnabled] = useState(false);
+  const [tpMode, setTpMode] = useState<BracketOffsetMode>('PERCENT');
+  const [tpValue, setTpValue] = useState('');
+  const [slMode, setSlMode] = useState<BracketOffsetMode>('PERCENT');
+  const [slValue, setSlValue] = useState('');
+  const [leverage, setLeverage] = useState('10');
+  const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
+
+  // Follow the account leverage for ROE-based exits
+  useEffect(() => {
+    if (defaultLeverage) setLeverage(defaultLeverage.toString());
+  }, [defaultLeverage]);
+
+  // Prefill price from outside (order book click); switch to LIMIT if the type has no price
+  useEffect(() => {
+    if (!priceSelection) return;
+    setPrice(priceSelection.price);
+    setType(prev => requiresPrice(prev) ? prev : OrderType.LIMIT);
+  }, [priceSelection]);
 
   // Reset validation when inputs change
   useEffect(() => {
-    setValidationError(null);
-  }, [symbol, side, type, quantity, price, stopPrice]);
+    setValidationErrors([]);
+  }, [
+    symbol, side, positionSide, type, quantity, price, stopPrice, callbackRate, activationPrice, timeInForce,
+    reduceOnly, closePosition, hedgeMode, bracketEnabled, tpMode, tpValue, slMode, slValue, leverage
+  ]);
+
+  const closesPosition = closePosition && supportsClosePosition(type);
+  // In hedge mode the side/leg pair decides whether an order opens or reduces
+  const reducing = hedgeMode
+    ? (side === OrderSide.BUY) !== (positionSide === 'LONG')
+    : reduceOnly;
+  // Brackets wrap opening entries only
+  const supportsBracket = (type === OrderType.LIMIT || type === OrderType.MARKET) && !reducing;
+  const useBracket = bracketEnabled && supportsBracket;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
+    const isTrailing = type === OrderType.TRAILING_STOP_MARKET;
     const order: OrderRequest = {
       symbol,
       side,
       type,
-      quantity,
-      price: type !== OrderType.MARKET ? price : undefined,
-      stopPrice: type === OrderType.STOP_LIMIT ? stopPrice : undefined
+      quantity: closesPosition ? '' : quantity,
+      price: requiresPrice(type) ? price : undefined,
+      stopPrice: requiresStopPrice(type) ? stopPrice : undefined,
+      timeInForce: supportsTimeInForce(type) ? timeInForce : undefined,
+      workingType: isConditional(type) ? workingType : undefined,
+      priceProtect: isConditional(type) ? priceProtect : undefined,
+      reduceOnly: !hedgeMode && !closesPosition && reduceOnly ? true : undefined,
+      closePosition: closesPosition || undefined,
+      callbackRate: isTrailing ? callbackRate : undefined,
+      activationPrice: isTrailing && activationPrice ? activationPrice : undefined,
+      positionSide: hedgeMode ? positionSide : undefined
     };
 
-    const error = validateOrderInput(order);
-    if (error) {
-      setValidationError(error);
+    const bracket: BracketSpec | undefined = useBracket ? {
+      takeProfit: tpValue ? { mode: tpMode, value: tpValue } : undefined,
+      stopLoss: slValue ? { mode: slMode, value: slValue } : undefined,
+      leverage: parseInt(leverage) || 1
+    } : undefined;
+
+    const errors = validateOrderInput(order, currentPrice);
+    if (bracket) errors.push(...validateBracketInput(order, bracket, currentPrice));
+    if (errors.length > 0) {
+      setValidationErrors(errors);
       return;
     }
 
-    onSubmit(order);
+    onSubmit(order, bracket);
   };
 
   const fillPrice = () => {
@@ -57,6 +143,10 @@ const OrderForm: React.FC<OrderFormProps> = ({
 
   const rules = getSymbolRules(symbol);
 
+  const hasError = (field: ValidationField) => validationErrors.some(err => err.field === field);
+  const inputBorder = (field: ValidationField, base = 'border-slate-700') =>
+    hasError(field) ? 'border-red-500/70' : base;
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Symbol Input */}
@@ -69,7 +159,7 @@ const OrderForm: React.FC<OrderFormProps> = ({
             type="text"
             value={symbol}
             onChange={(e) => onSymbolChange(e.target.value.toUpperCase())}
-            className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all"
+            className={`w-full bg-slate-800 border ${inputBorder('symbol')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all`}
             placeholder="BTCUSDT"
             required
           />
@@ -85,12 +175,12 @@ const OrderForm: React.FC<OrderFormProps> = ({
             <span className="text-slate-300 font-mono font-medium">{rules.minQty}</span>
           </div>
           <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50 flex flex-col items-center">
-            <span className="uppercase tracking-wide opacity-70">Price Prec</span>
-            <span className="text-slate-300 font-mono font-medium">{rules.priceDecimals}</span>
+            <span className="uppercase tracking-wide opacity-70">Tick Size</span>
+            <span className="text-slate-300 font-mono font-medium">{rules.tickSize}</span>
           </div>
           <div className="bg-slate-800/50 p-1.5 rounded border border-slate-700/50 flex flex-col items-center">
-            <span className="uppercase tracking-wide opacity-70">Qty Prec</span>
-            <span className="text-slate-300 font-mono font-medium">{rules.qtyDecimals}</span>
+            <span className="uppercase tracking-wide opacity-70">Min Notional</span>
+            <span className="text-slate-300 font-mono font-medium">{rules.minNotional}</span>
           </div>
         </div>
       </div>
@@ -121,48 +211,60 @@ const OrderForm: React.FC<OrderFormProps> = ({
         </button>
       </div>
 
+      {/* Position Side - Hedge Mode only */}
+      {hedgeMode && (
+        <div>
+          <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+            Position Side
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            {(['LONG', 'SHORT'] as const).map(ps => (
+              <button
+                key={ps}
+                type="button"
+                onClick={() => setPositionSide(ps)}
+                className={`py-1.5 rounded border text-xs font-bold transition ${
+                  positionSide === ps
+                    ? ps === 'LONG' ? 'bg-emerald-500/15 border-emerald-500/50 text-emerald-300' : 'bg-rose-500/15 border-rose-500/50 text-rose-300'
+                    : `bg-slate-800 ${inputBorder('positionSide')} text-slate-400 hover:bg-slate-700`
+                }`}
+              >
+                {ps}
+              </button>
+            ))}
+          </div>
+          <p className="mt-1 text-[10px] text-slate-500">
+            {reducing ? `Closes the ${positionSide} position` : `Opens / adds to the ${positionSide} position`}
+          </p>
+        </div>
+      )}
+
       {/* Order Type */}
       <div>
         <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
           Order Type
         </label>
         <div className="grid grid-cols-3 gap-2">
-          <label className="flex items-center space-x-2 cursor-pointer bg-slate-800 p-2 rounded border border-slate-700 hover:bg-slate-700 transition">
-            <input
-              type="radio"
-              checked={type === OrderType.LIMIT}
-              onChange={() => setType(OrderType.LIMIT)}
-              className="form-radio text-blue-500 focus:ring-blue-500 h-4 w-4 border-gray-600 bg-slate-700"
-            />
-            <span className={`text-xs ${type === OrderType.LIMIT ? "text-white font-bold" : "text-slate-400"}`}>Limit</span>
-          </label>
-          <label className="flex items-center space-x-2 cursor-pointer bg-slate-800 p-2 rounded border border-slate-700 hover:bg-slate-700 transition">
-            <input
-              type="radio"
-              checked={type === OrderType.MARKET}
-              onChange={() => setType(OrderType.MARKET)}
-              className="form-radio text-blue-500 focus:ring-blue-500 h-4 w-4 border-gray-600 bg-slate-700"
-            />
-            <span className={`text-xs ${type === OrderType.MARKET ? "text-white font-bold" : "text-slate-400"}`}>Market</span>
-          </label>
-           <label className="flex items-center space-x-2 cursor-pointer bg-slate-800 p-2 rounded border border-slate-700 hover:bg-slate-700 transition">
-            <input
-              type="radio"
-              checked={type === OrderType.STOP_LIMIT}
-              onChange={() => setType(OrderType.STOP_LIMIT)}
-              className="form-radio text-blue-500 focus:ring-blue-500 h-4 w-4 border-gray-600 bg-slate-700"
-            />
-            <span className={`text-xs ${type === OrderType.STOP_LIMIT ? "text-white font-bold" : "text-slate-400"}`}>Stop Limit</span>
-          </label>
+          {Object.values(OrderType).map(t => (
+            <label key={t} className="flex items-center space-x-2 cursor-pointer bg-slate-800 p-2 rounded border border-slate-700 hover:bg-slate-700 transition">
+              <input
+                type="radio"
+                checked={type === t}
+                onChange={() => setType(t)}
+                className="form-radio text-blue-500 focus:ring-blue-500 h-4 w-4 border-gray-600 bg-slate-700"
+              />
+              <span className={`text-xs ${type === t ? "text-white font-bold" : "text-slate-400"}`}>{ORDER_TYPE_LABELS[t]}</span>
+            </label>
+          ))}
         </div>
       </div>
 
       <div className="grid grid-cols-2 gap-4">
-        {/* Stop Price Input - Only for Stop Limit */}
-        {type === OrderType.STOP_LIMIT && (
+        {/* Stop Price Input - Stop / Take Profit types */}
+        {requiresStopPrice(type) && (
            <div className="col-span-2">
             <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
-              Trigger Price (Stop)
+              Trigger Price ({type === OrderType.TAKE_PROFIT || type === OrderType.TAKE_PROFIT_MARKET ? 'Take Profit' : 'Stop'})
             </label>
             <div className="relative">
               <div className="absolute left-3 top-2.5 text-slate-500">
@@ -170,24 +272,59 @@ const OrderForm: React.FC<OrderFormProps> = ({
               </div>
               <input
                 type="number"
-                step={Math.pow(0.1, rules.priceDecimals).toString()}
+                step={rules.tickSize.toString()}
                 value={stopPrice}
                 onChange={(e) => setStopPrice(e.target.value)}
-                required={type === OrderType.STOP_LIMIT}
-                className="w-full bg-slate-800 border border-slate-600 text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500"
+                required
+                className={`w-full bg-slate-800 border ${inputBorder('stopPrice', 'border-slate-600')} text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500`}
                 placeholder="Trigger Price"
               />
             </div>
           </div>
         )}
 
+        {/* Trailing Stop Inputs */}
+        {type === OrderType.TRAILING_STOP_MARKET && (
+          <>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+                Callback Rate (%)
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                min="0.1"
+                max="10"
+                value={callbackRate}
+                onChange={(e) => setCallbackRate(e.target.value)}
+                required
+                className={`w-full bg-slate-800 border ${inputBorder('callbackRate', 'border-slate-600')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500`}
+                placeholder="1.0"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+                Activation Price
+              </label>
+              <input
+                type="number"
+                step={rules.tickSize.toString()}
+                value={activationPrice}
+                onChange={(e) => setActivationPrice(e.target.value)}
+                className={`w-full bg-slate-800 border ${inputBorder('activationPrice', 'border-slate-600')} text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-orange-500`}
+                placeholder="Optional"
+              />
+            </div>
+          </>
+        )}
+
         {/* Price Input - Conditional */}
-        <div className={type === OrderType.MARKET ? 'opacity-50 pointer-events-none' : ''}>
+        <div className={!requiresPrice(type) ? 'opacity-50 pointer-events-none' : ''}>
           <div className="flex justify-between items-center mb-1">
             <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider">
-              {type === OrderType.STOP_LIMIT ? 'Limit Price' : 'Price (USDT)'}
+              {requiresStopPrice(type) ? 'Limit Price' : 'Price (USDT)'}
             </label>
-            {type !== OrderType.MARKET && currentPrice && (
+            {requiresPrice(type) && currentPrice && (
               <button 
                 type="button" 
                 onClick={fillPrice}
@@ -203,19 +340,19 @@ const OrderForm: React.FC<OrderFormProps> = ({
             </div>
             <input
               type="number"
-              step={Math.pow(0.1, rules.priceDecimals).toString()}
+              step={rules.tickSize.toString()}
               value={price}
               onChange={(e) => setPrice(e.target.value)}
-              disabled={type === OrderType.MARKET}
-              required={type !== OrderType.MARKET}
-              className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed"
+              disabled={!requiresPrice(type)}
+              required={requiresPrice(type)}
+              className={`w-full bg-slate-800 border ${inputBorder('price')} text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed`}
               placeholder="0.00"
             />
           </div>
         </div>
 
         {/* Quantity Input */}
-        <div>
+        <div className={closesPosition ? 'opacity-50 pointer-events-none' : ''}>
           <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
             Size (Qty)
           </label>
@@ -225,22 +362,165 @@ const OrderForm: React.FC<OrderFormProps> = ({
             </div>
             <input
               type="number"
-              step={Math.pow(0.1, rules.qtyDecimals).toString()}
-              value={quantity}
+              step={rules.stepSize.toString()}
+              value={closesPosition ? '' : quantity}
               onChange={(e) => setQuantity(e.target.value)}
-              required
-              className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
-              placeholder={`Min ${rules.minQty}`}
+              disabled={closesPosition}
+              required={!closesPosition}
+              className={`w-full bg-slate-800 border ${inputBorder('quantity')} text-white font-mono rounded-md pl-9 pr-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed`}
+              placeholder={closesPosition ? 'Entire position' : `Min ${rules.minQty}`}
             />
           </div>
         </div>
       </div>
 
+      {/* Execution Options */}
+      <div className="bg-slate-800/50 p-3 rounded border border-slate-700/50 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className={!supportsTimeInForce(type) ? 'opacity-50 pointer-events-none' : ''}>
+            <label className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">
+              Time in Force
+            </label>
+            <select
+              value={timeInForce}
+              onChange={(e) => setTimeInForce(e.target.value as TimeInForce)}
+              disabled={!supportsTimeInForce(type)}
+              className={`w-full bg-slate-800 border ${inputBorder('timeInForce')} text-xs text-white font-mono rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500`}
+            >
+              {Object.values(TimeInForce).map(tif => (
+                <option key={tif} value={tif}>{TIME_IN_FORCE_LABELS[tif]}</option>
+              ))}
+            </select>
+          </div>
+          <div className={!isConditional(type) ? 'opacity-50 pointer-events-none' : ''}>
+            <label className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">
+              Trigger On
+            </label>
+            <select
+              value={workingType}
+              onChange={(e) => setWorkingType(e.target.value as WorkingType)}
+              disabled={!isConditional(type)}
+              className="w-full bg-slate-800 border border-slate-700 text-xs text-white font-mono rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            >
+              <option value={WorkingType.CONTRACT_PRICE}>Last Price</option>
+              <option value={WorkingType.MARK_PRICE}>Mark Price</option>
+            </select>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs text-slate-400">
+          {!hedgeMode && (
+            <label className={`flex items-center space-x-1.5 ${closesPosition ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="checkbox"
+                checked={reduceOnly && !closesPosition}
+                onChange={(e) => setReduceOnly(e.target.checked)}
+                disabled={closesPosition}
+                className="h-3.5 w-3.5 rounded border-gray-600 bg-slate-700"
+              />
+              <span>Reduce Only</span>
+            </label>
+          )}
+          {supportsClosePosition(type) && (
+            <label className={`flex items-center space-x-1.5 cursor-pointer ${hasError('closePosition') ? 'text-red-300' : ''}`}>
+              <input
+                type="checkbox"
+                checked={closePosition}
+                onChange={(e) => setClosePosition(e.target.checked)}
+                className="h-3.5 w-3.5 rounded border-gray-600 bg-slate-700"
+              />
+              <span>Close Position</span>
+            </label>
+          )}
+          {isConditional(type) && (
+            <label className="flex items-center space-x-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={priceProtect}
+                onChange={(e) => setPriceProtect(e.target.checked)}
+                className="h-3.5 w-3.5 rounded border-gray-600 bg-slate-700"
+              />
+              <span>Price Protect</span>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* Bracket (TP / SL) */}
+      {supportsBracket && (
+        <div className="bg-slate-800/50 p-3 rounded border border-slate-700/50 space-y-3">
+          <label className="flex items-center space-x-1.5 cursor-pointer text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={bracketEnabled}
+              onChange={(e) => setBracketEnabled(e.target.checked)}
+              className="h-3.5 w-3.5 rounded border-gray-600 bg-slate-700"
+            />
+            <span className="font-medium">Attach Take Profit / Stop Loss</span>
+          </label>
+
+          {bracketEnabled && (
+            <>
+              {([
+                ['takeProfit', 'Take Profit', tpMode, setTpMode, tpValue, setTpValue, 'text-emerald-400'],
+                ['stopLoss', 'Stop Loss', slMode, setSlMode, slValue, setSlValue, 'text-rose-400']
+              ] as const).map(([field, label, mode, setMode, value, setValue, color]) => (
+                <div key={field}>
+                  <label className={`block text-[10px] font-medium uppercase tracking-wider mb-1 ${color}`}>
+                    {label}
+                  </label>
+                  <div className="flex space-x-2">
+                    <select
+                      value={mode}
+                      onChange={(e) => setMode(e.target.value as BracketOffsetMode)}
+                      className="bg-slate-800 border border-slate-700 text-xs text-white rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                    >
+                      {(Object.keys(BRACKET_MODE_LABELS) as BracketOffsetMode[]).map(m => (
+                        <option key={m} value={m}>{BRACKET_MODE_LABELS[m]}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      step="any"
+                      value={value}
+                      onChange={(e) => setValue(e.target.value)}
+                      className={`flex-1 min-w-0 bg-slate-800 border ${inputBorder(field)} text-xs text-white font-mono rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500`}
+                      placeholder={mode === 'PRICE' ? 'Trigger price' : 'e.g. 2'}
+                    />
+                  </div>
+                </div>
+              ))}
+              {(tpMode === 'ROE' || slMode === 'ROE') && (
+                <div>
+                  <label className="block text-[10px] font-medium text-slate-400 uppercase tracking-wider mb-1">
+                    Leverage (for ROE)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="125"
+                    value={leverage}
+                    onChange={(e) => setLeverage(e.target.value)}
+                    className="w-full bg-slate-800 border border-slate-700 text-xs text-white font-mono rounded px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+              <p className="text-[10px] text-slate-500">
+                Exits are placed reduce-only once the entry fills. When one fills, the other is cancelled.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
       {/* Validation Error Message */}
-      {validationError && (
+      {validationErrors.length > 0 && (
         <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-md flex items-start space-x-2 animate-in fade-in slide-in-from-top-1">
           <AlertCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" />
-          <span className="text-xs text-red-300">{validationError}</span>
+          <div className="space-y-1">
+            {validationErrors.map(err => (
+              <p key={`${err.field}-${err.code}`} className="text-xs text-red-300">{err.message}</p>
+            ))}
+          </div>
         </div>
       )}
 
@@ -260,7 +540,7 @@ const OrderForm: React.FC<OrderFormProps> = ({
           <span>Processing...</span>
         ) : (
           <>
-            <span>Place {type === OrderType.STOP_LIMIT ? 'Stop Limit' : type} {side}</span>
+            <span>Place {ORDER_TYPE_LABELS[type]} {side}{useBracket ? ' + TP/SL' : ''}</span>
             <ArrowRight className="w-4 h-4" />
           </>
         )}
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Position } from '../types';
+import { getSymbolRules } from '../utils/validator';
+import { floorToStep } from '../utils/precision';
+import { positionRoe } from '../utils/positions';
+import { Layers } from 'lucide-react';
+
+interface PositionsPanelProps {
+  positions: Position[];
+  onClose: (position: Position, quantity: string) => void;
+  isLoading: boolean;
+}
+
+const PARTIAL_CLOSE_FRACTIONS = [0.25, 0.5];
+
+const PositionsPanel: React.FC<PositionsPanelProps> = ({ positions, onClose, isLoading }) => {
+  const pnlColor = (value: number) => value > 0 ? 'text-emerald-400' : value < 0 ? 'text-rose-400' : 'text-slate-300';
+
+  return (
+    <div className="flex flex-col h-full bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 bg-slate-800 border-b border-slate-700">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-4 h-4 text-slate-400" />
+          <span className="text-sm font-semibold text-slate-300">Positions</span>
+          <span className="text-xs text-slate-500 font-mono">({positions.length})</span>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {positions.length === 0 ? (
+          <div className="text-slate-600 italic text-center text-sm py-6">
+            No open positions.
+          </div>
+        ) : (
+          <table className="w-full text-xs font-mono">
+            <thead className="text-[10px] uppercase tracking-wide text-slate-500 border-b border-slate-800">
+              <tr>
+                <th className="text-left font-medium px-3 py-1.5">Symbol</th>
+                <th className="text-right font-medium px-3 py-1.5">Size</th>
+                <th className="text-right font-medium px-3 py-1.5">Entry</th>
+                <th className="text-right font-medium px-3 py-1.5">Mark</th>
+                <th className="text-right font-medium px-3 py-1.5">Liq. Price</th>
+                <th className="text-right font-medium px-3 py-1.5">Margin</th>
+                <th className="text-right font-medium px-3 py-1.5">PnL (ROE)</th>
+                <th className="text-right font-medium px-3 py-1.5">Close</th>
+              </tr>
+            </thead>
+            <tbody>
+              {positions.map(p => {
+                const rules = getSymbolRules(p.symbol);
+                const isLong = p.positionAmt > 0;
+                const size = Math.abs(p.positionAmt);
+                const roe = positionRoe(p);
+
+                return (
+                  <tr key={`${p.symbol}-${p.positionSide}`} className="border-b border-slate-800/60 hover:bg-slate-800/40">
+                    <td className="px-3 py-1.5">
+                      <span className={`mr-1.5 px-1 rounded text-[10px] font-bold ${isLong ? 'bg-emerald-500/15 text-emerald-400' : 'bg-rose-500/15 text-rose-400'}`}>
+                        {isLong ? 'LONG' : 'SHORT'}
+                      </span>
+                      <span className="text-slate-200">{p.symbol}</span>
+                    </td>
+                    <td className={`px-3 py-1.5 text-right ${isLong ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      {size.toFixed(rules.qtyDecimals)}
+                    </td>
+                    <td className="px-3 py-1.5 text-right text-slate-300">{p.entryPrice.toFixed(rules.priceDecimals)}</td>
+                    <td className="px-3 py-1.5 text-right text-slate-300">{p.markPrice.toFixed(rules.priceDecimals)}</td>
+                    <td className="px-3 py-1.5 text-right text-orange-300">
+                      {p.liquidationPrice > 0 ? p.liquidationPrice.toFixed(rules.priceDecimals) : '--'}
+                    </td>
+                    <td className="px-3 py-1.5 text-right text-slate-400">
+                      {p.marginType === 'ISOLATED' ? 'Iso' : 'Cross'} {p.leverage}x
+                    </td>
+                    <td className={`px-3 py-1.5 text-right ${pnlColor(p.unrealizedProfit)}`}>
+                      {p.unrealizedProfit.toFixed(2)} ({roe.toFixed(2)}%)
+                    </td>
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap space-x-1">
+                      {PARTIAL_CLOSE_FRACTIONS.map(fraction => {
+                        const qty = floorToStep(size * fraction, rules.marketStepSize);
+                        return (
+                          <button
+                            key={fraction}
+                            type="button"
+                            disabled={isLoading || parseFloat(qty) < rules.marketMinQty}
+                            onClick={() => onClose(p, qty)}
+                            className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                            title={`Market close ${qty}`}
+                          >
+                            {fraction * 100}%
+                          </button>
+                        );
+                      })}
+                      <button
+                        type="button"
+                        disabled={isLoading}
+                        onClick={() => onClose(p, size.toFixed(rules.qtyDecimals))}
+                        className="px-1.5 py-0.5 rounded bg-red-600/20 border border-red-600/50 text-red-200 hover:bg-red-600/30 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        Market
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PositionsPanel;
@@ -0,0 +1,310 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Kline, KlineInterval, OpenOrder, OrderSide, OrderType, Position } from '../types';
+import { GridPlanRow } from '../utils/grid';
+import { getSymbolRules } from '../utils/validator';
+import { roundToStep } from '../utils/precision';
+import { CandlestickChart } from 'lucide-react';
+
+interface PriceChartProps {
+  symbol: string;
+  interval: KlineInterval;
+  onIntervalChange: (interval: KlineInterval) => void;
+  candles: Kline[] | null;
+  orders: OpenOrder[];
+  positions: Position[];
+  gridPreview: GridPlanRow[] | null;
+  // Orders managed by a grid bot; moving them would break its level accounting
+  lockedClientOrderIds: Set<string>;
+  onAmendOrder: (order: OpenOrder, price: string) => void;
+}
+
+interface ChartLine {
+  key: string;
+  price: number;
+  label: string;
+  color: keyof typeof COLORS;
+  dashed?: boolean;
+  order?: OpenOrder; // Set when dragging the line amends this order
+}
+
+const INTERVALS: KlineInterval[] = ['1m', '5m', '15m', '1h', '4h', '1d'];
+const CANDLE_SPACING = 8; // px per candle
+const AXIS_WIDTH = 64;
+const TIME_AXIS_HEIGHT = 18;
+const PADDING_TOP = 8;
+const Y_TICKS = 5;
+
+const COLORS: Record<string, string> = {
+  emerald: '#34d399',
+  rose: '#fb7185',
+  blue: '#60a5fa',
+  orange: '#fdba74',
+  purple: '#c084fc',
+  slate: '#94a3b8'
+};
+
+// Only LIMIT orders can be amended (PUT /fapi/v1/order); triggers are shown as fixed lines
+const orderLine = (order: OpenOrder, locked: boolean): ChartLine | null => {
+  const isLimit = order.type === OrderType.LIMIT;
+  const price = parseFloat(isLimit ? order.price : order.stopPrice);
+  if (!(price > 0)) return null;
+  return {
+    key: `order-${order.orderId}`,
+    price,
+    label: `${order.side} ${order.origQty}${isLimit ? '' : ` ${order.type}`}`,
+    color: order.side === OrderSide.BUY ? 'emerald' : 'rose',
+    dashed: !isLimit,
+    order: isLimit && !locked ? order : undefined
+  };
+};
+
+const formatTime = (time: number, interval: KlineInterval) => {
+  const date = new Date(time);
+  if (interval === '1d') return `${date.getMonth() + 1}/${date.getDate()}`;
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const PriceChart: React.FC<PriceChartProps> = ({
+  symbol,
+  interval,
+  onIntervalChange,
+  candles,
+  orders,
+  positions,
+  gridPreview,
+  lockedClientOrderIds,
+  onAmendOrder
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [drag, setDrag] = useState<{ line: ChartLine; price: number; range: { min: number; max: number } } | null>(null);
+  const rules = getSymbolRules(symbol);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const plotWidth = Math.max(size.width - AXIS_WIDTH, 0);
+  const plotHeight = Math.max(size.height - TIME_AXIS_HEIGHT - PADDING_TOP, 0);
+
+  const visible = useMemo(() => {
+    if (!candles) return [];
+    const count = Math.max(Math.floor(plotWidth / CANDLE_SPACING), 1);
+    return candles.slice(-count);
+  }, [candles, plotWidth]);
+
+  const lines = useMemo(() => {
+    const result: ChartLine[] = [];
+    for (const order of orders) {
+      if (order.symbol !== symbol.toUpperCase()) continue;
+      const line = orderLine(order, lockedClientOrderIds.has(order.clientOrderId));
+      if (line) result.push(line);
+    }
+    for (const position of positions) {
+      if (position.symbol !== symbol.toUpperCase() || position.positionAmt === 0) continue;
+      const leg = position.positionSide === 'BOTH' ? '' : ` ${position.positionSide}`;
+      result.push({ key: `entry-${position.positionSide}`, price: position.entryPrice, label: `Entry${leg} ${position.positionAmt}`, color: 'blue' });
+      if (position.liquidationPrice > 0) {
+        result.push({ key: `liq-${position.positionSide}`, price: position.liquidationPrice, label: `Liq.${leg}`, color: 'orange', dashed: true });
+      }
+    }
+    for (const row of gridPreview || []) {
+      result.push({
+        key: `grid-${row.price}`,
+        price: parseFloat(row.price),
+        label: `Grid ${row.side || '-'}`,
+        color: 'purple',
+        dashed: true
+      });
+    }
+    return result;
+  }, [orders, positions, gridPreview, symbol, lockedClientOrderIds]);
+
+  // Price range of the visible candles; frozen while a line is being dragged
+  const range = useMemo(() => {
+    if (drag) return drag.range;
+    if (visible.length === 0) return null;
+    let min = Math.min(...visible.map(c => c.low));
+    let max = Math.max(...visible.map(c => c.high));
+    const pad = (max - min) * 0.08 || max * 0.001;
+    min -= pad;
+    max += pad;
+    return { min, max };
+  }, [visible, drag]);
+
+  const yOf = (price: number) => range ? PADDING_TOP + ((range.max - price) / (range.max - range.min)) * plotHeight : 0;
+  const priceOf = (y: number) => range ? range.max - ((y - PADDING_TOP) / plotHeight) * (range.max - range.min) : 0;
+
+  const pointerPrice = (e: React.PointerEvent) => {
+    const rect = (e.currentTarget as Element).getBoundingClientRect();
+    const y = Math.min(Math.max(e.clientY - rect.top, PADDING_TOP), PADDING_TOP + plotHeight);
+    return parseFloat(roundToStep(priceOf(y), rules.tickSize));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    setDrag({ ...drag, price: pointerPrice(e) });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const { line, price } = drag;
+    setDrag(null);
+    if (line.order && price !== line.price) {
+      onAmendOrder(line.order, roundToStep(price, rules.tickSize));
+    }
+  };
+
+  const formatPrice = (price: number) => roundToStep(price, rules.tickSize);
+
+  const renderLine = (line: ChartLine) => {
+    const dragging = drag?.line.key === line.key;
+    const price = dragging ? drag!.price : line.price;
+    if (!range) return null;
+    const clamped = price > range.max ? 'above' : price < range.min ? 'below' : null;
+    const y = clamped === 'above' ? PADDING_TOP : clamped === 'below' ? PADDING_TOP + plotHeight : yOf(price);
+    const color = COLORS[line.color];
+
+    return (
+      <g key={line.key} opacity={dragging ? 1 : 0.85}>
+        <line
+          x1={0}
+          x2={plotWidth}
+          y1={y}
+          y2={y}
+          stroke={color}
+          strokeWidth={dragging ? 1.5 : 1}
+          strokeDasharray={line.dashed || clamped ? '4 3' : undefined}
+        />
+        <text x={4} y={y - 3} fill={color} fontSize={10} fontFamily="monospace">
+          {clamped === 'above' ? '↑ ' : clamped === 'below' ? '↓ ' : ''}{line.label}
+        </text>
+        <rect x={plotWidth} y={y - 7} width={AXIS_WIDTH} height={14} fill={color} rx={2} />
+        <text x={plotWidth + 4} y={y + 3.5} fill="#0f172a" fontSize={10} fontFamily="monospace">{formatPrice(price)}</text>
+        {line.order && !clamped && (
+          <rect
+            x={0}
+            y={y - 5}
+            width={plotWidth}
+            height={10}
+            fill="transparent"
+            style={{ cursor: 'ns-resize' }}
+            onPointerDown={(e) => {
+              e.preventDefault();
+              (e.currentTarget.ownerSVGElement as SVGSVGElement).setPointerCapture(e.pointerId);
+              setDrag({ line, price: line.price, range });
+            }}
+          >
+            <title>Drag to amend the order price</title>
+          </rect>
+        )}
+      </g>
+    );
+  };
+
+  const last = visible[visible.length - 1];
+  const candleWidth = Math.max(CANDLE_SPACING - 2, 1);
+  const offsetX = plotWidth - visible.length * CANDLE_SPACING;
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl shadow-xl h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-slate-800">
+        <h3 className="text-slate-300 font-medium flex items-center space-x-2 text-sm">
+          <CandlestickChart className="w-4 h-4 text-slate-400" />
+          <span>{symbol.toUpperCase()}</span>
+        </h3>
+        <div className="flex items-center space-x-1">
+          {INTERVALS.map(i => (
+            <button
+              key={i}
+              type="button"
+              onClick={() => onIntervalChange(i)}
+              className={`px-2 py-0.5 rounded text-[11px] font-mono transition ${
+                i === interval ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-slate-200 hover:bg-slate-800'
+              }`}
+            >
+              {i}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={containerRef} className="flex-1 min-h-0 relative select-none">
+        {!candles ? (
+          <div className="absolute inset-0 flex items-center justify-center text-slate-600 italic text-sm">Loading candles...</div>
+        ) : range && (
+          <svg
+            width={size.width}
+            height={size.height}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => setDrag(null)}
+            className="absolute inset-0"
+          >
+            {/* Price grid and axis */}
+            {Array.from({ length: Y_TICKS }, (_, i) => {
+              const price = range.min + ((i + 0.5) / Y_TICKS) * (range.max - range.min);
+              const y = yOf(price);
+              return (
+                <g key={i}>
+                  <line x1={0} x2={plotWidth} y1={y} y2={y} stroke="#1e293b" />
+                  <text x={plotWidth + 4} y={y + 3.5} fill="#64748b" fontSize={10} fontFamily="monospace">{formatPrice(price)}</text>
+                </g>
+              );
+            })}
+
+            {/* Time axis */}
+            {visible.map((c, i) => (i % 15 === 0 ? (
+              <text
+                key={c.openTime}
+                x={offsetX + i * CANDLE_SPACING}
+                y={size.height - 5}
+                fill="#64748b"
+                fontSize={10}
+                fontFamily="monospace"
+              >
+                {formatTime(c.openTime, interval)}
+              </text>
+            ) : null))}
+
+            {/* Candles */}
+            {visible.map((c, i) => {
+              const up = c.close >= c.open;
+              const color = up ? COLORS.emerald : COLORS.rose;
+              const x = offsetX + i * CANDLE_SPACING + CANDLE_SPACING / 2;
+              const top = yOf(Math.max(c.open, c.close));
+              const bottom = yOf(Math.min(c.open, c.close));
+              return (
+                <g key={c.openTime}>
+                  <line x1={x} x2={x} y1={yOf(c.high)} y2={yOf(c.low)} stroke={color} />
+                  <rect x={x - candleWidth / 2} y={top} width={candleWidth} height={Math.max(bottom - top, 1)} fill={color} />
+                </g>
+              );
+            })}
+
+            {/* Last price */}
+            {last && (
+              <g>
+                <line x1={0} x2={plotWidth} y1={yOf(last.close)} y2={yOf(last.close)} stroke={COLORS.slate} strokeDasharray="2 3" />
+                <rect x={plotWidth} y={yOf(last.close) - 7} width={AXIS_WIDTH} height={14} fill="#334155" rx={2} />
+                <text x={plotWidth + 4} y={yOf(last.close) + 3.5} fill="#e2e8f0" fontSize={10} fontFamily="monospace">
+                  {formatPrice(last.close)}
+                </text>
+              </g>
+            )}
+
+            {lines.map(renderLine)}
+          </svg>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Strategy } from '../services/strategyRuntime';
+import { Cpu } from 'lucide-react';
+
+interface StrategyFormProps {
+  strategies: Strategy[];
+  symbol: string;
+  onSymbolChange: (symbol: string) => void;
+  onSubmit: (strategyId: string, params: Record<string, number>) => Promise<void>;
+  isLoading: boolean;
+}
+
+const defaultsOf = (strategy: Strategy) =>
+  Object.fromEntries(strategy.params.map(p => [p.key, p.defaultValue.toString()]));
+
+const StrategyForm: React.FC<StrategyFormProps> = ({ strategies, symbol, onSymbolChange, onSubmit, isLoading }) => {
+  const [strategyId, setStrategyId] = useState(strategies[0]?.id || '');
+  const [values, setValues] = useState<Record<string, string>>(() => (strategies[0] ? defaultsOf(strategies[0]) : {}));
+  const strategy = strategies.find(s => s.id === strategyId);
+
+  useEffect(() => {
+    if (strategy) setValues(defaultsOf(strategy));
+  }, [strategy]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!strategy) return;
+    const params = Object.fromEntries(strategy.params.map(p => [p.key, parseFloat(values[p.key])]));
+    onSubmit(strategy.id, params);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div>
+        <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+          Strategy
+        </label>
+        <select
+          value={strategyId}
+          onChange={(e) => setStrategyId(e.target.value)}
+          className="w-full bg-slate-800 border border-slate-700 text-white rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        >
+          {strategies.map(s => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        {strategy && <p className="mt-2 text-xs text-slate-500">{strategy.description}</p>}
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+          Symbol
+        </label>
+        <input
+          type="text"
+          value={symbol}
+          onChange={(e) => onSymbolChange(e.target.value.toUpperCase())}
+          className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+          required
+        />
+      </div>
+
+      {strategy && (
+        <div className="grid grid-cols-2 gap-4">
+          {strategy.params.map(param => (
+            <div key={param.key}>
+              <label className="block text-xs font-medium text-slate-400 uppercase tracking-wider mb-1">
+                {param.label}
+              </label>
+              <input
+                type="number"
+                value={values[param.key] ?? ''}
+                min={param.min}
+                step={param.step ?? 'any'}
+                onChange={(e) => setValues(prev => ({ ...prev, [param.key]: e.target.value }))}
+                className="w-full bg-slate-800 border border-slate-700 text-white font-mono rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                required
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoading || !strategy}
+        className="w-full flex items-center justify-center space-x-2 py-3 px-4 bg-cyan-600 hover:bg-cyan-700 border border-transparent rounded-md shadow-sm text-sm font-medium text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-cyan-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <span>Start Strategy</span>
+        <Cpu className="w-4 h-4" />
+      </button>
+    </form>
+  );
+};
+
+export default StrategyForm;
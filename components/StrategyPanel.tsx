@@ -0,0 +1,79 @@
+import React from 'react';
+import { StrategyInstance } from '../types';
+import { Strategy } from '../services/strategyRuntime';
+import { Cpu, Pause, Play, Square } from 'lucide-react';
+
+interface StrategyPanelProps {
+  strategies: Strategy[];
+  instances: StrategyInstance[];
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onStop: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<StrategyInstance['status'], string> = {
+  RUNNING: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  PAUSED: 'bg-orange-500/10 text-orange-300 border-orange-500/30',
+  STOPPED: 'bg-slate-700 text-slate-400 border-slate-600',
+  FAILED: 'bg-rose-500/10 text-rose-400 border-rose-500/30'
+};
+
+const StrategyPanel: React.FC<StrategyPanelProps> = ({ strategies, instances, onPause, onResume, onStop }) => {
+  if (instances.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <h3 className="flex items-center text-xs font-medium text-slate-400 uppercase tracking-wider">
+        <Cpu className="w-4 h-4 mr-2 text-cyan-400" />
+        Running Strategies
+      </h3>
+
+      {instances.map(instance => {
+        const strategy = strategies.find(s => s.id === instance.strategyId);
+        return (
+          <div key={instance.id} className="bg-slate-800/50 border border-slate-700/50 rounded p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-slate-200">{strategy?.name || instance.strategyId}</span>
+                <span className="text-sm font-mono text-slate-400">{instance.symbol}</span>
+                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-medium ${STATUS_STYLES[instance.status]}`}>{instance.status}</span>
+              </div>
+              <div className="flex items-center space-x-1">
+                {instance.status === 'RUNNING' && (
+                  <button type="button" onClick={() => onPause(instance.id)} className="p-1 rounded text-slate-400 hover:text-orange-300" title="Pause (cancels orders)">
+                    <Pause className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {instance.status === 'PAUSED' && (
+                  <button type="button" onClick={() => onResume(instance.id)} className="p-1 rounded text-slate-400 hover:text-emerald-400" title="Resume">
+                    <Play className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (window.confirm(`Stop strategy ${instance.id} and cancel its orders? Positions stay open.`)) onStop(instance.id);
+                  }}
+                  disabled={instance.status === 'STOPPED'}
+                  className="p-1 rounded text-slate-400 hover:text-rose-400 disabled:opacity-40"
+                  title="Stop (cancels orders)"
+                >
+                  <Square className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-[10px] text-slate-500">
+              <span className="font-mono text-slate-300">
+                {strategy?.describe ? strategy.describe(instance.state, instance.params) : '-'}
+              </span>
+              <span className="font-mono">#{instance.id.slice(-4)}</span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StrategyPanel;
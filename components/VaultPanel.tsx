@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { ApiCredentials, CredentialProfile, LogEntry } from '../types';
+import {
+  vaultExists,
+  isVaultUnlocked,
+  createVault,
+  unlockVault,
+  lockVault,
+  destroyVault,
+  getVaultProfiles,
+  saveVaultProfile,
+  deleteVaultProfile,
+  getVaultAutoLockMinutes,
+  setVaultAutoLockMinutes,
+  onVaultLock
+} from '../services/vault';
+import { Lock, Unlock, KeyRound, Trash2 } from 'lucide-react';
+
+interface VaultPanelProps {
+  credentials: ApiCredentials;
+  activeProfileId: string | null;
+  onUseProfile: (profile: CredentialProfile) => void;
+  onLog: (level: LogEntry['level'], message: string, details?: any) => void;
+}
+
+type VaultStatus = 'loading' | 'none' | 'locked' | 'unlocked';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded px-3 py-2 text-sm focus:ring-1 focus:ring-blue-500 outline-none';
+const buttonClass = 'px-3 py-2 rounded bg-slate-700 hover:bg-slate-600 text-xs text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const VaultPanel: React.FC<VaultPanelProps> = ({ credentials, activeProfileId, onUseProfile, onLog }) => {
+  // The vault outlives this panel (it unmounts with the settings drawer)
+  const [status, setStatus] = useState<VaultStatus>(() => isVaultUnlocked() ? 'unlocked' : 'loading');
+  const [profiles, setProfiles] = useState<CredentialProfile[]>(() => isVaultUnlocked() ? getVaultProfiles() : []);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(getVaultAutoLockMinutes);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isVaultUnlocked()) {
+      vaultExists()
+        .then(exists => setStatus(exists ? 'locked' : 'none'))
+        .catch((e: any) => {
+          setStatus('none');
+          onLog('WARN', 'Credential vault unavailable (IndexedDB blocked?)', { error: e.message });
+        });
+    }
+
+    return onVaultLock(() => {
+      setProfiles([]);
+      setStatus('locked');
+    });
+  }, [onLog]);
+
+  // Passphrases are cleared as soon as they have been used
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e: any) {
+      onLog('ERROR', e.message || 'Vault operation failed');
+    } finally {
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => run(async () => {
+    if (passphrase !== confirmPassphrase) throw new Error('Passphrases do not match');
+    await createVault(passphrase);
+    setProfiles([]);
+    setStatus('unlocked');
+    onLog('SUCCESS', 'Credential vault created');
+  });
+
+  const handleUnlock = () => run(async () => {
+    setProfiles(await unlockVault(passphrase));
+    setStatus('unlocked');
+    onLog('SUCCESS', 'Credential vault unlocked');
+  });
+
+  const handleSaveCurrent = () => run(async () => {
+    const existing = profiles.find(p => p.name === profileName.trim());
+    const saved = await saveVaultProfile({ id: existing?.id, name: profileName, ...credentials });
+    setProfiles(getVaultProfiles());
+    setProfileName('');
+    onLog('SUCCESS', `Saved API key profile "${saved.name}" to the vault`);
+  });
+
+  const handleDelete = (profile: CredentialProfile) => {
+    if (!window.confirm(`Delete API key profile "${profile.name}" from the vault?`)) return;
+    run(async () => {
+      await deleteVaultProfile(profile.id);
+      setProfiles(getVaultProfiles());
+      onLog('WARN', `Deleted API key profile "${profile.name}"`);
+    });
+  };
+
+  const handleDestroy = () => {
+    if (!window.confirm('Delete the vault and every profile in it? This cannot be undone.')) return;
+    run(async () => {
+      await destroyVault();
+      setStatus('none');
+      onLog('WARN', 'Credential vault deleted');
+    });
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    const minutes = parseInt(value);
+    if (!Number.isInteger(minutes) || minutes < 1) return;
+    setVaultAutoLockMinutes(minutes);
+    setAutoLockMinutes(getVaultAutoLockMinutes());
+  };
+
+  const canSaveCurrent = !!profileName.trim() && !!credentials.apiKey && !!credentials.apiSecret;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-slate-300 flex items-center justify-between">
+        <span className="flex items-center">
+          <KeyRound className="w-4 h-4 mr-2 text-blue-400" />
+          Credential Vault
+        </span>
+        {status === 'unlocked' && (
+          <button type="button" onClick={lockVault} className="flex items-center text-xs text-slate-400 hover:text-white">
+            <Lock className="w-3.5 h-3.5 mr-1" /> Lock
+          </button>
+        )}
+      </h3>
+
+      {status === 'loading' && <p className="text-xs text-slate-500">Checking for a saved vault...</p>}
+
+      {status === 'none' && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-500">
+            Optional. Encrypts API key profiles with a passphrase and keeps only the ciphertext in this browser.
+          </p>
+          <input type="password" placeholder="New passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} />
+          <input type="password" placeholder="Confirm passphrase" value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} className={inputClass} />
+          <button type="button" onClick={handleCreate} disabled={busy || !passphrase} className={buttonClass}>
+            Create Vault
+          </button>
+        </div>
+      )}
+
+      {status === 'locked' && (
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleUnlock();
+          }}
+        >
+          <input type="password" placeholder="Vault passphrase" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} className={inputClass} />
+          <button type="submit" disabled={busy || !passphrase} className={`${buttonClass} flex items-center`}>
+            <Unlock className="w-3.5 h-3.5 mr-1" /> Unlock
+          </button>
+          <button type="button" onClick={handleDestroy} disabled={busy} className={buttonClass} title="Delete vault">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </form>
+      )}
+
+      {status === 'unlocked' && (
+        <div className="space-y-3">
+          {profiles.length === 0 ? (
+            <p className="text-xs text-slate-600 italic">No profiles saved yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {profiles.map(p => (
+                <div key={p.id} className="flex items-center justify-between bg-slate-800/50 border border-slate-700/50 rounded px-3 py-1.5">
+                  <div className="min-w-0">
+                    <div className="text-xs text-slate-200 truncate">{p.name}</div>
+                    <div className="text-[10px] font-mono text-slate-500">{p.keyType || 'HMAC'} · {p.apiKey.slice(0, 6)}...{p.apiKey.slice(-4)}</div>
+                  </div>
+                  <div className="flex items-center space-x-1 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => onUseProfile(p)}
+                      disabled={p.id === activeProfileId}
+                      className="px-2 py-1 rounded text-[11px] bg-blue-600 hover:bg-blue-500 text-white disabled:bg-slate-700 disabled:text-slate-400"
+                    >
+                      {p.id === activeProfileId ? 'In Use' : 'Use'}
+                    </button>
+                    <button type="button" onClick={() => handleDelete(p)} disabled={busy} className="p-1 rounded text-slate-500 hover:text-rose-400" title="Delete profile">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <input type="text" placeholder="Profile name (e.g. sub-account)" value={profileName} onChange={(e) => setProfileName(e.target.value)} className={inputClass} />
+            <button type="button" onClick={handleSaveCurrent} disabled={busy || !canSaveCurrent} className={`${buttonClass} whitespace-nowrap`}>
+              Save Current Keys
+            </button>
+          </div>
+
+          <label className="flex items-center justify-between text-xs text-slate-400">
+            <span>Auto-lock after inactivity (minutes)</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={autoLockMinutes}
+              onChange={(e) => handleAutoLockChange(e.target.value)}
+              className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono focus:ring-1 focus:ring-blue-500 outline-none"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultPanel;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { WatchlistRow } from '../types';
+import { getSymbolRules } from '../utils/validator';
+import { roundToStep } from '../utils/precision';
+import { Eye, Plus, X } from 'lucide-react';
+
+interface WatchlistPanelProps {
+  rows: WatchlistRow[];
+  activeSymbol: string;
+  onSelect: (symbol: string) => void;
+  onAdd: (symbol: string) => boolean;
+  onRemove: (symbol: string) => void;
+}
+
+const formatVolume = (value: string | null) => {
+  if (value === null) return '-';
+  const n = parseFloat(value);
+  if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`;
+  if (n >= 1e6) return `${(n / 1e6).toFixed(2)}M`;
+  if (n >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return n.toFixed(0);
+};
+
+const changeColor = (value: string | null) => {
+  if (value === null) return 'text-slate-500';
+  const n = parseFloat(value);
+  return n > 0 ? 'text-emerald-400' : n < 0 ? 'text-rose-400' : 'text-slate-300';
+};
+
+const WatchlistPanel: React.FC<WatchlistPanelProps> = ({ rows, activeSymbol, onSelect, onAdd, onRemove }) => {
+  const [draft, setDraft] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() && onAdd(draft.trim().toUpperCase())) setDraft('');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-xl p-6 shadow-xl space-y-3">
+      <h3 className="text-slate-300 font-medium flex items-center space-x-2">
+        <Eye className="w-4 h-4 text-slate-400" />
+        <span>Watchlist</span>
+      </h3>
+
+      <form onSubmit={handleAdd} className="flex space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Add symbol, e.g. ADAUSDT"
+          className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim()}
+          className="p-1.5 rounded bg-slate-800 border border-slate-700 text-slate-400 hover:text-white disabled:opacity-40"
+          title="Add to watchlist"
+        >
+          <Plus className="w-3.5 h-3.5" />
+        </button>
+      </form>
+
+      {rows.length === 0 ? (
+        <div className="text-slate-600 italic text-center text-sm py-2">No symbols watched.</div>
+      ) : (
+        <table className="w-full text-[10px] font-mono">
+          <thead>
+            <tr className="text-slate-500 uppercase tracking-wide">
+              <th className="text-left font-normal pb-1">Symbol</th>
+              <th className="text-right font-normal pb-1">Bid / Ask</th>
+              <th className="text-right font-normal pb-1">Mid</th>
+              <th className="text-right font-normal pb-1">24h</th>
+              <th className="text-right font-normal pb-1">Vol</th>
+              <th className="text-right font-normal pb-1">Funding</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => {
+              const active = row.symbol === activeSymbol.toUpperCase();
+              const tickSize = getSymbolRules(row.symbol).tickSize;
+              const mid = row.bidPrice !== null && row.askPrice !== null
+                ? roundToStep((parseFloat(row.bidPrice) + parseFloat(row.askPrice)) / 2, tickSize)
+                : '-';
+              return (
+                <tr
+                  key={row.symbol}
+                  onClick={() => onSelect(row.symbol)}
+                  className={`cursor-pointer hover:bg-slate-800/80 ${active ? 'bg-blue-500/10' : ''}`}
+                  title={`Trade ${row.symbol}`}
+                >
+                  <td className={`py-1 ${active ? 'text-blue-300' : 'text-slate-200'}`}>{row.symbol}</td>
+                  <td className="py-1 text-right">
+                    <span className="text-emerald-400">{row.bidPrice ?? '-'}</span>
+                    <span className="text-slate-600"> / </span>
+                    <span className="text-rose-400">{row.askPrice ?? '-'}</span>
+                  </td>
+                  <td className="py-1 text-right text-slate-300">{mid}</td>
+                  <td className={`py-1 text-right ${changeColor(row.priceChangePercent)}`}>
+                    {row.priceChangePercent !== null ? `${parseFloat(row.priceChangePercent).toFixed(2)}%` : '-'}
+                  </td>
+                  <td className="py-1 text-right text-slate-400">{formatVolume(row.quoteVolume)}</td>
+                  <td className={`py-1 text-right ${changeColor(row.fundingRate)}`}>
+                    {row.fundingRate !== null ? `${(parseFloat(row.fundingRate) * 100).toFixed(4)}%` : '-'}
+                  </td>
+                  <td className="py-1 text-right">
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRemove(row.symbol);
+                      }}
+                      className="p-0.5 rounded text-slate-600 hover:text-rose-400"
+                      title="Remove"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default WatchlistPanel;
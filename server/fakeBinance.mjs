@@ -0,0 +1,1209 @@
+import { createServer } from 'node:http';
+import { createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { acceptWebSocket } from './websocket.mjs';
+
+/**
+ * Local stand-in for the Binance USDT-M Futures API, for exercising the Live
+ * Mode code path without network access to the testnet.
+ *
+ * REST: ping/time, exchangeInfo, depth, klines, bookTicker, listenKey, order
+ * (place / query / cancel / amend), batchOrders (place / cancel), openOrders,
+ * allOpenOrders, positionRisk, account, balance, leverage, marginType and
+ * positionSide/dual. Signed
+ * endpoints verify X-MBX-APIKEY, the signature over query string + body
+ * (HMAC-SHA256 for `apiKey`, Ed25519 or RSA for the keys in `publicKeys`),
+ * and timestamp/recvWindow, answering with the same error codes Binance uses.
+ *
+ * Streams: /ws/<name> and /stream?streams=a/b for <symbol>@bookTicker,
+ * <symbol>@depth[@100ms], <symbol>@markPrice[@1s], <symbol>@ticker and
+ * <symbol>@kline_<interval>, with SUBSCRIBE / UNSUBSCRIBE /
+ * LIST_SUBSCRIPTIONS messages on open sockets, plus /ws/<listenKey> for
+ * ORDER_TRADE_UPDATE / ACCOUNT_UPDATE.
+ *
+ * Prices follow a random walk (or are set through POST /_fake/price) and
+ * resting orders fill against the synthetic top of book. One-way mode only.
+ *
+ *   npm run fake-server
+ *   BINANCE_BASE_URL=http://localhost:4010 BINANCE_STREAM_URL=ws://localhost:4010 npm run dev
+ */
+
+const DEFAULT_OPTIONS = {
+  port: 4010,
+  apiKey: 'fake-api-key',
+  apiSecret: 'fake-api-secret',
+  publicKeys: {},         // Ed25519 / RSA API keys: API key -> PEM public key
+  tickIntervalMs: 1000,   // Random-walk step; 0 freezes prices (drive them via /_fake/price)
+  volatility: 0.0005,     // Max relative move per tick
+  clockOffsetMs: 0,       // Skews serverTime to test timestamp handling
+  startingBalance: 10000,
+  listenKeyTtlMs: 60 * 60 * 1000, // Validity after creation / the last keep-alive
+  log: false
+};
+
+const MARKETS = {
+  BTCUSDT: { baseAsset: 'BTC', price: 65000, tickSize: '0.10', stepSize: '0.001', minQty: '0.001', notional: '100' },
+  ETHUSDT: { baseAsset: 'ETH', price: 3200, tickSize: '0.01', stepSize: '0.001', minQty: '0.001', notional: '20' },
+  BNBUSDT: { baseAsset: 'BNB', price: 580, tickSize: '0.010', stepSize: '0.01', minQty: '0.01', notional: '5' },
+  SOLUSDT: { baseAsset: 'SOL', price: 150, tickSize: '0.0100', stepSize: '1', minQty: '1', notional: '5' },
+  XRPUSDT: { baseAsset: 'XRP', price: 0.55, tickSize: '0.0001', stepSize: '0.1', minQty: '0.1', notional: '5' }
+};
+
+const BOOK_LEVELS = 20;
+const DEFAULT_RECV_WINDOW = 5000;
+const MAX_RECV_WINDOW = 60000;
+const MAINT_MARGIN_RATE = 0.004;
+
+const OPEN_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+
+const KLINE_INTERVALS = {
+  '1m': 60e3, '3m': 180e3, '5m': 300e3, '15m': 900e3, '30m': 1800e3,
+  '1h': 3600e3, '2h': 7200e3, '4h': 14400e3, '6h': 21600e3, '8h': 28800e3, '12h': 43200e3,
+  '1d': 86400e3, '3d': 259200e3, '1w': 604800e3
+};
+const MAX_KLINES = 1500;
+const ORDER_TYPES = ['LIMIT', 'MARKET', 'STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET', 'TRAILING_STOP_MARKET'];
+
+class ApiError extends Error {
+  constructor(status, code, msg) {
+    super(msg);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const MAX_BATCH_ORDERS = 5;
+const MAX_BATCH_CANCELS = 10;
+
+const missing = (name) => new ApiError(400, -1102, `Mandatory parameter '${name}' was not sent, was empty/null, or malformed.`);
+
+const decimalsOf = (step) => (step.split('.')[1] || '').length;
+
+const roundTo = (value, step) => {
+  const decimals = decimalsOf(step);
+  const units = Math.round(value / parseFloat(step));
+  return (units * parseFloat(step)).toFixed(decimals);
+};
+
+const fmt = (value, decimals = 8) => Number(value).toFixed(decimals);
+
+const symbolInfo = (symbol, m) => ({
+  symbol,
+  pair: symbol,
+  contractType: 'PERPETUAL',
+  status: 'TRADING',
+  baseAsset: m.baseAsset,
+  quoteAsset: 'USDT',
+  marginAsset: 'USDT',
+  pricePrecision: decimalsOf(m.tickSize),
+  quantityPrecision: decimalsOf(m.stepSize),
+  filters: [
+    { filterType: 'PRICE_FILTER', minPrice: m.tickSize, maxPrice: '1000000', tickSize: m.tickSize },
+    { filterType: 'LOT_SIZE', minQty: m.minQty, maxQty: '100000', stepSize: m.stepSize },
+    { filterType: 'MARKET_LOT_SIZE', minQty: m.minQty, maxQty: '10000', stepSize: m.stepSize },
+    { filterType: 'MAX_NUM_ORDERS', limit: 200 },
+    { filterType: 'MIN_NOTIONAL', notional: m.notional },
+    { filterType: 'PERCENT_PRICE', multiplierUp: '1.0500', multiplierDown: '0.9500', multiplierDecimal: '4' }
+  ]
+});
+
+/**
+ * Splits a raw query/body string into ordered pairs, keeping the raw text so
+ * the signature can be checked over exactly what the client signed.
+ */
+const parseParams = (raw) => {
+  const params = {};
+  const unsigned = [];
+  let signature = null;
+  for (const part of raw ? raw.split('&') : []) {
+    if (!part) continue;
+    const eq = part.indexOf('=');
+    const key = decodeURIComponent(eq === -1 ? part : part.slice(0, eq));
+    const value = eq === -1 ? '' : decodeURIComponent(part.slice(eq + 1).replace(/\+/g, ' '));
+    if (key === 'signature') {
+      signature = value;
+    } else {
+      params[key] = value;
+      unsigned.push(part);
+    }
+  }
+  return { params, unsigned: unsigned.join('&'), signature };
+};
+
+export const createFakeBinance = (overrides = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const publicKeys = new Map(Object.entries(options.publicKeys).map(([apiKey, pem]) => [apiKey, createPublicKey(pem)]));
+  const log = (...args) => options.log && console.log('[fake-binance]', ...args);
+
+  const state = {};
+  const streamClients = new Set(); // { connection, streams: Set<string>, combined: boolean, stalled? }
+  const userClients = new Set();   // { connection, listenKey, stalled? }
+  let tickTimer = null;
+  let nextOrderId = 1000000;
+  let nextTradeId = 1;
+  let weight = { minute: 0, used: 0 };
+  let orderCount = { tenSeconds: 0, minute: 0, count10s: 0, count1m: 0 };
+  let faults = [];                 // { method, path, mode, remaining }
+
+  const reset = () => {
+    state.markets = {};
+    for (const [symbol, m] of Object.entries(MARKETS)) {
+      state.markets[symbol] = {
+        ...m, symbol, mid: m.price, updateId: 1, bids: new Map(), asks: new Map(),
+        // Rolling 24h statistics for @ticker, counted from the reset
+        openPrice: m.price, highPrice: m.price, lowPrice: m.price, volume: 0, quoteVolume: 0, tradeCount: 0, openTime: Date.now(),
+        // Per interval: the forming candle and, once requested, closed history
+        klines: {}
+      };
+      rebuildBook(state.markets[symbol]);
+    }
+    state.orders = new Map();
+    state.positions = {};
+    state.leverage = {};
+    state.marginType = {};
+    state.walletBalance = options.startingBalance;
+    state.listenKeys = new Map();
+  };
+
+  const serverTime = () => Date.now() + options.clockOffsetMs;
+
+  // Market data
+
+  const randomQty = (m) => roundTo(parseFloat(m.minQty) * (1 + Math.random() * 50), m.stepSize);
+
+  /**
+   * Regenerates the synthetic book around `mid` (one tick wide) and returns
+   * the diff against the previous one; removed levels carry quantity 0.
+   */
+  const rebuildBook = (m) => {
+    const tick = parseFloat(m.tickSize);
+    const diff = { bids: [], asks: [] };
+    const next = { bids: new Map(), asks: new Map() };
+    const topBid = Math.max(tick, parseFloat(roundTo(m.mid - tick / 2, m.tickSize)));
+
+    for (let i = 0; i < BOOK_LEVELS; i++) {
+      const bidPrice = topBid - i * tick;
+      if (bidPrice > 0) next.bids.set(roundTo(bidPrice, m.tickSize), randomQty(m));
+      next.asks.set(roundTo(topBid + (i + 1) * tick, m.tickSize), randomQty(m));
+    }
+
+    for (const side of ['bids', 'asks']) {
+      for (const [price, qty] of next[side]) {
+        if (m[side].get(price) !== qty) diff[side].push([price, qty]);
+      }
+      for (const price of m[side].keys()) {
+        if (!next[side].has(price)) diff[side].push([price, '0']);
+      }
+      m[side] = next[side];
+    }
+    return diff;
+  };
+
+  const topOfBook = (m) => {
+    const [bidPrice, bidQty] = m.bids.entries().next().value;
+    const [askPrice, askQty] = m.asks.entries().next().value;
+    return { bidPrice, bidQty, askPrice, askQty };
+  };
+
+  const marketFor = (symbol) => {
+    if (!symbol) throw missing('symbol');
+    const m = state.markets[symbol.toUpperCase()];
+    if (!m) throw new ApiError(400, -1121, 'Invalid symbol.');
+    return m;
+  };
+
+  // Subscriptions are stored lowercased; stream names like @bookTicker are not
+  const publish = (stream, data) => {
+    const key = stream.toLowerCase();
+    for (const client of streamClients) {
+      if (!client.streams.has(key) || client.stalled) continue;
+      client.connection.send(JSON.stringify(client.combined ? { stream, data } : data));
+    }
+  };
+
+  const publishMarket = (m, diff) => {
+    const now = serverTime();
+    const name = m.symbol.toLowerCase();
+    const top = topOfBook(m);
+
+    publish(`${name}@bookTicker`, {
+      e: 'bookTicker', u: m.updateId, s: m.symbol,
+      b: top.bidPrice, B: top.bidQty, a: top.askPrice, A: top.askQty,
+      T: now, E: now
+    });
+
+    const prevFinal = m.updateId;
+    m.updateId += 1;
+    const depth = {
+      e: 'depthUpdate', E: now, T: now, s: m.symbol,
+      U: m.updateId, u: m.updateId, pu: prevFinal,
+      b: diff.bids, a: diff.asks
+    };
+    publish(`${name}@depth`, depth);
+    publish(`${name}@depth@100ms`, depth);
+
+    const mark = {
+      e: 'markPriceUpdate', E: now, s: m.symbol,
+      p: roundTo(m.mid, m.tickSize), i: roundTo(m.mid, m.tickSize), P: roundTo(m.mid, m.tickSize),
+      r: '0.00010000', T: now - (now % (8 * 3600 * 1000)) + 8 * 3600 * 1000
+    };
+    publish(`${name}@markPrice`, mark);
+    publish(`${name}@markPrice@1s`, mark);
+
+    publish(`${name}@ticker`, ticker24h(m, now));
+  };
+
+  const ticker24h = (m, now) => {
+    const change = m.mid - m.openPrice;
+    return {
+      e: '24hrTicker', E: now, s: m.symbol,
+      p: roundTo(change, m.tickSize), P: (change / m.openPrice * 100).toFixed(3),
+      w: roundTo(m.volume > 0 ? m.quoteVolume / m.volume : m.mid, m.tickSize),
+      c: roundTo(m.mid, m.tickSize), Q: '0', o: roundTo(m.openPrice, m.tickSize),
+      h: roundTo(m.highPrice, m.tickSize), l: roundTo(m.lowPrice, m.tickSize),
+      v: roundTo(m.volume, m.stepSize), q: m.quoteVolume.toFixed(2),
+      O: m.openTime, C: now, F: 0, L: m.tradeCount, n: m.tradeCount
+    };
+  };
+
+  // Candles
+
+  const klineOpenTime = (interval, time) => time - (time % KLINE_INTERVALS[interval]);
+
+  const newCandle = (interval, openTime, price) => ({
+    openTime, open: price, high: price, low: price, close: price, volume: 0, quoteVolume: 0, trades: 0
+  });
+
+  // The forming candle for `interval`, rolled over (and the closed one archived) as time passes
+  const currentCandle = (m, interval, now) => {
+    let series = m.klines[interval];
+    if (!series) series = m.klines[interval] = { history: null, live: newCandle(interval, klineOpenTime(interval, now), m.mid) };
+    const openTime = klineOpenTime(interval, now);
+    if (series.live.openTime !== openTime) {
+      const closed = series.live;
+      if (series.history) {
+        series.history.push(closed);
+        if (series.history.length > MAX_KLINES) series.history.shift();
+      }
+      series.live = newCandle(interval, openTime, closed.close);
+      publishKline(m, interval, closed, true);
+    }
+    return series.live;
+  };
+
+  /**
+   * Closed candles before the forming one. Generated once per market and
+   * interval as a random walk backward from the current open, then extended
+   * by real candles as they close.
+   */
+  const klineHistory = (m, interval) => {
+    const live = currentCandle(m, interval, Date.now());
+    const series = m.klines[interval];
+    if (series.history) return series.history;
+
+    const ms = KLINE_INTERVALS[interval];
+    const swing = options.volatility * Math.sqrt(ms / Math.max(options.tickIntervalMs, 1000)) * 2;
+    const history = [];
+    let close = live.open;
+    for (let i = 1; i <= MAX_KLINES; i++) {
+      const open = close * (1 + (Math.random() * 2 - 1) * swing);
+      const volume = parseFloat(randomQty(m)) * 20;
+      history.unshift({
+        openTime: live.openTime - i * ms, open, close,
+        high: Math.max(open, close) * (1 + Math.random() * swing / 2),
+        low: Math.min(open, close) * (1 - Math.random() * swing / 2),
+        volume, quoteVolume: volume * (open + close) / 2, trades: Math.ceil(Math.random() * 500)
+      });
+      close = open;
+    }
+    series.history = history;
+    return history;
+  };
+
+  // Array form used by GET /fapi/v1/klines
+  const klineRow = (m, interval, c) => [
+    c.openTime, roundTo(c.open, m.tickSize), roundTo(c.high, m.tickSize), roundTo(c.low, m.tickSize),
+    roundTo(c.close, m.tickSize), roundTo(c.volume, m.stepSize), c.openTime + KLINE_INTERVALS[interval] - 1,
+    c.quoteVolume.toFixed(2), c.trades, '0', '0', '0'
+  ];
+
+  const publishKline = (m, interval, c, closed) => {
+    const now = serverTime();
+    const [t, o, h, l, close, v, T, q, n] = klineRow(m, interval, c);
+    publish(`${m.symbol.toLowerCase()}@kline_${interval}`, {
+      e: 'kline', E: now, s: m.symbol,
+      k: { t, T, s: m.symbol, i: interval, f: 0, L: n, o, c: close, h, l, v, n, x: closed, q, V: '0', Q: '0', B: '0' }
+    });
+  };
+
+  const updateCandles = (m, traded) => {
+    const now = Date.now();
+    for (const interval of Object.keys(KLINE_INTERVALS)) {
+      const c = currentCandle(m, interval, now);
+      c.close = m.mid;
+      c.high = Math.max(c.high, m.mid);
+      c.low = Math.min(c.low, m.mid);
+      c.volume += traded;
+      c.quoteVolume += traded * m.mid;
+      c.trades += 1;
+      publishKline(m, interval, c, false);
+    }
+  };
+
+  const movePrice = (m, price) => {
+    m.mid = Math.max(parseFloat(m.tickSize), price);
+    m.highPrice = Math.max(m.highPrice, m.mid);
+    m.lowPrice = Math.min(m.lowPrice, m.mid);
+    // Background trading so the 24h volume moves
+    const traded = parseFloat(randomQty(m));
+    m.volume += traded;
+    m.quoteVolume += traded * m.mid;
+    m.tradeCount += 1;
+    updateCandles(m, traded);
+    const diff = rebuildBook(m);
+    publishMarket(m, diff);
+    matchResting(m);
+  };
+
+  const tick = () => {
+    for (const m of Object.values(state.markets)) {
+      const move = (Math.random() * 2 - 1) * options.volatility;
+      movePrice(m, m.mid * (1 + move));
+    }
+  };
+
+  // Account
+
+  const leverageOf = (symbol) => state.leverage[symbol] || 20;
+
+  const positionOf = (symbol) => state.positions[symbol] || { amount: 0, entryPrice: 0, updateTime: 0 };
+
+  const unrealizedOf = (symbol) => {
+    const p = positionOf(symbol);
+    return p.amount * (state.markets[symbol].mid - p.entryPrice);
+  };
+
+  const accountTotals = () => {
+    let unrealized = 0;
+    let initialMargin = 0;
+    let maintMargin = 0;
+    for (const [symbol, p] of Object.entries(state.positions)) {
+      if (p.amount === 0) continue;
+      const notional = Math.abs(p.amount) * state.markets[symbol].mid;
+      unrealized += unrealizedOf(symbol);
+      initialMargin += notional / leverageOf(symbol);
+      maintMargin += notional * MAINT_MARGIN_RATE;
+    }
+    const marginBalance = state.walletBalance + unrealized;
+    return { unrealized, initialMargin, maintMargin, marginBalance, available: Math.max(0, marginBalance - initialMargin) };
+  };
+
+  const applyFill = (symbol, side, qty, price) => {
+    const p = positionOf(symbol);
+    const delta = side === 'BUY' ? qty : -qty;
+    const next = Math.round((p.amount + delta) * 1e8) / 1e8;
+    let realized = 0;
+    let entryPrice = p.entryPrice;
+
+    if (p.amount === 0 || Math.sign(p.amount) === Math.sign(delta)) {
+      entryPrice = (Math.abs(p.amount) * p.entryPrice + qty * price) / Math.abs(next);
+    } else {
+      realized = Math.min(qty, Math.abs(p.amount)) * (price - p.entryPrice) * Math.sign(p.amount);
+      entryPrice = next === 0 ? 0 : Math.sign(next) !== Math.sign(p.amount) ? price : p.entryPrice;
+    }
+
+    state.positions[symbol] = { amount: next, entryPrice, updateTime: serverTime() };
+    state.walletBalance += realized;
+    return realized;
+  };
+
+  // User data stream
+
+  const sendUserEvent = (event) => {
+    const text = JSON.stringify(event);
+    for (const client of userClients) {
+      if (state.listenKeys.has(client.listenKey) && !client.stalled) client.connection.send(text);
+    }
+  };
+
+  const orderTradeUpdate = (o, executionType, last = { qty: 0, price: 0, fee: 0, realized: 0, maker: false }) => {
+    const now = serverTime();
+    sendUserEvent({
+      e: 'ORDER_TRADE_UPDATE',
+      E: now,
+      T: now,
+      o: {
+        s: o.symbol, c: o.clientOrderId, S: o.side, o: o.type, f: o.timeInForce,
+        q: o.origQty, p: o.price, ap: o.avgPrice, sp: o.stopPrice,
+        x: executionType, X: o.status, i: o.orderId,
+        l: last.qty.toString(), z: o.executedQty, L: last.price.toString(),
+        n: fmt(last.fee), N: 'USDT', T: o.updateTime, t: executionType === 'TRADE' ? nextTradeId++ : 0,
+        b: '0', a: '0', m: last.maker, R: o.reduceOnly, wt: o.workingType, ot: o.origType,
+        ps: o.positionSide, cp: o.closePosition, rp: fmt(last.realized),
+        ...(o.type === 'TRAILING_STOP_MARKET' && { AP: o.activatePrice, cr: o.priceRate })
+      }
+    });
+  };
+
+  const accountUpdate = (symbol, balanceChange) => {
+    const p = positionOf(symbol);
+    const wallet = fmt(state.walletBalance);
+    sendUserEvent({
+      e: 'ACCOUNT_UPDATE',
+      E: serverTime(),
+      T: serverTime(),
+      a: {
+        m: 'ORDER',
+        B: [{ a: 'USDT', wb: wallet, cw: wallet, bc: fmt(balanceChange) }],
+        P: [{
+          s: symbol, pa: p.amount.toString(), ep: p.entryPrice.toString(), cr: '0',
+          up: fmt(unrealizedOf(symbol)), mt: state.marginType[symbol] === 'ISOLATED' ? 'isolated' : 'cross',
+          iw: '0', ps: 'BOTH'
+        }]
+      }
+    });
+  };
+
+  // Matching
+
+  const isOpen = (o) => OPEN_STATUSES.includes(o.status);
+
+  // Strips the matcher's bookkeeping (and trailing-only fields for other types)
+  const toOrderResponse = (o) => {
+    const { activatePrice, priceRate, fired, trailExtreme, ...rest } = o;
+    return o.type === 'TRAILING_STOP_MARKET' ? { ...rest, activatePrice, priceRate } : rest;
+  };
+
+  const fillOrder = (o, price, maker) => {
+    const m = state.markets[o.symbol];
+    const position = positionOf(o.symbol).amount;
+    let qty = parseFloat(o.origQty) - parseFloat(o.executedQty);
+
+    if (o.reduceOnly || o.closePosition) {
+      const reducible = o.side === 'BUY' ? Math.max(0, -position) : Math.max(0, position);
+      qty = o.closePosition ? reducible : Math.min(qty, reducible);
+    }
+
+    o.updateTime = serverTime();
+    if (qty <= 0) {
+      o.status = 'EXPIRED';
+      orderTradeUpdate(o, 'EXPIRED');
+      return;
+    }
+
+    const fillPrice = parseFloat(roundTo(price, m.tickSize));
+    const fee = qty * fillPrice * (maker ? 0.0002 : 0.0004);
+    const realized = applyFill(o.symbol, o.side, qty, fillPrice);
+    state.walletBalance -= fee;
+
+    if (o.closePosition) o.origQty = roundTo(qty, m.stepSize);
+    const executed = parseFloat(o.executedQty) + qty;
+    const cumQuote = parseFloat(o.cumQuote) + qty * fillPrice;
+    o.executedQty = roundTo(executed, m.stepSize);
+    o.cumQuote = fmt(cumQuote, 5);
+    o.avgPrice = fmt(cumQuote / executed, decimalsOf(m.tickSize));
+    o.status = 'FILLED';
+    orderTradeUpdate(o, 'TRADE', { qty, price: fillPrice, fee, realized, maker });
+    accountUpdate(o.symbol, realized - fee);
+  };
+
+  const takeLiquidity = (o) => {
+    const top = topOfBook(state.markets[o.symbol]);
+    let price = parseFloat(o.side === 'BUY' ? top.askPrice : top.bidPrice);
+    const limit = parseFloat(o.price);
+    if (limit > 0) price = o.side === 'BUY' ? Math.min(price, limit) : Math.max(price, limit);
+    fillOrder(o, price, false);
+  };
+
+  const crosses = (o) => {
+    const top = topOfBook(state.markets[o.symbol]);
+    const limit = parseFloat(o.price);
+    return o.side === 'BUY' ? parseFloat(top.askPrice) <= limit : parseFloat(top.bidPrice) >= limit;
+  };
+
+  const triggered = (o) => {
+    const mid = state.markets[o.symbol].mid;
+    const stop = parseFloat(o.stopPrice);
+    const isStop = o.type === 'STOP' || o.type === 'STOP_MARKET';
+    if (o.side === 'BUY') return isStop ? mid >= stop : mid <= stop;
+    return isStop ? mid <= stop : mid >= stop;
+  };
+
+  const trailingHit = (o) => {
+    const mid = state.markets[o.symbol].mid;
+    const activation = parseFloat(o.activatePrice || '0');
+    if (o.trailExtreme === undefined) {
+      if (activation && (o.side === 'SELL' ? mid < activation : mid > activation)) return false;
+      o.trailExtreme = mid;
+    }
+    const rate = parseFloat(o.priceRate) / 100;
+    if (o.side === 'SELL') {
+      o.trailExtreme = Math.max(o.trailExtreme, mid);
+      return mid <= o.trailExtreme * (1 - rate);
+    }
+    o.trailExtreme = Math.min(o.trailExtreme, mid);
+    return mid >= o.trailExtreme * (1 + rate);
+  };
+
+  /**
+   * `taker` is true on arrival (and right after a stop-limit triggers), when
+   * a crossing limit takes liquidity instead of resting.
+   */
+  const evaluate = (o, taker) => {
+    switch (o.type) {
+      case 'MARKET':
+        return takeLiquidity(o);
+      case 'STOP_MARKET':
+      case 'TAKE_PROFIT_MARKET':
+        return triggered(o) && takeLiquidity(o);
+      case 'TRAILING_STOP_MARKET':
+        return trailingHit(o) && takeLiquidity(o);
+      case 'STOP':
+      case 'TAKE_PROFIT':
+        if (!o.fired) {
+          if (!triggered(o)) return;
+          o.fired = true;
+          taker = true;
+        }
+        break;
+    }
+    if (!crosses(o)) return;
+    if (taker) {
+      takeLiquidity(o);
+    } else {
+      fillOrder(o, parseFloat(o.price), true);
+    }
+  };
+
+  const matchResting = (m) => {
+    for (const o of state.orders.values()) {
+      if (o.symbol === m.symbol && isOpen(o)) evaluate(o, false);
+    }
+  };
+
+  const findOrder = (params) => {
+    const m = marketFor(params.symbol);
+    if (!params.orderId && !params.origClientOrderId) {
+      throw new ApiError(400, -1102, "Param 'origClientOrderId' or 'orderId' must be sent, but both were empty/null!");
+    }
+    for (const o of state.orders.values()) {
+      if (o.symbol !== m.symbol) continue;
+      if (params.orderId ? o.orderId === Number(params.orderId) : o.clientOrderId === params.origClientOrderId) return o;
+    }
+    return null;
+  };
+
+  // JSON array parameter of batchOrders / orderIdList / origClientOrderIdList
+  const parseList = (params, name, max) => {
+    if (!params[name]) throw missing(name);
+    let list;
+    try {
+      list = JSON.parse(params[name]);
+    } catch {
+      list = null;
+    }
+    if (!Array.isArray(list) || list.length === 0) throw new ApiError(400, -1130, `Data sent for parameter '${name}' is not valid.`);
+    if (list.length > max) throw new ApiError(400, -1130, `Data sent for parameter '${name}' is not valid (max ${max}).`);
+    return list;
+  };
+
+  // Batch entries succeed or fail independently, each failure as { code, msg }
+  const eachOf = (items, run) => items.map(item => {
+    try {
+      return run(item);
+    } catch (e) {
+      if (!(e instanceof ApiError)) throw e;
+      return { code: e.code, msg: e.message };
+    }
+  });
+
+  const placeOrder = (params) => {
+    const m = marketFor(params.symbol);
+    if (params.side !== 'BUY' && params.side !== 'SELL') throw missing('side');
+    if (!ORDER_TYPES.includes(params.type)) throw new ApiError(400, -1116, 'Invalid orderType.');
+    if (params.positionSide && params.positionSide !== 'BOTH') {
+      throw new ApiError(400, -4061, "Order's position side does not match user's setting.");
+    }
+
+    const closePosition = params.closePosition === 'true';
+    if (!closePosition && !(parseFloat(params.quantity) > 0)) {
+      throw new ApiError(400, -4003, 'Quantity less than or equal to zero.');
+    }
+    const needsPrice = ['LIMIT', 'STOP', 'TAKE_PROFIT'].includes(params.type);
+    if (needsPrice && !params.price) throw missing('price');
+    if (needsPrice && !params.timeInForce) throw missing('timeInForce');
+    if (['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET'].includes(params.type) && !params.stopPrice) {
+      throw missing('stopPrice');
+    }
+    if (params.type === 'TRAILING_STOP_MARKET' && !params.callbackRate) throw missing('callbackRate');
+
+    const clientOrderId = params.newClientOrderId || `fake_${randomBytes(8).toString('hex')}`;
+    for (const o of state.orders.values()) {
+      if (isOpen(o) && o.clientOrderId === clientOrderId) {
+        throw new ApiError(400, -4116, 'ClientOrderId is duplicated.');
+      }
+    }
+
+    const now = serverTime();
+    const o = {
+      orderId: nextOrderId++,
+      symbol: m.symbol,
+      status: 'NEW',
+      clientOrderId,
+      price: needsPrice ? params.price : '0',
+      avgPrice: '0.00000',
+      origQty: closePosition ? '0' : params.quantity,
+      executedQty: '0',
+      cumQuote: '0',
+      timeInForce: needsPrice ? params.timeInForce : 'GTC',
+      type: params.type,
+      reduceOnly: params.reduceOnly === 'true' || closePosition,
+      closePosition,
+      side: params.side,
+      positionSide: 'BOTH',
+      stopPrice: params.stopPrice || '0',
+      workingType: params.workingType || 'CONTRACT_PRICE',
+      priceProtect: params.priceProtect === 'TRUE' || params.priceProtect === 'true',
+      origType: params.type,
+      activatePrice: params.activationPrice,
+      priceRate: params.callbackRate,
+      time: now,
+      updateTime: now
+    };
+
+    if (['STOP', 'STOP_MARKET', 'TAKE_PROFIT', 'TAKE_PROFIT_MARKET'].includes(o.type) && triggered(o)) {
+      throw new ApiError(400, -2021, 'Order would immediately trigger.');
+    }
+    if (o.type === 'LIMIT') {
+      const crossing = crosses(o);
+      if ((o.timeInForce === 'GTX' && crossing) || ((o.timeInForce === 'IOC' || o.timeInForce === 'FOK') && !crossing)) {
+        o.status = 'EXPIRED';
+      }
+    }
+    if (!o.reduceOnly && o.status === 'NEW') {
+      const notional = parseFloat(o.origQty) * (parseFloat(o.price) || m.mid);
+      if (notional / leverageOf(m.symbol) > accountTotals().available) {
+        throw new ApiError(400, -2019, 'Margin is insufficient.');
+      }
+    }
+
+    state.orders.set(o.orderId, o);
+    const response = toOrderResponse(o);
+    orderTradeUpdate(o, o.status === 'EXPIRED' ? 'EXPIRED' : 'NEW');
+    // Like the exchange, the REST ack goes out before any fill event
+    if (o.status === 'NEW') setImmediate(() => isOpen(o) && evaluate(o, true));
+    return response;
+  };
+
+  const cancelOrder = (o) => {
+    if (!o || !isOpen(o)) throw new ApiError(400, -2011, 'Unknown order sent.');
+    o.status = 'CANCELED';
+    o.updateTime = serverTime();
+    orderTradeUpdate(o, 'CANCELED');
+    return toOrderResponse(o);
+  };
+
+  const amendOrder = (params) => {
+    const o = findOrder(params);
+    if (!o || !isOpen(o)) throw new ApiError(400, -2013, 'Order does not exist.');
+    if (o.type !== 'LIMIT') throw new ApiError(400, -4203, 'Only limit order is supported.');
+    if (params.side && params.side !== o.side) throw new ApiError(400, -4199, 'Side does not match.');
+    if (!params.quantity) throw missing('quantity');
+    if (!params.price) throw missing('price');
+    if (parseFloat(params.quantity) <= parseFloat(o.executedQty)) {
+      throw new ApiError(400, -4003, 'Quantity less than or equal to zero.');
+    }
+    o.price = params.price;
+    o.origQty = params.quantity;
+    o.updateTime = serverTime();
+    orderTradeUpdate(o, 'AMENDMENT');
+    setImmediate(() => isOpen(o) && evaluate(o, true));
+    return toOrderResponse(o);
+  };
+
+  // Request handling
+
+  const timeoutError = () => new ApiError(503, -1007, 'Timeout waiting for response from backend server. Send status unknown; execution status unknown.');
+
+  // How many orders a request counts against the order rate limits
+  const ordersIn = (method, path, params) => {
+    if (method !== 'POST') return 0;
+    if (path === '/fapi/v1/order') return 1;
+    if (path !== '/fapi/v1/batchOrders') return 0;
+    try {
+      const list = JSON.parse(params.batchOrders);
+      return Array.isArray(list) ? list.length : 0;
+    } catch {
+      return 0;
+    }
+  };
+
+  const weightOf = (path, params) => {
+    if (path === '/fapi/v1/batchOrders') return 5;
+    if (path === '/fapi/v1/depth') return Number(params.limit || 500) > 500 ? 20 : 10;
+    if (path === '/fapi/v1/klines') {
+      const limit = Number(params.limit || 500);
+      return limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
+    }
+    if (path === '/fapi/v1/exchangeInfo' || path === '/fapi/v2/account' || path === '/fapi/v2/positionRisk') return 5;
+    if (path === '/fapi/v1/openOrders' && !params.symbol) return 40;
+    return 1;
+  };
+
+  // HMAC signatures are hex; Ed25519 and RSA (PKCS#1 v1.5, SHA-256) signatures are base64
+  const signatureValid = (apiKey, payload, signature) => {
+    const publicKey = publicKeys.get(apiKey);
+    if (!publicKey) {
+      const expected = createHmac('sha256', options.apiSecret).update(payload).digest('hex');
+      const given = Buffer.from(signature.toLowerCase());
+      return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
+    }
+    const algorithm = publicKey.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+    try {
+      return verify(algorithm, Buffer.from(payload), publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  };
+
+  const authenticate = (req, security, rawQuery, rawBody) => {
+    if (security === 'NONE') return;
+
+    const apiKey = req.headers['x-mbx-apikey'];
+    if (!apiKey) throw new ApiError(401, -2014, 'API-key format invalid.');
+    if (apiKey !== options.apiKey && !publicKeys.has(apiKey)) {
+      throw new ApiError(401, -2015, 'Invalid API-key, IP, or permissions for action.');
+    }
+    if (security === 'USER_STREAM') return;
+
+    const query = parseParams(rawQuery);
+    const body = parseParams(rawBody);
+    const signature = query.signature || body.signature;
+    if (!signature) throw missing('signature');
+
+    // Binance signs totalParams = query string concatenated with the body
+    if (!signatureValid(apiKey, query.unsigned + body.unsigned, signature)) {
+      throw new ApiError(400, -1022, 'Signature for this request is not valid.');
+    }
+
+    const params = { ...query.params, ...body.params };
+    if (!params.timestamp) throw missing('timestamp');
+    const recvWindow = params.recvWindow ? Number(params.recvWindow) : DEFAULT_RECV_WINDOW;
+    if (!(recvWindow > 0) || recvWindow > MAX_RECV_WINDOW) {
+      throw new ApiError(400, -1131, 'recvWindow must be less than 60000');
+    }
+    const timestamp = Number(params.timestamp);
+    const now = serverTime();
+    if (timestamp >= now + 1000 || now - timestamp > recvWindow) {
+      throw new ApiError(400, -1021, 'Timestamp for this request is outside of the recvWindow.');
+    }
+  };
+
+  const positionRisk = () => Object.keys(state.markets).map(symbol => {
+    const p = positionOf(symbol);
+    const m = state.markets[symbol];
+    const leverage = leverageOf(symbol);
+    const direction = p.amount > 0 ? 1 : -1;
+    return {
+      symbol,
+      positionAmt: p.amount.toString(),
+      entryPrice: p.entryPrice.toString(),
+      markPrice: roundTo(m.mid, m.tickSize),
+      unRealizedProfit: fmt(unrealizedOf(symbol)),
+      liquidationPrice: p.amount === 0 ? '0' : fmt(Math.max(0, p.entryPrice * (1 - direction / leverage + direction * MAINT_MARGIN_RATE)), 2),
+      leverage: leverage.toString(),
+      marginType: state.marginType[symbol] === 'ISOLATED' ? 'isolated' : 'cross',
+      isolatedWallet: '0',
+      positionSide: 'BOTH',
+      updateTime: p.updateTime
+    };
+  });
+
+  const account = () => {
+    const t = accountTotals();
+    return {
+      totalInitialMargin: fmt(t.initialMargin),
+      totalMaintMargin: fmt(t.maintMargin),
+      totalWalletBalance: fmt(state.walletBalance),
+      totalUnrealizedProfit: fmt(t.unrealized),
+      totalMarginBalance: fmt(t.marginBalance),
+      availableBalance: fmt(t.available),
+      maxWithdrawAmount: fmt(Math.min(t.available, state.walletBalance)),
+      assets: [{
+        asset: 'USDT',
+        walletBalance: fmt(state.walletBalance),
+        unrealizedProfit: fmt(t.unrealized),
+        availableBalance: fmt(t.available)
+      }],
+      positions: Object.keys(state.markets).map(symbol => ({
+        symbol,
+        leverage: leverageOf(symbol).toString(),
+        isolated: state.marginType[symbol] === 'ISOLATED',
+        positionSide: 'BOTH'
+      }))
+    };
+  };
+
+  const newListenKey = () => {
+    // Binance hands back the same key while it is still valid
+    for (const [key, expiresAt] of state.listenKeys) {
+      if (expiresAt > Date.now()) {
+        state.listenKeys.set(key, Date.now() + options.listenKeyTtlMs);
+        return key;
+      }
+    }
+    const key = randomBytes(32).toString('hex');
+    state.listenKeys.set(key, Date.now() + options.listenKeyTtlMs);
+    return key;
+  };
+
+  const requireListenKey = () => {
+    const key = Array.from(state.listenKeys.keys()).find(k => state.listenKeys.get(k) > Date.now());
+    if (!key) throw new ApiError(400, -1125, 'This listenKey does not exist.');
+    return key;
+  };
+
+  const routes = {
+    'GET /fapi/v1/ping': ['NONE', () => ({})],
+    'GET /fapi/v1/time': ['NONE', () => ({ serverTime: serverTime() })],
+    'GET /fapi/v1/exchangeInfo': ['NONE', () => ({
+      timezone: 'UTC',
+      serverTime: serverTime(),
+      symbols: Object.entries(state.markets).map(([symbol, m]) => symbolInfo(symbol, m))
+    })],
+    'GET /fapi/v1/depth': ['NONE', (p) => {
+      const m = marketFor(p.symbol);
+      const limit = Number(p.limit || 500);
+      return {
+        lastUpdateId: m.updateId,
+        E: serverTime(),
+        T: serverTime(),
+        bids: Array.from(m.bids.entries()).slice(0, limit),
+        asks: Array.from(m.asks.entries()).slice(0, limit)
+      };
+    }],
+    'GET /fapi/v1/klines': ['NONE', (p) => {
+      const m = marketFor(p.symbol);
+      if (!p.interval) throw missing('interval');
+      if (!KLINE_INTERVALS[p.interval]) throw new ApiError(400, -1120, 'Invalid interval.');
+      const limit = Math.min(Number(p.limit || 500), MAX_KLINES);
+      const candles = [...klineHistory(m, p.interval), currentCandle(m, p.interval, Date.now())];
+      const endTime = p.endTime ? Number(p.endTime) : Infinity;
+      return candles.filter(c => c.openTime <= endTime).slice(-limit).map(c => klineRow(m, p.interval, c));
+    }],
+    'GET /fapi/v1/ticker/bookTicker': ['NONE', (p) => {
+      const markets = p.symbol ? [marketFor(p.symbol)] : Object.values(state.markets);
+      const tickers = markets.map(m => ({ symbol: m.symbol, ...topOfBook(m), time: serverTime() }));
+      return p.symbol ? tickers[0] : tickers;
+    }],
+    'POST /fapi/v1/listenKey': ['USER_STREAM', () => ({ listenKey: newListenKey() })],
+    'PUT /fapi/v1/listenKey': ['USER_STREAM', () => {
+      state.listenKeys.set(requireListenKey(), Date.now() + options.listenKeyTtlMs);
+      return {};
+    }],
+    'DELETE /fapi/v1/listenKey': ['USER_STREAM', () => {
+      state.listenKeys.delete(requireListenKey());
+      return {};
+    }],
+    'POST /fapi/v1/order': ['SIGNED', placeOrder],
+    'GET /fapi/v1/order': ['SIGNED', (p) => {
+      const o = findOrder(p);
+      if (!o) throw new ApiError(400, -2013, 'Order does not exist.');
+      return toOrderResponse(o);
+    }],
+    'DELETE /fapi/v1/order': ['SIGNED', (p) => cancelOrder(findOrder(p))],
+    'PUT /fapi/v1/order': ['SIGNED', amendOrder],
+    'POST /fapi/v1/batchOrders': ['SIGNED', (p) => {
+      const orders = parseList(p, 'batchOrders', MAX_BATCH_ORDERS);
+      // Binance takes the values as strings or numbers alike
+      return eachOf(orders, (o) => placeOrder(Object.fromEntries(Object.entries(o).map(([k, v]) => [k, String(v)]))));
+    }],
+    'DELETE /fapi/v1/batchOrders': ['SIGNED', (p) => {
+      const ids = p.orderIdList
+        ? parseList(p, 'orderIdList', MAX_BATCH_CANCELS).map(id => ({ orderId: String(id) }))
+        : parseList(p, 'origClientOrderIdList', MAX_BATCH_CANCELS).map(id => ({ origClientOrderId: String(id) }));
+      return eachOf(ids, (id) => cancelOrder(findOrder({ symbol: p.symbol, ...id })));
+    }],
+    'GET /fapi/v1/openOrders': ['SIGNED', (p) => {
+      const symbol = p.symbol ? marketFor(p.symbol).symbol : null;
+      return Array.from(state.orders.values())
+        .filter(o => isOpen(o) && (!symbol || o.symbol === symbol))
+        .map(o => toOrderResponse(o));
+    }],
+    'DELETE /fapi/v1/allOpenOrders': ['SIGNED', (p) => {
+      const m = marketFor(p.symbol);
+      for (const o of state.orders.values()) {
+        if (o.symbol === m.symbol && isOpen(o)) cancelOrder(o);
+      }
+      return { code: 200, msg: 'The operation of cancel all open order is done.' };
+    }],
+    'GET /fapi/v2/positionRisk': ['SIGNED', positionRisk],
+    'GET /fapi/v2/account': ['SIGNED', account],
+    'GET /fapi/v2/balance': ['SIGNED', () => {
+      const t = accountTotals();
+      return [{
+        accountAlias: 'fake',
+        asset: 'USDT',
+        balance: fmt(state.walletBalance),
+        crossWalletBalance: fmt(state.walletBalance),
+        crossUnPnl: fmt(t.unrealized),
+        availableBalance: fmt(t.available),
+        maxWithdrawAmount: fmt(Math.min(t.available, state.walletBalance)),
+        updateTime: serverTime()
+      }];
+    }],
+    'GET /fapi/v1/positionSide/dual': ['SIGNED', () => ({ dualSidePosition: false })],
+    'POST /fapi/v1/leverage': ['SIGNED', (p) => {
+      const m = marketFor(p.symbol);
+      const leverage = Number(p.leverage);
+      if (!Number.isInteger(leverage) || leverage < 1 || leverage > 125) {
+        throw new ApiError(400, -4028, `Leverage ${p.leverage} is not valid`);
+      }
+      state.leverage[m.symbol] = leverage;
+      return { symbol: m.symbol, leverage, maxNotionalValue: '1000000' };
+    }],
+    'POST /fapi/v1/marginType': ['SIGNED', (p) => {
+      const m = marketFor(p.symbol);
+      if (p.marginType !== 'ISOLATED' && p.marginType !== 'CROSSED') throw missing('marginType');
+      if ((state.marginType[m.symbol] || 'CROSSED') === p.marginType) {
+        throw new ApiError(400, -4046, 'No need to change margin type.');
+      }
+      state.marginType[m.symbol] = p.marginType;
+      return { code: 200, msg: 'success' };
+    }],
+    // Test controls, not part of the Binance API
+    'POST /_fake/price': ['NONE', (p) => {
+      const m = marketFor(p.symbol);
+      if (!(parseFloat(p.price) > 0)) throw missing('price');
+      movePrice(m, parseFloat(p.price));
+      return { symbol: m.symbol, ...topOfBook(m) };
+    }],
+    'POST /_fake/reset': ['NONE', () => {
+      reset();
+      faults = [];
+      return {};
+    }],
+    // Makes the next `count` matching requests fail with 503 -1007, either
+    // before running (mode=before) or after running (mode=after, the default)
+    'POST /_fake/fault': ['NONE', (p) => {
+      if (!p.path) throw new ApiError(400, -1102, "Mandatory parameter 'path' was not sent, was empty/null, or malformed.");
+      faults.push({ method: (p.method || 'POST').toUpperCase(), path: p.path, mode: p.mode || 'after', remaining: Number(p.count || 1) });
+      return { faults: faults.length };
+    }],
+    // action=drop closes every open stream socket, as Binance does after 24h;
+    // action=stall keeps them open but silent, like a half-dead connection
+    'POST /_fake/streams': ['NONE', (p) => {
+      const clients = [...streamClients, ...userClients];
+      if (p.action === 'drop') {
+        for (const client of clients) client.connection.close(1001);
+      } else if (p.action === 'stall') {
+        for (const client of clients) client.stalled = true;
+      } else {
+        throw new ApiError(400, -1102, "Parameter 'action' must be drop or stall.");
+      }
+      return { sockets: clients.length };
+    }]
+  };
+
+  const send = (res, status, body, extraHeaders = {}) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Headers': 'Content-Type, X-MBX-APIKEY',
+      'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+      'Access-Control-Expose-Headers': 'X-MBX-USED-WEIGHT-1M, X-MBX-ORDER-COUNT-10S, X-MBX-ORDER-COUNT-1M, Retry-After',
+      ...extraHeaders
+    });
+    res.end(body === undefined ? '' : JSON.stringify(body));
+  };
+
+  const handleRequest = (req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const rawQuery = url.search.slice(1);
+      const rawBody = Buffer.concat(chunks).toString('utf8');
+
+      if (req.method === 'OPTIONS') return send(res, 204);
+
+      const route = routes[`${req.method} ${url.pathname}`];
+      if (!route) return send(res, 404, { code: -1000, msg: `Unknown endpoint ${req.method} ${url.pathname}` });
+
+      const [security, handler] = route;
+      const params = { ...parseParams(rawQuery).params, ...parseParams(rawBody).params };
+
+      const minute = Math.floor(Date.now() / 60000);
+      if (weight.minute !== minute) weight = { minute, used: 0 };
+      weight.used += weightOf(url.pathname, params);
+      const headers = { 'X-MBX-USED-WEIGHT-1M': weight.used.toString() };
+      const placed = ordersIn(req.method, url.pathname, params);
+      if (placed > 0) {
+        const tenSeconds = Math.floor(Date.now() / 10000);
+        if (orderCount.tenSeconds !== tenSeconds) orderCount = { ...orderCount, tenSeconds, count10s: 0 };
+        if (orderCount.minute !== minute) orderCount = { ...orderCount, minute, count1m: 0 };
+        orderCount.count10s += placed;
+        orderCount.count1m += placed;
+        headers['X-MBX-ORDER-COUNT-10S'] = orderCount.count10s.toString();
+        headers['X-MBX-ORDER-COUNT-1M'] = orderCount.count1m.toString();
+      }
+
+      try {
+        authenticate(req, security, rawQuery, rawBody);
+        const fault = faults.find(f => f.method === req.method && f.path === url.pathname);
+        if (fault && --fault.remaining <= 0) faults = faults.filter(f => f !== fault);
+        if (fault?.mode === 'before') throw timeoutError();
+        const result = handler(params);
+        if (fault) throw timeoutError();
+        log(req.method, url.pathname, 200);
+        send(res, 200, result, headers);
+      } catch (e) {
+        if (!(e instanceof ApiError)) {
+          console.error('[fake-binance]', e);
+          return send(res, 500, { code: -1000, msg: 'An unknown error occurred while processing the request.' }, headers);
+        }
+        log(req.method, url.pathname, e.status, e.code, e.message);
+        send(res, e.status, { code: e.code, msg: e.message }, headers);
+      }
+    });
+  };
+
+  const handleUpgrade = (req, socket) => {
+    const url = new URL(req.url, 'http://localhost');
+    let streams = [];
+    let combined = false;
+
+    if (url.pathname.startsWith('/ws/')) {
+      streams = url.pathname.slice(4).split('/').filter(Boolean);
+    } else if (url.pathname === '/stream') {
+      streams = (url.searchParams.get('streams') || '').split('/').filter(Boolean);
+      combined = true;
+    } else if (url.pathname !== '/ws') {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    const connection = acceptWebSocket(req, socket);
+    if (!connection) return;
+
+    // A raw stream named after a live listenKey is that user's data stream
+    const listenKey = !combined && streams.length === 1 && state.listenKeys.has(streams[0]) ? streams[0] : null;
+    if (listenKey) {
+      const client = { connection, listenKey };
+      userClients.add(client);
+      connection.onMessage = (text) => handleStreamRequest(client, text);
+      connection.onClose = () => userClients.delete(client);
+      log('user data stream connected');
+      return;
+    }
+
+    const client = { connection, streams: new Set(streams.map(s => s.toLowerCase())), combined };
+    streamClients.add(client);
+    connection.onMessage = (text) => handleStreamRequest(client, text);
+    connection.onClose = () => streamClients.delete(client);
+    log('stream connected', streams.join(','));
+  };
+
+  // Live subscription changes: SUBSCRIBE / UNSUBSCRIBE / LIST_SUBSCRIPTIONS.
+  // A user data socket only answers LIST_SUBSCRIPTIONS (with its listenKey).
+  const handleStreamRequest = (client, text) => {
+    if (client.stalled) return;
+    let request;
+    try {
+      request = JSON.parse(text);
+    } catch (e) {
+      client.connection.send(JSON.stringify({ code: 3, msg: `Invalid JSON: ${e.message}` }));
+      return;
+    }
+    const { method, params = [], id = null } = request;
+    const reply = (body) => client.connection.send(JSON.stringify({ ...body, id }));
+
+    if (!Array.isArray(params) || params.some(p => typeof p !== 'string')) {
+      reply({ code: 2, msg: 'Invalid request: params must be an array of stream names' });
+      return;
+    }
+    if (client.listenKey) {
+      reply(method === 'LIST_SUBSCRIPTIONS' ? { result: [client.listenKey] } : { code: 2, msg: `Invalid request: ${method} is not supported on a user data stream` });
+      return;
+    }
+    switch (method) {
+      case 'SUBSCRIBE':
+        for (const stream of params) client.streams.add(stream.toLowerCase());
+        log('stream subscribe', params.join(','));
+        reply({ result: null });
+        break;
+      case 'UNSUBSCRIBE':
+        for (const stream of params) client.streams.delete(stream.toLowerCase());
+        log('stream unsubscribe', params.join(','));
+        reply({ result: null });
+        break;
+      case 'LIST_SUBSCRIPTIONS':
+        reply({ result: Array.from(client.streams) });
+        break;
+      default:
+        reply({ code: 2, msg: `Invalid request: unknown method ${method}` });
+    }
+  };
+
+  // Expire listenKeys the way Binance does: event, then the socket closes
+  const expireListenKeys = () => {
+    const now = Date.now();
+    for (const [key, expiresAt] of state.listenKeys) {
+      if (expiresAt > now) continue;
+      state.listenKeys.delete(key);
+      for (const client of userClients) {
+        if (client.listenKey !== key) continue;
+        client.connection.send(JSON.stringify({ e: 'listenKeyExpired', E: serverTime(), listenKey: key }));
+        client.connection.close();
+      }
+    }
+  };
+
+  reset();
+  const server = createServer(handleRequest);
+  server.on('upgrade', handleUpgrade);
+  let expiryTimer = null;
+
+  return {
+    server,
+    options,
+    listen: (port = options.port) => new Promise((resolve) => {
+      server.listen(port, () => {
+        if (options.tickIntervalMs > 0) tickTimer = setInterval(tick, options.tickIntervalMs);
+        expiryTimer = setInterval(expireListenKeys, 1000);
+        resolve(server.address().port);
+      });
+    }),
+    close: () => new Promise((resolve) => {
+      if (tickTimer) clearInterval(tickTimer);
+      if (expiryTimer) clearInterval(expiryTimer);
+      for (const client of [...streamClients, ...userClients]) client.connection.close(1001);
+      server.close(() => resolve());
+    }),
+    setPrice: (symbol, price) => movePrice(marketFor(symbol), price),
+    reset
+  };
+};
+
+// Run directly: `node server/fakeBinance.mjs`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const fake = createFakeBinance({
+    port: Number(process.env.PORT || DEFAULT_OPTIONS.port),
+    apiKey: process.env.FAKE_API_KEY || DEFAULT_OPTIONS.apiKey,
+    apiSecret: process.env.FAKE_API_SECRET || DEFAULT_OPTIONS.apiSecret,
+    publicKeys: process.env.FAKE_PUBLIC_KEY_FILE
+      ? { [process.env.FAKE_PUBLIC_API_KEY || 'fake-signing-key']: readFileSync(process.env.FAKE_PUBLIC_KEY_FILE, 'utf8') }
+      : {},
+    clockOffsetMs: Number(process.env.FAKE_CLOCK_OFFSET_MS || 0),
+    listenKeyTtlMs: Number(process.env.FAKE_LISTEN_KEY_TTL_MS || DEFAULT_OPTIONS.listenKeyTtlMs),
+    log: true
+  });
+  fake.listen().then((port) => {
+    console.log(`[fake-binance] REST http://localhost:${port}  streams ws://localhost:${port}`);
+    console.log(`[fake-binance] API key "${fake.options.apiKey}", secret "${fake.options.apiSecret}"`);
+    for (const apiKey of Object.keys(fake.options.publicKeys)) {
+      console.log(`[fake-binance] API key "${apiKey}" verified with the public key in ${process.env.FAKE_PUBLIC_KEY_FILE}`);
+    }
+  });
+}
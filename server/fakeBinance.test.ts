@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { createFakeBinance } from './fakeBinance.mjs';
+import { createSigner } from '../utils/signing';
+import { KeyType } from '../types';
+
+const keyPair = (type: 'ed25519' | 'rsa') => {
+  const { privateKey, publicKey } = type === 'rsa'
+    ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+    : generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+    publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString()
+  };
+};
+
+const ed25519 = keyPair('ed25519');
+const rsa = keyPair('rsa');
+const fake = createFakeBinance({
+  tickIntervalMs: 0,
+  publicKeys: { 'ed25519-key': ed25519.publicKey, 'rsa-key': rsa.publicKey }
+});
+let baseUrl = '';
+
+beforeAll(async () => {
+  vi.stubGlobal('window', globalThis);
+  baseUrl = `http://127.0.0.1:${await fake.listen(0)}`;
+});
+
+afterAll(() => fake.close());
+
+const getBalance = async (apiKey: string, keyType: KeyType, secret: string) => {
+  const query = `timestamp=${Date.now()}`;
+  const signature = await createSigner(keyType, secret).sign(query);
+  const response = await fetch(`${baseUrl}/fapi/v2/balance?${query}&signature=${encodeURIComponent(signature)}`, {
+    headers: { 'X-MBX-APIKEY': apiKey }
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+describe('fake exchange signature checks', () => {
+  it('accepts HMAC, Ed25519 and RSA signatures from their registered keys', async () => {
+    expect((await getBalance('fake-api-key', 'HMAC', 'fake-api-secret')).status).toBe(200);
+    expect((await getBalance('ed25519-key', 'ED25519', ed25519.privateKey)).status).toBe(200);
+    expect((await getBalance('rsa-key', 'RSA', rsa.privateKey)).status).toBe(200);
+  });
+
+  it('rejects a signature made with another key', async () => {
+    const { status, body } = await getBalance('ed25519-key', 'RSA', rsa.privateKey);
+    expect(status).toBe(400);
+    expect(body.code).toBe(-1022);
+  });
+});
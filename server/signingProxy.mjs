@@ -0,0 +1,305 @@
+import { createServer } from 'node:http';
+import { createHmac, createPrivateKey, sign } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { pathToFileURL } from 'node:url';
+import { acceptWebSocket, connectWebSocket } from './websocket.mjs';
+
+/**
+ * Local signing proxy for Live Mode. The API key and secret live here, in the
+ * proxy's environment, instead of in the browser:
+ *
+ * - REST calls under /fapi/ are forwarded to the upstream host. Signed
+ *   endpoints get signature and X-MBX-APIKEY added (and timestamp /
+ *   recvWindow when the app did not send its exchange-synced ones);
+ *   listenKey calls get only the key; market data passes through untouched.
+ * - WebSocket connections on /ws/... and /stream?streams=... are relayed to
+ *   the upstream stream host, frames passed through both ways.
+ *
+ * Responses carry CORS headers for the allowed origins only (the Vite dev
+ * server by default), so no browser extension is needed and other sites
+ * cannot drive the account. Requests whose Host header is not this proxy's
+ * own address are refused, which stops DNS rebinding. It listens on
+ * 127.0.0.1 unless told otherwise.
+ *
+ * HMAC, Ed25519 and RSA keys are supported (BINANCE_KEY_TYPE); for the
+ * latter two the private key is read from a PEM file.
+ *
+ *   BINANCE_API_KEY=... BINANCE_API_SECRET=... npm run proxy
+ *   BINANCE_API_KEY=... BINANCE_KEY_TYPE=ED25519 BINANCE_PRIVATE_KEY_FILE=./key.pem npm run proxy
+ *   then select the "Local Signing Proxy" environment in the app settings.
+ */
+
+const DEFAULT_OPTIONS = {
+  port: 4020,
+  host: '127.0.0.1',
+  upstreamUrl: 'https://testnet.binancefuture.com',
+  upstreamStreamUrl: 'wss://stream.binancefuture.com',
+  apiKey: '',
+  apiSecret: '',      // HMAC secret, or a PEM private key for ED25519 / RSA
+  keyType: 'HMAC',
+  recvWindow: 5000,
+  allowedOrigins: ['http://localhost:3000', 'http://127.0.0.1:3000'],
+  log: false
+};
+
+// Market data: forwarded as-is
+const PUBLIC_ENDPOINT = /^\/fapi\/v1\/(ping|time|exchangeInfo|depth|trades|aggTrades|klines|continuousKlines|indexPriceKlines|markPriceKlines|premiumIndex|fundingRate|openInterest|ticker\/[A-Za-z]+)$/;
+// USER_STREAM / MARKET_DATA endpoints: API key header, no signature
+const KEY_ONLY_ENDPOINT = /^\/fapi\/v1\/(listenKey|historicalTrades)$/;
+
+// Upstream headers worth passing back (rate-limit accounting)
+const FORWARDED_HEADERS = ['content-type', 'retry-after'];
+const FORWARDED_HEADER_PREFIX = 'x-mbx-';
+
+class ApiError extends Error {
+  constructor(status, code, msg) {
+    super(msg);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const trimSlash = (url) => url.replace(/\/+$/, '');
+
+/**
+ * Returns payload => signature for the key type: hex HMAC-SHA256, or base64
+ * Ed25519 / RSASSA-PKCS1-v1_5 SHA-256 (URL-encoded, as it goes in a query).
+ */
+const createSigner = (keyType, secret) => {
+  if (keyType === 'HMAC') {
+    return (payload) => createHmac('sha256', secret).update(payload).digest('hex');
+  }
+  if (keyType !== 'ED25519' && keyType !== 'RSA') {
+    throw new Error(`Unsupported key type ${keyType}; use HMAC, ED25519 or RSA`);
+  }
+  const key = createPrivateKey(secret);
+  const algorithm = keyType === 'ED25519' ? null : 'sha256';
+  return (payload) => encodeURIComponent(sign(algorithm, Buffer.from(payload), key).toString('base64'));
+};
+
+/**
+ * Drops any signature from a raw query/body string, keeping the rest
+ * byte-for-byte.
+ */
+const stripSigning = (raw) => raw
+  .split('&')
+  .filter(part => part && !part.startsWith('signature='))
+  .join('&');
+
+const hasParam = (raw, name) => new RegExp(`(^|&)${name}=`).test(raw);
+
+export const createSigningProxy = (overrides = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const upstreamUrl = trimSlash(options.upstreamUrl);
+  const upstreamStreamUrl = trimSlash(options.upstreamStreamUrl);
+  const hasCredentials = !!(options.apiKey && options.apiSecret);
+  const signPayload = hasCredentials ? createSigner(options.keyType, options.apiSecret) : null;
+  const log = (...args) => options.log && console.log('[signing-proxy]', ...args);
+
+  const relays = new Set(); // { client, upstream }
+
+  // Requests without an Origin header are allowed on purpose: browsers send
+  // one on every cross-origin request, so its absence means curl, a script or
+  // the app's own same-origin page, none of which CORS is meant to stop
+  const isAllowedOrigin = (origin) => !origin || options.allowedOrigins.includes(origin);
+
+  // A DNS-rebound page reaches us under its own hostname with no Origin
+  // header (it looks same-origin to the browser), so the Host header must
+  // name this proxy: 127.0.0.1, localhost or the configured listen address
+  const isAllowedHost = (host) => {
+    const port = server.address()?.port;
+    const names = ['127.0.0.1', 'localhost'];
+    if (!['0.0.0.0', '::'].includes(options.host)) names.push(options.host);
+    return !!host && names.some(name => host.toLowerCase() === `${name}:${port}`);
+  };
+
+  const corsHeaders = (origin) => origin ? {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Expose-Headers': 'X-MBX-USED-WEIGHT-1M, X-MBX-ORDER-COUNT-10S, X-MBX-ORDER-COUNT-1M, Retry-After',
+    Vary: 'Origin'
+  } : {};
+
+  const send = (res, origin, status, body, extraHeaders = {}) => {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      ...corsHeaders(origin),
+      ...extraHeaders
+    });
+    res.end(body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body));
+  };
+
+  /**
+   * Builds the upstream query string and headers for `pathname`, signing the
+   * request when the endpoint requires it. Throws ApiError when the proxy
+   * cannot serve it.
+   */
+  const prepare = (pathname, rawQuery, rawBody) => {
+    if (PUBLIC_ENDPOINT.test(pathname)) {
+      return { query: rawQuery, headers: {} };
+    }
+    if (!hasCredentials) {
+      throw new ApiError(401, -2015, 'Signing proxy has no API credentials configured (BINANCE_API_KEY / BINANCE_API_SECRET).');
+    }
+    const headers = { 'X-MBX-APIKEY': options.apiKey };
+    if (KEY_ONLY_ENDPOINT.test(pathname)) {
+      return { query: rawQuery, headers };
+    }
+
+    const params = stripSigning(rawQuery);
+    const extra = [];
+    if (!hasParam(params, 'timestamp') && !hasParam(rawBody, 'timestamp')) extra.push(`timestamp=${Date.now()}`);
+    if (!hasParam(params, 'recvWindow') && !hasParam(rawBody, 'recvWindow')) extra.push(`recvWindow=${options.recvWindow}`);
+    const query = [params, ...extra].filter(Boolean).join('&');
+    // Binance signs query string + body, concatenated as sent
+    const signature = signPayload(query + rawBody);
+    return { query: `${query}&signature=${signature}`, headers };
+  };
+
+  const forward = async (req, res, origin, url, rawBody) => {
+    let prepared;
+    try {
+      prepared = prepare(url.pathname, url.search.slice(1), rawBody);
+    } catch (e) {
+      log(req.method, url.pathname, e.status, e.code, e.message);
+      return send(res, origin, e.status, { code: e.code, msg: e.message });
+    }
+
+    try {
+      const upstream = await fetch(`${upstreamUrl}${url.pathname}${prepared.query ? `?${prepared.query}` : ''}`, {
+        method: req.method,
+        headers: {
+          ...prepared.headers,
+          ...(rawBody ? { 'Content-Type': req.headers['content-type'] || 'application/x-www-form-urlencoded' } : {})
+        },
+        body: rawBody || undefined
+      });
+
+      const headers = {};
+      upstream.headers.forEach((value, name) => {
+        if (FORWARDED_HEADERS.includes(name) || name.startsWith(FORWARDED_HEADER_PREFIX)) headers[name] = value;
+      });
+      const text = await upstream.text();
+      log(req.method, url.pathname, upstream.status);
+      send(res, origin, upstream.status, text, headers);
+    } catch (e) {
+      log(req.method, url.pathname, 502, e.message);
+      send(res, origin, 502, { code: -1000, msg: `Upstream ${upstreamUrl} unreachable: ${e.message}` });
+    }
+  };
+
+  const handleRequest = (req, res) => {
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const origin = req.headers.origin;
+      const rawBody = Buffer.concat(chunks).toString('utf8');
+
+      if (!isAllowedHost(req.headers.host)) {
+        log('rejected host', req.headers.host);
+        return send(res, undefined, 403, { code: -1000, msg: `Host ${req.headers.host} is not allowed to use this proxy.` });
+      }
+      if (!isAllowedOrigin(origin)) {
+        log('rejected origin', origin);
+        return send(res, undefined, 403, { code: -1000, msg: `Origin ${origin} is not allowed to use this proxy.` });
+      }
+      if (req.method === 'OPTIONS') return send(res, origin, 204);
+
+      if (req.method === 'GET' && url.pathname === '/_proxy/status') {
+        return send(res, origin, 200, { upstreamUrl, upstreamStreamUrl, signing: hasCredentials });
+      }
+      if (!url.pathname.startsWith('/fapi/')) {
+        return send(res, origin, 404, { code: -1000, msg: `Unknown endpoint ${req.method} ${url.pathname}` });
+      }
+
+      forward(req, res, origin, url, stripSigning(rawBody));
+    });
+  };
+
+  const handleUpgrade = (req, socket) => {
+    const url = new URL(req.url, 'http://localhost');
+    if (!isAllowedHost(req.headers.host) || !isAllowedOrigin(req.headers.origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+      return;
+    }
+    if (url.pathname !== '/ws' && !url.pathname.startsWith('/ws/') && url.pathname !== '/stream') {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      return;
+    }
+
+    const client = acceptWebSocket(req, socket);
+    if (!client) return;
+
+    // Frames from the browser (SUBSCRIBE etc.) are held until upstream is open
+    const queued = [];
+    const relay = { client, upstream: null };
+    relays.add(relay);
+    client.onMessage = (text) => relay.upstream ? relay.upstream.send(text) : queued.push(text);
+    client.onClose = () => {
+      relays.delete(relay);
+      relay.upstream?.close();
+    };
+
+    connectWebSocket(`${upstreamStreamUrl}${url.pathname}${url.search}`)
+      .then((upstream) => {
+        if (!client.isOpen) {
+          upstream.close();
+          return;
+        }
+        relay.upstream = upstream;
+        upstream.onMessage = (text) => client.send(text);
+        upstream.onClose = () => client.close();
+        queued.splice(0).forEach(text => upstream.send(text));
+        log('stream relayed', url.pathname + url.search);
+      })
+      .catch((e) => {
+        log('stream relay failed', url.pathname, e.message);
+        client.close(1011);
+      });
+  };
+
+  const server = createServer(handleRequest);
+  server.on('upgrade', handleUpgrade);
+
+  return {
+    server,
+    options,
+    listen: (port = options.port) => new Promise((resolve) => {
+      server.listen(port, options.host, () => resolve(server.address().port));
+    }),
+    close: () => new Promise((resolve) => {
+      for (const relay of relays) relay.client.close(1001);
+      server.close(() => resolve());
+    })
+  };
+};
+
+// Run directly: `node server/signingProxy.mjs`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const proxy = createSigningProxy({
+    port: Number(process.env.PROXY_PORT || DEFAULT_OPTIONS.port),
+    host: process.env.PROXY_HOST || DEFAULT_OPTIONS.host,
+    upstreamUrl: process.env.BINANCE_UPSTREAM_URL || DEFAULT_OPTIONS.upstreamUrl,
+    upstreamStreamUrl: process.env.BINANCE_UPSTREAM_STREAM_URL || DEFAULT_OPTIONS.upstreamStreamUrl,
+    apiKey: process.env.BINANCE_API_KEY || '',
+    apiSecret: process.env.BINANCE_PRIVATE_KEY_FILE
+      ? readFileSync(process.env.BINANCE_PRIVATE_KEY_FILE, 'utf8')
+      : process.env.BINANCE_API_SECRET || '',
+    keyType: (process.env.BINANCE_KEY_TYPE || DEFAULT_OPTIONS.keyType).toUpperCase(),
+    recvWindow: Number(process.env.PROXY_RECV_WINDOW || DEFAULT_OPTIONS.recvWindow),
+    allowedOrigins: process.env.PROXY_ALLOWED_ORIGINS
+      ? process.env.PROXY_ALLOWED_ORIGINS.split(',').map(o => o.trim()).filter(Boolean)
+      : DEFAULT_OPTIONS.allowedOrigins,
+    log: true
+  });
+  proxy.listen().then((port) => {
+    const { host, upstreamUrl, upstreamStreamUrl, apiKey, apiSecret } = proxy.options;
+    console.log(`[signing-proxy] REST http://${host}:${port} -> ${upstreamUrl}`);
+    console.log(`[signing-proxy] streams ws://${host}:${port} -> ${upstreamStreamUrl}`);
+    if (!apiKey || !apiSecret) {
+      console.log('[signing-proxy] BINANCE_API_KEY / BINANCE_API_SECRET (or BINANCE_PRIVATE_KEY_FILE) not set: only market data will work');
+    }
+  });
+}
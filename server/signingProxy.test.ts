@@ -0,0 +1,38 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { request } from 'node:http';
+import { createSigningProxy } from './signingProxy.mjs';
+
+const proxy = createSigningProxy({ port: 0, upstreamUrl: 'http://127.0.0.1:9', upstreamStreamUrl: 'ws://127.0.0.1:9' });
+let port = 0;
+
+beforeAll(async () => {
+  port = await proxy.listen(0);
+});
+
+afterAll(() => proxy.close());
+
+// fetch() will not set Host, so go through node:http
+const getStatus = (headers: Record<string, string>) => new Promise<number>((resolve, reject) => {
+  const req = request({ host: '127.0.0.1', port, path: '/_proxy/status', headers }, (res) => {
+    res.resume();
+    resolve(res.statusCode!);
+  });
+  req.on('error', reject);
+  req.end();
+});
+
+describe('signing proxy request checks', () => {
+  it('accepts its own host names, with or without an allowed Origin', async () => {
+    expect(await getStatus({ Host: `127.0.0.1:${port}` })).toBe(200);
+    expect(await getStatus({ Host: `localhost:${port}`, Origin: 'http://localhost:3000' })).toBe(200);
+  });
+
+  it('rejects a foreign Host, as a DNS-rebound page would send', async () => {
+    expect(await getStatus({ Host: `attacker.example:${port}` })).toBe(403);
+    expect(await getStatus({ Host: 'localhost:80' })).toBe(403);
+  });
+
+  it('rejects an Origin that is not allowed', async () => {
+    expect(await getStatus({ Host: `localhost:${port}`, Origin: 'http://attacker.example' })).toBe(403);
+  });
+});
@@ -0,0 +1,208 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+
+/**
+ * Just enough RFC 6455 to serve and consume Binance-style streams without a
+ * dependency: the upgrade handshake (both sides), unfragmented text frames,
+ * ping/pong and close.
+ */
+
+const GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+// Clients must mask every frame they send; servers must not
+const encodeFrame = (opcode, payload, masked = false) => {
+  const length = payload.length;
+  const maskBit = masked ? 0x80 : 0;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, maskBit | length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = maskBit | 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  if (!masked) return Buffer.concat([header, payload]);
+
+  const mask = randomBytes(4);
+  const body = Buffer.from(payload);
+  for (let i = 0; i < body.length; i++) body[i] ^= mask[i % 4];
+  return Buffer.concat([header, mask, body]);
+};
+
+/**
+ * Pulls complete frames off the front of `buffer`. Returns the frames and
+ * whatever partial frame is left over.
+ */
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+/**
+ * Frames an upgraded socket as a small connection object: `send(text)`,
+ * `ping()`, `close()`, plus assignable `onMessage(text)` / `onClose()`.
+ */
+const wrapSocket = (socket, masked, head = Buffer.alloc(0)) => {
+  socket.setNoDelay(true);
+
+  let pending = Buffer.alloc(0);
+  let open = true;
+
+  const write = (opcode, payload) => socket.write(encodeFrame(opcode, payload, masked));
+
+  const connection = {
+    onMessage: () => {},
+    onClose: () => {},
+    get isOpen() {
+      return open;
+    },
+    send(text) {
+      if (open) write(OPCODE_TEXT, Buffer.from(text));
+    },
+    ping() {
+      if (open) write(OPCODE_PING, Buffer.alloc(0));
+    },
+    close(code = 1000) {
+      if (!open) return;
+      const payload = Buffer.alloc(2);
+      payload.writeUInt16BE(code, 0);
+      write(OPCODE_CLOSE, payload);
+      socket.end();
+      finish();
+    }
+  };
+
+  const finish = () => {
+    if (!open) return;
+    open = false;
+    connection.onClose();
+  };
+
+  const receive = (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    for (const frame of frames) {
+      if (!open) break;
+      if (frame.opcode === OPCODE_TEXT) {
+        connection.onMessage(frame.payload.toString('utf8'));
+      } else if (frame.opcode === OPCODE_PING) {
+        write(OPCODE_PONG, frame.payload);
+      } else if (frame.opcode === OPCODE_CLOSE) {
+        connection.close();
+      }
+    }
+  };
+
+  socket.on('data', receive);
+  socket.on('close', finish);
+  socket.on('error', finish);
+  // Bytes that arrived with the handshake response; deliver once handlers are set
+  if (head.length > 0) setImmediate(() => receive(head));
+
+  return connection;
+};
+
+/**
+ * Completes the upgrade on `socket` and returns a connection (see wrapSocket).
+ * Returns null (after rejecting the request) if it is not a WebSocket upgrade.
+ */
+export const acceptWebSocket = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n'
+  ].join('\r\n'));
+
+  return wrapSocket(socket, false);
+};
+
+/**
+ * Opens a client connection to a ws:// or wss:// URL. Resolves with a
+ * connection (see wrapSocket) once the server accepts the upgrade.
+ */
+export const connectWebSocket = (url) => new Promise((resolve, reject) => {
+  const target = new URL(url);
+  const secure = target.protocol === 'wss:';
+  const key = randomBytes(16).toString('base64');
+
+  const req = (secure ? httpsRequest : httpRequest)({
+    hostname: target.hostname,
+    port: target.port || (secure ? 443 : 80),
+    path: `${target.pathname}${target.search}`,
+    headers: {
+      Connection: 'Upgrade',
+      Upgrade: 'websocket',
+      'Sec-WebSocket-Key': key,
+      'Sec-WebSocket-Version': '13'
+    }
+  });
+
+  req.on('upgrade', (res, socket, head) => {
+    const expected = createHash('sha1').update(key + GUID).digest('base64');
+    if (res.headers['sec-websocket-accept'] !== expected) {
+      socket.destroy();
+      reject(new Error(`Bad Sec-WebSocket-Accept from ${target.host}`));
+      return;
+    }
+    resolve(wrapSocket(socket, true, head));
+  });
+  req.on('response', (res) => {
+    res.resume();
+    reject(new Error(`${target.host} refused the WebSocket upgrade (${res.statusCode})`));
+  });
+  req.on('error', reject);
+  req.end();
+});
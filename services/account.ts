@@ -0,0 +1,48 @@
+import { AccountInfo, ApiCredentials, SymbolSettings } from '../types';
+import { getAccount, getBalances, getPositionMode } from './api';
+
+/**
+ * Combines /fapi/v2/account, /fapi/v2/balance and the position mode into a
+ * single AccountInfo snapshot for the UI.
+ */
+export const loadAccountInfo = async (isDemo: boolean, creds: ApiCredentials): Promise<AccountInfo> => {
+  const [account, balances, positionMode] = await Promise.all([
+    getAccount(isDemo, creds),
+    getBalances(isDemo, creds),
+    getPositionMode(isDemo, creds)
+  ]);
+
+  const marginBalance = parseFloat(account.totalMarginBalance);
+  const maintMargin = parseFloat(account.totalMaintMargin);
+
+  // Every symbol appears (once per side in hedge mode); settings are shared across sides
+  const symbolSettings: Record<string, SymbolSettings> = {};
+  for (const p of account.positions) {
+    symbolSettings[p.symbol] = {
+      leverage: parseInt(p.leverage),
+      marginType: p.isolated ? 'ISOLATED' : 'CROSSED'
+    };
+  }
+
+  return {
+    totalWalletBalance: parseFloat(account.totalWalletBalance),
+    totalUnrealizedProfit: parseFloat(account.totalUnrealizedProfit),
+    totalMarginBalance: marginBalance,
+    totalInitialMargin: parseFloat(account.totalInitialMargin),
+    totalMaintMargin: maintMargin,
+    availableBalance: parseFloat(account.availableBalance),
+    maxWithdrawAmount: parseFloat(account.maxWithdrawAmount),
+    marginRatio: marginBalance > 0 ? (maintMargin / marginBalance) * 100 : 0,
+    assets: balances
+      .filter(b => parseFloat(b.balance) !== 0)
+      .map(b => ({
+        asset: b.asset,
+        walletBalance: parseFloat(b.balance),
+        availableBalance: parseFloat(b.availableBalance),
+        unrealizedProfit: parseFloat(b.crossUnPnl)
+      })),
+    symbolSettings,
+    positionMode,
+    updateTime: Date.now()
+  };
+};
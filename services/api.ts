@@ -1,175 +1,338 @@
-import { ApiCredentials, OrderRequest, BinanceOrderResponse, OrderType } from '../types';
-import { hmacSha256 } from '../utils/crypto';
+import {
+  ApiCredentials,
+  OrderRequest,
+  BinanceOrderResponse,
+  OrderType,
+  BinanceExchangeInfo,
+  DepthSnapshot,
+  BinancePositionRisk,
+  OrderIdentifier,
+  OrderAmendment,
+  BinanceAccountInfo,
+  BinanceBalance,
+  MarginType,
+  PositionMode,
+  TimeInForce,
+  BatchOrderResult,
+  BatchCancelResult,
+  Kline,
+  KlineInterval
+} from '../types';
+import {
+  isConditional,
+  requiresPrice,
+  requiresStopPrice,
+  supportsClosePosition,
+  supportsTimeInForce,
+  toBinanceOrderType
+} from '../utils/orderTypes';
+import { EXCHANGE_INFO_FIXTURE } from './fixtures/exchangeInfo';
+import { getRestBaseUrl } from './environment';
+import { binanceRequest, isBinanceApiError, RestRequest } from './restClient';
+import { newClientOrderId } from './orderSubmission';
+import {
+  paperAmendOrder,
+  paperCancelAllOrders,
+  paperCancelOrder,
+  paperGetOpenOrders,
+  paperGetOrder,
+  paperPlaceOrder,
+  hasPaperOpenOrders
+} from './paperExchange';
+import {
+  getDemoAccount,
+  getDemoBalances,
+  getDemoPositionMode,
+  getDemoPositionRisk,
+  setDemoLeverage,
+  setDemoMarginType,
+  setDemoPositionMode
+} from './demoAccount';
 
-const BASE_URL = 'https://testnet.binancefuture.com';
 
 /**
- * Mocks the Binance API response for demonstration/development purposes
- * or when CORS prevents direct browser access.
+ * Runs a demo-account operation after an artificial delay, surfacing any
+ * thrown error as a rejection just like a failed API call.
  */
-const mockPlaceOrder = async (order: OrderRequest): Promise<BinanceOrderResponse> => {
+const simulateLatency = <T>(operation: () => T, delay = 300): Promise<T> => {
   return new Promise((resolve, reject) => {
     setTimeout(() => {
-      // Simulate randomness for success/fail
-      const success = true; 
-      
-      if (success) {
-        resolve({
-          orderId: Math.floor(Math.random() * 1000000000),
-          symbol: order.symbol.toUpperCase(),
-          status: 'NEW',
-          clientOrderId: `web_${Date.now()}`,
-          price: order.price || '0',
-          avgPrice: '0.00000',
-          origQty: order.quantity,
-          executedQty: '0',
-          cumQuote: '0',
-          timeInForce: 'GTC',
-          type: order.type,
-          side: order.side,
-          stopPrice: order.stopPrice || '0',
-          workingType: 'CONTRACT_PRICE',
-          priceProtect: false,
-          origType: order.type,
-          updateTime: Date.now()
-        });
-      } else {
-        reject(new Error('Simulated network error or insufficient balance'));
+      try {
+        resolve(operation());
+      } catch (e) {
+        reject(e);
       }
-    }, 800); // Artificial delay
+    }, delay);
   });
 };
 
 /**
- * Mocks cancel order response
+ * Resolves an OrderIdentifier into orderId / origClientOrderId params.
+ */
+const toOrderIdParams = (id: OrderIdentifier): Record<string, string> => {
+  if (typeof id !== 'string') {
+    return 'orderId' in id ? { orderId: id.orderId.toString() } : { origClientOrderId: id.origClientOrderId };
+  }
+  // Heuristic: If purely numeric, assume orderId. Otherwise assume origClientOrderId.
+  return /^\d+$/.test(id) ? { orderId: id } : { origClientOrderId: id };
+};
+
+/**
+ * Serves the bundled exchangeInfo snapshot so Demo Mode works offline.
  */
-const mockCancelOrder = async (symbol: string, orderId: string): Promise<any> => {
+const mockGetExchangeInfo = async (): Promise<BinanceExchangeInfo> => {
   return new Promise((resolve) => {
     setTimeout(() => {
-        resolve({
-            symbol: symbol.toUpperCase(),
-            orderId: /^\d+$/.test(orderId) ? parseInt(orderId) : Math.floor(Math.random() * 1000000000),
-            clientOrderId: /^\d+$/.test(orderId) ? `web_${Date.now()}` : orderId,
-            status: 'CANCELED',
-            origQty: '0.100',
-            executedQty: '0.000',
-            cumQuote: '0.000',
-            timeInForce: 'GTC',
-            type: 'LIMIT',
-            side: 'BUY',
-            updateTime: Date.now()
-        });
-    }, 600);
+      resolve({ ...EXCHANGE_INFO_FIXTURE, serverTime: Date.now() });
+    }, 300);
   });
 };
 
 /**
- * Real API call to Binance Futures Testnet.
- * Note: Requires a CORS-enabled environment (extension or proxy).
+ * Signed (TRADE / USER_DATA) request through the REST client, which adds the
+ * timestamp and signature, or leaves signing to the proxy.
  */
-const realPlaceOrder = async (order: OrderRequest, creds: ApiCredentials): Promise<BinanceOrderResponse> => {
-  if (!creds.apiKey || !creds.apiSecret) {
-    throw new Error('API Credentials missing');
-  }
+const signedFetch = (
+  method: RestRequest['method'],
+  endpoint: string,
+  params: Record<string, string>,
+  creds: ApiCredentials,
+  errorLabel: string,
+  isOrder = false
+): Promise<any> => {
+  return binanceRequest({ method, path: endpoint, params, security: 'SIGNED', creds, errorLabel, isOrder });
+};
 
-  const endpoint = '/fapi/v1/order';
-  const timestamp = Date.now();
-  
-  // Build Query String
+/**
+ * Maps an OrderRequest onto the parameter set Binance expects for its type.
+ */
+const buildOrderParams = (order: OrderRequest): Record<string, string> => {
   const params: Record<string, string> = {
     symbol: order.symbol.toUpperCase(),
     side: order.side,
-    quantity: order.quantity,
-    timestamp: timestamp.toString(),
-    recvWindow: '5000'
+    type: toBinanceOrderType(order.type)
   };
 
-  // Map internal OrderType to Binance API Type
-  if (order.type === OrderType.MARKET) {
-    params.type = 'MARKET';
-  } else if (order.type === OrderType.LIMIT) {
-    params.type = 'LIMIT';
-    if (!order.price) throw new Error('Price is required for LIMIT orders');
-    params.price = order.price;
-    params.timeInForce = 'GTC';
-  } else if (order.type === OrderType.STOP_LIMIT) {
-    params.type = 'STOP'; // Binance Futures uses 'STOP' for Stop Limit
-    if (!order.price) throw new Error('Price is required for STOP_LIMIT orders');
-    if (!order.stopPrice) throw new Error('Stop Price is required for STOP_LIMIT orders');
+  // Hedge mode: positionSide picks the leg, and reduceOnly is implied (Binance rejects it)
+  const hedged = !!order.positionSide && order.positionSide !== 'BOTH';
+  if (hedged) params.positionSide = order.positionSide!;
+
+  // closePosition replaces quantity and cannot be combined with reduceOnly
+  if (order.closePosition && supportsClosePosition(order.type)) {
+    params.closePosition = 'true';
+  } else {
+    params.quantity = order.quantity;
+    if (order.reduceOnly && !hedged) params.reduceOnly = 'true';
+  }
+
+  if (requiresPrice(order.type)) {
+    if (!order.price) throw new Error(`Price is required for ${order.type} orders`);
     params.price = order.price;
+  }
+
+  if (supportsTimeInForce(order.type)) {
+    params.timeInForce = order.timeInForce || TimeInForce.GTC;
+  }
+
+  if (requiresStopPrice(order.type)) {
+    if (!order.stopPrice) throw new Error(`Stop Price is required for ${order.type} orders`);
     params.stopPrice = order.stopPrice;
-    params.timeInForce = 'GTC';
   }
 
-  // Convert to query string sorted keys (optional but good practice)
-  const queryString = Object.keys(params)
-    .map(key => `${key}=${params[key]}`)
-    .join('&');
+  if (order.type === OrderType.TRAILING_STOP_MARKET) {
+    if (!order.callbackRate) throw new Error('Callback Rate is required for TRAILING_STOP_MARKET orders');
+    params.callbackRate = order.callbackRate;
+    if (order.activationPrice) params.activationPrice = order.activationPrice;
+  }
 
-  // Generate Signature
-  const signature = await hmacSha256(creds.apiSecret, queryString);
-  const fullQueryString = `${queryString}&signature=${signature}`;
+  if (isConditional(order.type)) {
+    if (order.workingType) params.workingType = order.workingType;
+    if (order.priceProtect) params.priceProtect = 'TRUE';
+  }
 
-  const response = await fetch(`${BASE_URL}${endpoint}?${fullQueryString}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-MBX-APIKEY': creds.apiKey
-    }
-  });
+  if (order.newClientOrderId) params.newClientOrderId = order.newClientOrderId;
 
-  const data = await response.json();
+  return params;
+};
 
-  if (!response.ok) {
-    throw new Error(data.msg || `API Error: ${response.status}`);
-  }
+/**
+ * Real API call to the active environment.
+ * Note: Requires a CORS-enabled environment (the signing proxy, an extension or another proxy).
+ */
+const realPlaceOrder = async (order: OrderRequest, creds: ApiCredentials): Promise<BinanceOrderResponse> => {
+  return signedFetch('POST', '/fapi/v1/order', buildOrderParams(order), creds, 'API Error', true);
+};
 
-  return data;
+const realCancelOrder = async (symbol: string, id: OrderIdentifier, creds: ApiCredentials): Promise<any> => {
+  return signedFetch('DELETE', '/fapi/v1/order', {
+    symbol: symbol.toUpperCase(),
+    ...toOrderIdParams(id)
+  }, creds, 'API Error');
 };
 
-const realCancelOrder = async (symbol: string, orderId: string, creds: ApiCredentials): Promise<any> => {
-  if (!creds.apiKey || !creds.apiSecret) {
-    throw new Error('API Credentials missing');
+// Binance caps: 5 orders per batchOrders request, 10 ids per batch cancel
+const BATCH_ORDER_LIMIT = 5;
+const BATCH_CANCEL_LIMIT = 10;
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+const toBatchError = (e: any) => ({ code: isBinanceApiError(e) ? e.code : -1000, msg: e?.message || 'Unknown error' });
+
+/**
+ * One batchOrders request. Orders that fail locally (e.g. a missing price)
+ * never go out; when the request itself fails every order in it shares that
+ * error, except when the outcome is unknown, in which case each order is
+ * looked up by its client id.
+ */
+const realPlaceBatch = async (orders: OrderRequest[], creds: ApiCredentials): Promise<BatchOrderResult[]> => {
+  const results: BatchOrderResult[] = orders.map(order => ({ order }));
+  const params: Record<string, string>[] = [];
+  const sent: BatchOrderResult[] = [];
+  results.forEach(result => {
+    try {
+      params.push(buildOrderParams(result.order));
+      sent.push(result);
+    } catch (e: any) {
+      result.error = toBatchError(e);
+    }
+  });
+  if (sent.length === 0) return results;
+
+  try {
+    const data: any[] = await signedFetch('POST', '/fapi/v1/batchOrders', {
+      batchOrders: JSON.stringify(params)
+    }, creds, 'Failed to place batch orders', true);
+    sent.forEach((result, i) => {
+      if (data[i] && data[i].orderId !== undefined) {
+        result.response = data[i];
+      } else {
+        result.error = { code: data[i]?.code ?? -1000, msg: data[i]?.msg || 'Missing batch result' };
+      }
+    });
+  } catch (e: any) {
+    if (!isBinanceApiError(e) || !e.executionUnknown) {
+      sent.forEach(result => { result.error = toBatchError(e); });
+      return results;
+    }
+    for (const result of sent) {
+      try {
+        const found = await getOrder(false, result.order.symbol, { origClientOrderId: result.order.newClientOrderId! }, creds);
+        if (found) result.response = found;
+        else result.error = toBatchError(e);
+      } catch (lookupError: any) {
+        result.error = { code: e.code, msg: `State unknown (${lookupError.message}); check Open Orders` };
+      }
+    }
   }
+  return results;
+};
 
-  const endpoint = '/fapi/v1/order';
-  const timestamp = Date.now();
+const paperPlaceBatch = async (orders: OrderRequest[]): Promise<BatchOrderResult[]> => {
+  const results: BatchOrderResult[] = [];
+  for (const order of orders) {
+    try {
+      results.push({ order, response: await paperPlaceOrder(order) });
+    } catch (e: any) {
+      results.push({ order, error: toBatchError(e) });
+    }
+  }
+  return results;
+};
 
-  const params: Record<string, string> = {
-      symbol: symbol.toUpperCase(),
-      timestamp: timestamp.toString(),
-      recvWindow: '5000'
-  };
+/**
+ * Places `orders` through /fapi/v1/batchOrders, five per request, and returns
+ * one result per order in the same order. Orders without a newClientOrderId
+ * get one. With `rollbackOnFailure`, the first failed order stops further
+ * batches and every order already placed is cancelled again. Placed orders
+ * whose cancel failed come back without `rolledBack` and with a
+ * `rollbackError`: they may still be on the book.
+ */
+export const placeBatchOrders = async (
+  isDemo: boolean,
+  orders: OrderRequest[],
+  creds: ApiCredentials,
+  options: { rollbackOnFailure?: boolean } = {}
+): Promise<BatchOrderResult[]> => {
+  const tagged = orders.map(order => ({ ...order, newClientOrderId: order.newClientOrderId || newClientOrderId() }));
+  const results: BatchOrderResult[] = [];
 
-  // Heuristic: If purely numeric, assume orderId. Otherwise assume origClientOrderId.
-  if (/^\d+$/.test(orderId)) {
-      params.orderId = orderId;
-  } else {
-      params.origClientOrderId = orderId;
+  for (const group of chunk(tagged, BATCH_ORDER_LIMIT)) {
+    results.push(...(isDemo ? await paperPlaceBatch(group) : await realPlaceBatch(group, creds)));
+    if (options.rollbackOnFailure && results.some(r => r.error)) break;
   }
 
-  const queryString = Object.keys(params)
-      .map(key => `${key}=${params[key]}`)
-      .join('&');
+  if (!options.rollbackOnFailure || !results.some(r => r.error)) return results;
 
-  const signature = await hmacSha256(creds.apiSecret, queryString);
-  const fullQueryString = `${queryString}&signature=${signature}`;
+  tagged.slice(results.length).forEach(order => {
+    results.push({ order, error: { code: -1000, msg: 'Not sent; batch rolled back' } });
+  });
 
-  const response = await fetch(`${BASE_URL}${endpoint}?${fullQueryString}`, {
-      method: 'DELETE',
-      headers: {
-          'Content-Type': 'application/json',
-          'X-MBX-APIKEY': creds.apiKey
+  const placed = results.filter(r => r.response);
+  const symbols = Array.from(new Set(placed.map(r => r.response!.symbol)));
+  for (const symbol of symbols) {
+    const ids = placed.filter(r => r.response!.symbol === symbol).map(r => r.response!.orderId);
+    let cancelled: BatchCancelResult[];
+    try {
+      cancelled = await batchCancel(isDemo, symbol, ids, creds);
+    } catch (e: any) {
+      cancelled = ids.map(orderId => ({ orderId, error: toBatchError(e) }));
+    }
+    for (const orderId of ids) {
+      const result = placed.find(r => r.response!.orderId === orderId)!;
+      const cancel = cancelled.find(c => c.orderId === orderId);
+      if (cancel?.response) {
+        result.rolledBack = true;
+      } else {
+        result.rollbackError = cancel?.error || { code: -1000, msg: 'Missing cancel result' };
       }
-  });
+    }
+  }
+  return results;
+};
 
-  const data = await response.json();
+/**
+ * Cancels orders by id through DELETE /fapi/v1/batchOrders (orderIdList),
+ * ten per request, returning one result per id.
+ */
+export const batchCancel = async (
+  isDemo: boolean,
+  symbol: string,
+  orderIds: number[],
+  creds: ApiCredentials
+): Promise<BatchCancelResult[]> => {
+  const results: BatchCancelResult[] = [];
 
-  if (!response.ok) {
-      throw new Error(data.msg || `API Error: ${response.status}`);
-  }
+  for (const group of chunk(orderIds, BATCH_CANCEL_LIMIT)) {
+    if (isDemo) {
+      for (const orderId of group) {
+        try {
+          results.push({ orderId, response: await paperCancelOrder(symbol, { orderId: orderId.toString() }) });
+        } catch (e: any) {
+          results.push({ orderId, error: toBatchError(e) });
+        }
+      }
+      continue;
+    }
 
-  return data;
+    try {
+      const data: any[] = await signedFetch('DELETE', '/fapi/v1/batchOrders', {
+        symbol: symbol.toUpperCase(),
+        orderIdList: JSON.stringify(group)
+      }, creds, 'Failed to cancel batch orders');
+      group.forEach((orderId, i) => {
+        results.push(data[i] && data[i].orderId !== undefined
+          ? { orderId, response: data[i] }
+          : { orderId, error: { code: data[i]?.code ?? -1000, msg: data[i]?.msg || 'Missing batch result' } });
+      });
+    } catch (e: any) {
+      group.forEach(orderId => results.push({ orderId, error: toBatchError(e) }));
+    }
+  }
+  return results;
 };
 
 export const placeOrder = async (
@@ -178,7 +341,7 @@ export const placeOrder = async (
   creds: ApiCredentials
 ): Promise<BinanceOrderResponse> => {
   if (isDemo) {
-    return mockPlaceOrder(order);
+    return paperPlaceOrder(order);
   }
   return realPlaceOrder(order, creds);
 };
@@ -186,44 +349,263 @@ export const placeOrder = async (
 export const cancelOrder = async (
   isDemo: boolean,
   symbol: string,
-  orderId: string,
+  orderId: OrderIdentifier,
   creds: ApiCredentials
 ): Promise<any> => {
   if (isDemo) {
-      return mockCancelOrder(symbol, orderId);
+      return paperCancelOrder(symbol, toOrderIdParams(orderId));
   }
   return realCancelOrder(symbol, orderId, creds);
 };
 
 export const getListenKey = async (apiKey: string): Promise<string> => {
-  const response = await fetch(`${BASE_URL}/fapi/v1/listenKey`, {
+  const data = await binanceRequest<{ listenKey: string }>({
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-MBX-APIKEY': apiKey
-    }
+    path: '/fapi/v1/listenKey',
+    security: 'USER_STREAM',
+    creds: { apiKey, apiSecret: '' },
+    errorLabel: 'Failed to get listenKey'
   });
-
-  const data = await response.json();
-  if (!response.ok) {
-    throw new Error(data.msg || `Failed to get listenKey: ${response.status}`);
-  }
-
   return data.listenKey;
 };
 
 export const keepAliveListenKey = async (apiKey: string): Promise<any> => {
-  const response = await fetch(`${BASE_URL}/fapi/v1/listenKey`, {
+  return binanceRequest({
     method: 'PUT',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-MBX-APIKEY': apiKey
-    }
+    path: '/fapi/v1/listenKey',
+    security: 'USER_STREAM',
+    creds: { apiKey, apiSecret: '' },
+    errorLabel: 'Failed to keep-alive listenKey'
   });
+};
+
+export const closeListenKey = async (apiKey: string): Promise<any> => {
+  return binanceRequest({
+    method: 'DELETE',
+    path: '/fapi/v1/listenKey',
+    security: 'USER_STREAM',
+    creds: { apiKey, apiSecret: '' },
+    errorLabel: 'Failed to close listenKey'
+  });
+};
+
+/**
+ * Upstream hosts and whether credentials are loaded, as reported by
+ * server/signingProxy.mjs. Only meaningful while the proxy environment is active.
+ */
+export const getProxyStatus = async (): Promise<{ upstreamUrl: string; upstreamStreamUrl: string; signing: boolean }> => {
+  const response = await fetch(`${getRestBaseUrl()}/_proxy/status`);
 
   const data = await response.json();
   if (!response.ok) {
-    throw new Error(data.msg || `Failed to keep-alive listenKey: ${response.status}`);
+    throw new Error(data.msg || `Failed to reach signing proxy: ${response.status}`);
   }
   return data;
-};
\ No newline at end of file
+};
+
+const realGetExchangeInfo = async (): Promise<BinanceExchangeInfo> => {
+  return binanceRequest({ method: 'GET', path: '/fapi/v1/exchangeInfo', errorLabel: 'Failed to load exchangeInfo' });
+};
+
+export const getExchangeInfo = async (isDemo: boolean): Promise<BinanceExchangeInfo> => {
+  if (isDemo) {
+    return mockGetExchangeInfo();
+  }
+  return realGetExchangeInfo();
+};
+
+/**
+ * Order book snapshot used to seed the local book. Market data is public and
+ * the depth stream is always live, so Demo Mode uses the real endpoint too.
+ */
+export const getDepthSnapshot = async (symbol: string, limit = 1000): Promise<DepthSnapshot> => {
+  const data = await binanceRequest<DepthSnapshot>({
+    method: 'GET',
+    path: '/fapi/v1/depth',
+    params: { symbol: symbol.toUpperCase(), limit },
+    errorLabel: 'Failed to load depth snapshot'
+  });
+  return {
+    lastUpdateId: data.lastUpdateId,
+    bids: data.bids,
+    asks: data.asks
+  };
+};
+
+// Public market data; Demo Mode charts real testnet candles too
+export const getKlines = async (symbol: string, interval: KlineInterval, limit = 500): Promise<Kline[]> => {
+  const rows = await binanceRequest<any[][]>({
+    method: 'GET',
+    path: '/fapi/v1/klines',
+    params: { symbol: symbol.toUpperCase(), interval, limit },
+    errorLabel: 'Failed to load klines'
+  });
+  const now = Date.now();
+  return rows.map(([openTime, open, high, low, close, volume, closeTime]) => ({
+    openTime,
+    open: parseFloat(open),
+    high: parseFloat(high),
+    low: parseFloat(low),
+    close: parseFloat(close),
+    volume: parseFloat(volume),
+    closed: closeTime < now
+  }));
+};
+
+const realGetPositionRisk = async (creds: ApiCredentials): Promise<BinancePositionRisk[]> => {
+  return signedFetch('GET', '/fapi/v2/positionRisk', {}, creds, 'Failed to load positions');
+};
+
+/**
+ * Open positions only (Binance also returns every flat symbol).
+ */
+export const getPositionRisk = async (isDemo: boolean, creds: ApiCredentials): Promise<BinancePositionRisk[]> => {
+  const positions = isDemo ? await simulateLatency(getDemoPositionRisk) : await realGetPositionRisk(creds);
+  return positions.filter(p => parseFloat(p.positionAmt) !== 0);
+};
+
+// Order does not exist
+const UNKNOWN_ORDER_CODE = -2013;
+
+/**
+ * Queries a single order in any state (including filled or cancelled).
+ * Resolves to null when the exchange has no such order.
+ */
+export const getOrder = async (
+  isDemo: boolean,
+  symbol: string,
+  id: OrderIdentifier,
+  creds: ApiCredentials
+): Promise<BinanceOrderResponse | null> => {
+  if (isDemo) {
+    return paperGetOrder(symbol, toOrderIdParams(id));
+  }
+  try {
+    return await signedFetch('GET', '/fapi/v1/order', {
+      symbol: symbol.toUpperCase(),
+      ...toOrderIdParams(id)
+    }, creds, 'Failed to query order');
+  } catch (e) {
+    if (isBinanceApiError(e) && e.code === UNKNOWN_ORDER_CODE) return null;
+    throw e;
+  }
+};
+
+export const getOpenOrders = async (
+  isDemo: boolean,
+  creds: ApiCredentials,
+  symbol?: string
+): Promise<BinanceOrderResponse[]> => {
+  if (isDemo) {
+    return paperGetOpenOrders(symbol);
+  }
+  const params: Record<string, string> = symbol ? { symbol: symbol.toUpperCase() } : {};
+  return signedFetch('GET', '/fapi/v1/openOrders', params, creds, 'Failed to load open orders');
+};
+
+export const cancelAllOpenOrders = async (
+  isDemo: boolean,
+  symbol: string,
+  creds: ApiCredentials
+): Promise<{ code: number; msg: string }> => {
+  if (isDemo) {
+    return paperCancelAllOrders(symbol);
+  }
+  return signedFetch('DELETE', '/fapi/v1/allOpenOrders', { symbol: symbol.toUpperCase() }, creds, 'Failed to cancel all orders');
+};
+
+/**
+ * Modifies price and/or quantity of a resting LIMIT order in place.
+ */
+export const amendOrder = async (
+  isDemo: boolean,
+  id: OrderIdentifier,
+  amendment: OrderAmendment,
+  creds: ApiCredentials
+): Promise<BinanceOrderResponse> => {
+  if (isDemo) {
+    return paperAmendOrder(toOrderIdParams(id), amendment);
+  }
+
+  return signedFetch('PUT', '/fapi/v1/order', {
+    symbol: amendment.symbol.toUpperCase(),
+    ...toOrderIdParams(id),
+    side: amendment.side,
+    quantity: amendment.quantity,
+    price: amendment.price
+  }, creds, 'Failed to amend order', true);
+};
+
+export const getBalances = async (isDemo: boolean, creds: ApiCredentials): Promise<BinanceBalance[]> => {
+  if (isDemo) {
+    return simulateLatency(getDemoBalances);
+  }
+  return signedFetch('GET', '/fapi/v2/balance', {}, creds, 'Failed to load balances');
+};
+
+export const getAccount = async (isDemo: boolean, creds: ApiCredentials): Promise<BinanceAccountInfo> => {
+  if (isDemo) {
+    return simulateLatency(getDemoAccount);
+  }
+  return signedFetch('GET', '/fapi/v2/account', {}, creds, 'Failed to load account');
+};
+
+export const setLeverage = async (
+  isDemo: boolean,
+  symbol: string,
+  leverage: number,
+  creds: ApiCredentials
+): Promise<{ symbol: string; leverage: number; maxNotionalValue: string }> => {
+  if (isDemo) {
+    return simulateLatency(() => setDemoLeverage(symbol, leverage));
+  }
+  return signedFetch('POST', '/fapi/v1/leverage', {
+    symbol: symbol.toUpperCase(),
+    leverage: leverage.toString()
+  }, creds, 'Failed to change leverage');
+};
+
+export const setMarginType = async (
+  isDemo: boolean,
+  symbol: string,
+  marginType: MarginType,
+  creds: ApiCredentials
+): Promise<{ code: number; msg: string }> => {
+  if (isDemo) {
+    return simulateLatency(() => setDemoMarginType(symbol, marginType));
+  }
+  return signedFetch('POST', '/fapi/v1/marginType', {
+    symbol: symbol.toUpperCase(),
+    marginType
+  }, creds, 'Failed to change margin type');
+};
+
+export const getPositionMode = async (isDemo: boolean, creds: ApiCredentials): Promise<PositionMode> => {
+  if (isDemo) {
+    return simulateLatency(getDemoPositionMode);
+  }
+  const data = await signedFetch('GET', '/fapi/v1/positionSide/dual', {}, creds, 'Failed to load position mode');
+  return data.dualSidePosition ? 'HEDGE' : 'ONE_WAY';
+};
+
+/**
+ * Switches between one-way and hedge mode. Binance only allows this with no
+ * open positions or orders on any symbol.
+ */
+export const setPositionMode = async (
+  isDemo: boolean,
+  mode: PositionMode,
+  creds: ApiCredentials
+): Promise<{ code: number; msg: string }> => {
+  if (isDemo) {
+    return simulateLatency(() => {
+      if (hasPaperOpenOrders()) {
+        throw new Error('Position side cannot be changed if there exists open orders.');
+      }
+      return setDemoPositionMode(mode);
+    });
+  }
+  return signedFetch('POST', '/fapi/v1/positionSide/dual', {
+    dualSidePosition: mode === 'HEDGE' ? 'true' : 'false'
+  }, creds, 'Failed to change position mode');
+};
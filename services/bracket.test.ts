@@ -0,0 +1,118 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BinanceOrderResponse, OrderRequest, OrderSide, OrderType } from '../types';
+import { BracketManagerDeps, createBracketManager } from './bracket';
+import { OrderUpdate } from './websocket';
+
+const store = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => store.set(key, value),
+  removeItem: (key: string) => store.delete(key)
+});
+
+beforeEach(() => store.clear());
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const orderOf = (order: OrderRequest, status: string, avgPrice = '0'): BinanceOrderResponse => ({
+  orderId: 1,
+  symbol: order.symbol,
+  status,
+  clientOrderId: order.newClientOrderId!,
+  price: order.price || '0',
+  avgPrice,
+  origQty: order.quantity!,
+  executedQty: status === 'FILLED' ? order.quantity! : '0',
+  cumQuote: '0',
+  timeInForce: 'GTC',
+  type: order.type,
+  side: order.side,
+  stopPrice: order.stopPrice || '0',
+  workingType: 'MARK_PRICE',
+  priceProtect: false,
+  origType: order.type,
+  updateTime: Date.now()
+});
+
+const entry: OrderRequest = { symbol: 'BTCUSDT', side: OrderSide.BUY, type: OrderType.LIMIT, price: '100', quantity: '1' };
+const spec = { takeProfit: { mode: 'PRICE' as const, value: '110' }, stopLoss: { mode: 'PRICE' as const, value: '90' }, leverage: 1 };
+
+const makeDeps = (overrides: Partial<BracketManagerDeps> = {}): BracketManagerDeps => ({
+  submitOrder: async (order) => orderOf(order, 'NEW'),
+  submitBatch: async (orders) => orders.map(order => ({ order, response: orderOf(order, 'NEW') })),
+  cancelOrder: async () => {},
+  getOrder: async () => null,
+  onLog: () => {},
+  ...overrides
+});
+
+describe('bracket manager', () => {
+  it('arms the exits of an entry that filled while the page was closed', async () => {
+    const before = createBracketManager(makeDeps());
+    await before.restore('demo');
+    const { bracket } = await before.place(entry, spec);
+
+    // A new page: the entry filled in the meantime
+    const submitted: OrderRequest[] = [];
+    const after = createBracketManager(makeDeps({
+      submitBatch: async (orders) => {
+        submitted.push(...orders);
+        return orders.map(order => ({ order, response: orderOf(order, 'NEW') }));
+      },
+      getOrder: async (_symbol, clientOrderId) => (clientOrderId === bracket.entryClientOrderId ? orderOf(entry, 'FILLED', '100') : null)
+    }));
+    await after.restore('demo');
+    await settle();
+
+    expect(submitted.map(o => o.type)).toEqual([OrderType.TAKE_PROFIT_MARKET, OrderType.STOP_MARKET]);
+    expect(after.list().map(b => b.status)).toEqual(['ACTIVE']);
+  });
+
+  it('flags a bracket whose entry is gone after a reload', async () => {
+    const onLog = vi.fn();
+    const deps = makeDeps({ onLog });
+    const before = createBracketManager(deps);
+    await before.restore('demo');
+    await before.place(entry, spec);
+
+    const after = createBracketManager(deps);
+    await after.restore('demo');
+    expect(after.list().map(b => b.status)).toEqual(['ERROR']);
+    expect(onLog).toHaveBeenCalledWith('ERROR', expect.stringContaining('not found on the exchange'));
+  });
+
+  it('cancels the stop loss only once it is placed when the take profit fills first', async () => {
+    const cancelled: string[] = [];
+    let releaseBatch = () => {};
+    const manager = createBracketManager(makeDeps({
+      submitBatch: (orders) => new Promise(resolve => {
+        releaseBatch = () => resolve(orders.map(order => ({ order, response: orderOf(order, 'NEW') })));
+      }),
+      cancelOrder: async (_symbol, clientOrderId) => {
+        cancelled.push(clientOrderId);
+      }
+    }));
+    await manager.restore('demo');
+    const { bracket } = await manager.place(entry, spec);
+    const fill = (clientOrderId: string, avgPrice: string) => manager.handleOrderUpdate({
+      ...orderOf({ ...entry, newClientOrderId: clientOrderId }, 'FILLED', avgPrice),
+      executionType: 'TRADE',
+      originalQty: '1',
+      lastFilledQty: '1',
+      lastFilledPrice: avgPrice,
+      realizedProfit: '0',
+      reduceOnly: false,
+      positionSide: 'BOTH'
+    } as OrderUpdate);
+
+    fill(bracket.entryClientOrderId, '100');
+    fill(`${bracket.id}_TP`, '110');
+    await settle();
+    expect(cancelled).toEqual([]);
+
+    releaseBatch();
+    await settle();
+    expect(manager.list()[0].status).toBe('TAKE_PROFIT');
+    expect(cancelled).toEqual([`${bracket.id}_SL`]);
+  });
+});
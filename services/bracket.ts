@@ -0,0 +1,304 @@
+import { BatchOrderResult, Bracket, BracketSpec, BinanceOrderResponse, LogEntry, OrderRequest, OrderType, WorkingType } from '../types';
+import { OrderUpdate } from './websocket';
+import { getCachedSymbolRules } from './exchangeInfo';
+import { oppositeSide, resolveBracketPrice } from '../utils/bracket';
+
+/**
+ * Bracket (entry + take-profit + stop-loss) orchestration.
+ * The entry is placed immediately; once it fills (seen via ORDER_TRADE_UPDATE)
+ * both exits are placed reduce-only in one batch, and when either exit fills
+ * the other is cancelled so the pair behaves like an OCO.
+ *
+ * Brackets still waiting on their entry or exits are persisted to
+ * localStorage per venue like grid bots, and checked against the exchange on
+ * restore so fills missed while the page was closed are acted on.
+ */
+
+export interface BracketManagerDeps {
+  submitOrder: (order: OrderRequest) => Promise<BinanceOrderResponse>;
+  submitBatch: (orders: OrderRequest[], rollbackOnFailure: boolean) => Promise<BatchOrderResult[]>;
+  cancelOrder: (symbol: string, clientOrderId: string) => Promise<any>;
+  // Resolves to null when the exchange has no order with this client id
+  getOrder: (symbol: string, clientOrderId: string) => Promise<BinanceOrderResponse | null>;
+  onLog: (level: LogEntry['level'], message: string, details?: any) => void;
+}
+
+// The fields of an order update or an order lookup the bracket logic needs
+type OrderState = Pick<OrderUpdate, 'status' | 'executedQty' | 'avgPrice'>;
+
+const STORAGE_KEY = 'binance-terminal.brackets';
+const FILLED = 'FILLED';
+const CLOSED_STATUSES = ['CANCELED', 'EXPIRED', 'REJECTED'];
+// Brackets that still have work to do; finished ones are not persisted
+const LIVE_STATUSES: Bracket['status'][] = ['PENDING_ENTRY', 'ACTIVE'];
+
+const newBracketId = () => `brk_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const loadBrackets = (): Bracket[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createBracketManager = (deps: BracketManagerDeps) => {
+  const brackets = new Map<string, Bracket>(loadBrackets().map(b => [b.id, b]));
+  let venue: string | null = null;
+  // Brackets whose exits are in flight; an exit filling meanwhile leaves the sibling cancel to armExits
+  const arming = new Set<string>();
+
+  // Persists the unfinished brackets of every venue
+  const commit = () => {
+    try {
+      const live = Array.from(brackets.values()).filter(b => LIVE_STATUSES.includes(b.status));
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(live));
+    } catch (e: any) {
+      deps.onLog('WARN', 'Failed to save bracket state', { error: e.message });
+    }
+  };
+
+  const update = (bracket: Bracket, patch: Partial<Bracket>) => {
+    Object.assign(bracket, patch);
+    commit();
+  };
+
+  const findByClientId = (clientOrderId: string): Bracket | undefined => {
+    for (const b of brackets.values()) {
+      if (b.entryClientOrderId === clientOrderId
+        || b.takeProfitClientOrderId === clientOrderId
+        || b.stopLossClientOrderId === clientOrderId) {
+        return b;
+      }
+    }
+    return undefined;
+  };
+
+  const place = async (
+    entry: OrderRequest,
+    spec: BracketSpec
+  ): Promise<{ bracket: Bracket; response: BinanceOrderResponse }> => {
+    if (venue === null) throw new Error('Brackets are not ready yet');
+    const id = newBracketId();
+    const bracket: Bracket = {
+      id,
+      venue,
+      symbol: entry.symbol.toUpperCase(),
+      side: entry.side,
+      positionSide: entry.positionSide,
+      spec,
+      status: 'PENDING_ENTRY',
+      entryClientOrderId: `${id}_E`,
+      createdAt: Date.now()
+    };
+    brackets.set(id, bracket);
+    commit();
+
+    try {
+      const response = await deps.submitOrder({ ...entry, newClientOrderId: bracket.entryClientOrderId });
+      return { bracket, response };
+    } catch (e) {
+      update(bracket, { status: 'ERROR' });
+      throw e;
+    }
+  };
+
+  const armExits = async (bracket: Bracket, entryPrice: number, quantity: string) => {
+    const rules = getCachedSymbolRules(bracket.symbol);
+    const exitSide = oppositeSide(bracket.side);
+    const patch: Partial<Bracket> = { status: 'ACTIVE', entryPrice, quantity };
+    const legs: OrderRequest[] = [];
+
+    if (bracket.spec.takeProfit) {
+      patch.takeProfitClientOrderId = `${bracket.id}_TP`;
+      patch.takeProfitPrice = resolveBracketPrice(
+        bracket.spec.takeProfit, 'takeProfit', bracket.side, entryPrice, bracket.spec.leverage, rules.tickSize
+      );
+      legs.push({
+        symbol: bracket.symbol,
+        side: exitSide,
+        type: OrderType.TAKE_PROFIT_MARKET,
+        quantity,
+        stopPrice: patch.takeProfitPrice,
+        workingType: WorkingType.MARK_PRICE,
+        reduceOnly: true,
+        positionSide: bracket.positionSide,
+        newClientOrderId: patch.takeProfitClientOrderId
+      });
+    }
+
+    if (bracket.spec.stopLoss) {
+      patch.stopLossClientOrderId = `${bracket.id}_SL`;
+      patch.stopLossPrice = resolveBracketPrice(
+        bracket.spec.stopLoss, 'stopLoss', bracket.side, entryPrice, bracket.spec.leverage, rules.tickSize
+      );
+      legs.push({
+        symbol: bracket.symbol,
+        side: exitSide,
+        type: OrderType.STOP_MARKET,
+        quantity,
+        stopPrice: patch.stopLossPrice,
+        workingType: WorkingType.MARK_PRICE,
+        reduceOnly: true,
+        positionSide: bracket.positionSide,
+        newClientOrderId: patch.stopLossClientOrderId
+      });
+    }
+
+    update(bracket, patch);
+    deps.onLog('INFO', `Bracket ${bracket.id}: entry filled @ ${entryPrice}, placing exits`, {
+      takeProfit: patch.takeProfitPrice,
+      stopLoss: patch.stopLossPrice,
+      quantity
+    });
+
+    arming.add(bracket.id);
+    let results: BatchOrderResult[];
+    try {
+      results = await deps.submitBatch(legs, false);
+    } catch (e: any) {
+      results = legs.map(order => ({ order, error: { code: typeof e.code === 'number' ? e.code : -1000, msg: e.message } }));
+    } finally {
+      arming.delete(bracket.id);
+    }
+
+    for (const result of results) {
+      // Once the other exit has filled there is nothing left to protect
+      if (result.response || (bracket.status !== 'ACTIVE' && bracket.status !== 'ERROR')) continue;
+      update(bracket, { status: 'ERROR' });
+      deps.onLog('ERROR', `Bracket ${bracket.id}: failed to place ${result.order.type} exit. Position is unprotected!`, result.error);
+    }
+
+    // An exit filled before the batch returned: cancel the sibling now that it is known to be on the book
+    const placed = (clientOrderId?: string) => results.some(r => r.response && r.order.newClientOrderId === clientOrderId);
+    if (bracket.status === 'TAKE_PROFIT' && placed(bracket.stopLossClientOrderId)) {
+      cancelSibling(bracket, bracket.stopLossClientOrderId);
+    } else if (bracket.status === 'STOPPED_OUT' && placed(bracket.takeProfitClientOrderId)) {
+      cancelSibling(bracket, bracket.takeProfitClientOrderId);
+    }
+  };
+
+  const cancelSibling = async (bracket: Bracket, clientOrderId: string | undefined) => {
+    if (!clientOrderId) return;
+    try {
+      await deps.cancelOrder(bracket.symbol, clientOrderId);
+      deps.onLog('INFO', `Bracket ${bracket.id}: cancelled remaining exit ${clientOrderId}`);
+    } catch (e: any) {
+      deps.onLog('WARN', `Bracket ${bracket.id}: failed to cancel remaining exit ${clientOrderId}`, { error: e.message });
+    }
+  };
+
+  const applyEntry = (bracket: Bracket, data: OrderState) => {
+    if (bracket.status !== 'PENDING_ENTRY') return;
+
+    const executed = parseFloat(data.executedQty);
+    if (data.status === FILLED) {
+      armExits(bracket, parseFloat(data.avgPrice), data.executedQty);
+    } else if (CLOSED_STATUSES.includes(data.status)) {
+      // A partially filled entry that was cancelled still needs protecting
+      if (executed > 0) {
+        armExits(bracket, parseFloat(data.avgPrice), data.executedQty);
+      } else {
+        update(bracket, { status: 'CANCELED' });
+        deps.onLog('WARN', `Bracket ${bracket.id}: entry ${data.status.toLowerCase()}, no exits placed`);
+      }
+    }
+  };
+
+  const applyExit = (bracket: Bracket, clientOrderId: string, data: OrderState) => {
+    if (data.status !== FILLED || bracket.status !== 'ACTIVE') return;
+
+    if (clientOrderId === bracket.takeProfitClientOrderId) {
+      update(bracket, { status: 'TAKE_PROFIT' });
+      deps.onLog('SUCCESS', `Bracket ${bracket.id}: take profit hit @ ${data.avgPrice}`);
+      if (!arming.has(bracket.id)) cancelSibling(bracket, bracket.stopLossClientOrderId);
+    } else if (clientOrderId === bracket.stopLossClientOrderId) {
+      update(bracket, { status: 'STOPPED_OUT' });
+      deps.onLog('WARN', `Bracket ${bracket.id}: stop loss hit @ ${data.avgPrice}`);
+      if (!arming.has(bracket.id)) cancelSibling(bracket, bracket.takeProfitClientOrderId);
+    }
+  };
+
+  /**
+   * Feed every ORDER_TRADE_UPDATE here. Updates for orders that don't belong
+   * to a bracket are ignored.
+   */
+  const handleOrderUpdate = (data: OrderUpdate) => {
+    const bracket = findByClientId(data.clientOrderId);
+    if (!bracket) return;
+
+    if (data.clientOrderId === bracket.entryClientOrderId) {
+      applyEntry(bracket, data);
+    } else {
+      applyExit(bracket, data.clientOrderId, data);
+    }
+  };
+
+  // Looks up an order: null when the exchange does not know it, undefined when it could not be checked
+  const lookup = async (bracket: Bracket, clientOrderId: string): Promise<BinanceOrderResponse | null | undefined> => {
+    try {
+      return await deps.getOrder(bracket.symbol, clientOrderId);
+    } catch (e: any) {
+      deps.onLog('WARN', `Bracket ${bracket.id}: could not check order ${clientOrderId}`, { error: e.message });
+      return undefined;
+    }
+  };
+
+  /**
+   * Catches up with fills and cancels missed while the page was closed or
+   * the user data stream was down.
+   */
+  const reconcile = async (bracket: Bracket) => {
+    if (bracket.status === 'PENDING_ENTRY') {
+      const entry = await lookup(bracket, bracket.entryClientOrderId);
+      if (entry === null) {
+        update(bracket, { status: 'ERROR' });
+        deps.onLog('ERROR', `Bracket ${bracket.id}: entry ${bracket.entryClientOrderId} not found on the exchange, no exits placed. Check the position.`);
+      } else if (entry) {
+        applyEntry(bracket, entry);
+      }
+      return;
+    }
+
+    const legs = [bracket.takeProfitClientOrderId, bracket.stopLossClientOrderId].filter((id): id is string => !!id);
+    for (const clientOrderId of legs) {
+      if (bracket.status !== 'ACTIVE') return;
+      const leg = await lookup(bracket, clientOrderId);
+      if (leg === undefined) continue;
+      if (leg?.status === FILLED) {
+        applyExit(bracket, clientOrderId, leg);
+      } else if (!leg || CLOSED_STATUSES.includes(leg.status)) {
+        update(bracket, { status: 'ERROR' });
+        deps.onLog('ERROR', `Bracket ${bracket.id}: exit ${clientOrderId} is no longer on the book. Position may be unprotected!`, {
+          status: leg?.status || 'NOT_FOUND'
+        });
+      }
+    }
+  };
+
+  /**
+   * Switches to the brackets of `nextVenue` ('demo' or an environment id)
+   * and reconciles the unfinished ones.
+   */
+  const restore = async (nextVenue: string) => {
+    venue = nextVenue;
+    const restored = Array.from(brackets.values()).filter(b => b.venue === nextVenue && LIVE_STATUSES.includes(b.status));
+    if (restored.length === 0) return;
+
+    deps.onLog('INFO', `Restoring ${restored.length} bracket(s)`);
+    for (const bracket of restored) {
+      await reconcile(bracket);
+      if (venue !== nextVenue) return;
+    }
+  };
+
+  return {
+    place,
+    restore,
+    handleOrderUpdate,
+    list: () => Array.from(brackets.values()).filter(b => b.venue === venue)
+  };
+};
+
+export type BracketManager = ReturnType<typeof createBracketManager>;
@@ -0,0 +1,93 @@
+import { Kline, KlineInterval } from '../types';
+import { getKlines } from './api';
+import { subscribeToKlines } from './websocket';
+
+/**
+ * Candle history for one symbol and interval: a REST load of recent klines
+ * kept current by the @kline stream. Stream updates that arrive before the
+ * history are buffered and applied on top of it; after a dropped socket the
+ * history is reloaded, since candles may have closed in between.
+ */
+
+const HISTORY_LIMIT = 500;
+const RELOAD_DELAY = 2000;
+
+// Replaces the candle with the same open time, or appends a newer one
+const mergeKline = (candles: Kline[], kline: Kline): Kline[] => {
+  const last = candles[candles.length - 1];
+  if (!last || kline.openTime > last.openTime) {
+    const next = [...candles, kline];
+    return next.length > HISTORY_LIMIT ? next.slice(next.length - HISTORY_LIMIT) : next;
+  }
+  const index = candles.findIndex(c => c.openTime === kline.openTime);
+  if (index === -1) return candles; // Older than the loaded window
+  const next = candles.slice();
+  next[index] = kline;
+  return next;
+};
+
+export const subscribeToCandles = (
+  symbol: string,
+  interval: KlineInterval,
+  onCandles: (candles: Kline[]) => void,
+  onError?: (message: string) => void
+) => {
+  let active = true;
+  let candles: Kline[] | null = null;
+  let buffer: Kline[] = [];
+  let loading = false;
+  let reloadTimeout: any = null;
+
+  if (!symbol) return () => {};
+
+  const scheduleReload = () => {
+    if (!active || reloadTimeout) return;
+    reloadTimeout = setTimeout(() => {
+      reloadTimeout = null;
+      load();
+    }, RELOAD_DELAY);
+  };
+
+  const load = async () => {
+    if (!active || loading) return;
+    loading = true;
+    try {
+      let next = await getKlines(symbol, interval, HISTORY_LIMIT);
+      if (!active) return;
+      for (const kline of buffer) next = mergeKline(next, kline);
+      buffer = [];
+      candles = next;
+      onCandles(candles);
+    } catch (e: any) {
+      if (onError) onError(`Failed to load ${interval} candles for ${symbol}: ${e.message}`);
+      scheduleReload();
+    } finally {
+      loading = false;
+    }
+  };
+
+  const handleKline = (kline: Kline) => {
+    if (!candles) {
+      buffer.push(kline);
+      if (buffer.length > HISTORY_LIMIT) buffer.shift();
+      return;
+    }
+    candles = mergeKline(candles, kline);
+    onCandles(candles);
+  };
+
+  const reload = () => {
+    candles = null;
+    buffer = [];
+    load();
+  };
+
+  const closeStream = subscribeToKlines(symbol, interval, handleKline, reload);
+  load();
+
+  return () => {
+    active = false;
+    if (reloadTimeout) clearTimeout(reloadTimeout);
+    closeStream();
+  };
+};
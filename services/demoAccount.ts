@@ -0,0 +1,275 @@
+import {
+  BinanceAccountInfo,
+  BinanceBalance,
+  BinancePositionRisk,
+  MarginType,
+  OrderSide,
+  PositionMode,
+  PositionSide
+} from '../types';
+import { AccountUpdate } from './websocket';
+
+/**
+ * In-memory futures account backing Demo Mode. Mirrors the shape of the
+ * /fapi/v2/account and /fapi/v2/balance responses so the rest of the app
+ * treats it exactly like the exchange. Fills come from the paper-trading
+ * engine (services/paperExchange.ts).
+ */
+
+const STARTING_BALANCE = 10000;
+const DEFAULT_LEVERAGE = 20;
+const QUOTE_ASSET = 'USDT';
+// Flat approximation of the lowest maintenance margin bracket
+const MAINT_MARGIN_RATE = 0.004;
+
+interface DemoSymbolSettings {
+  leverage: number;
+  marginType: MarginType;
+}
+
+interface DemoPosition {
+  symbol: string;
+  positionSide: PositionSide;
+  amount: number; // Signed: negative is short
+  entryPrice: number;
+  updateTime: number;
+}
+
+const state = {
+  walletBalance: STARTING_BALANCE,
+  positionMode: 'ONE_WAY' as PositionMode,
+  symbols: {} as Record<string, DemoSymbolSettings>,
+  positions: {} as Record<string, DemoPosition>,
+  marks: {} as Record<string, number>
+};
+
+// Float noise from repeated fills would otherwise leave dust positions behind
+const round8 = (value: number) => Math.round(value * 1e8) / 1e8;
+
+const settingsFor = (symbol: string): DemoSymbolSettings => {
+  const key = symbol.toUpperCase();
+  if (!state.symbols[key]) {
+    state.symbols[key] = { leverage: DEFAULT_LEVERAGE, marginType: 'CROSSED' };
+  }
+  return state.symbols[key];
+};
+
+const positionKey = (symbol: string, positionSide: PositionSide) => `${symbol.toUpperCase()}:${positionSide}`;
+
+const openPositions = (): DemoPosition[] => Object.values(state.positions).filter(p => p.amount !== 0);
+
+const markOf = (p: DemoPosition) => state.marks[p.symbol] ?? p.entryPrice;
+
+const unrealizedOf = (p: DemoPosition) => p.amount * (markOf(p) - p.entryPrice);
+
+const initialMarginOf = (p: DemoPosition) => Math.abs(p.amount) * markOf(p) / settingsFor(p.symbol).leverage;
+
+const totals = () => {
+  const positions = openPositions();
+  const unrealized = positions.reduce((sum, p) => sum + unrealizedOf(p), 0);
+  const initialMargin = positions.reduce((sum, p) => sum + initialMarginOf(p), 0);
+  const maintMargin = positions.reduce((sum, p) => sum + Math.abs(p.amount) * markOf(p) * MAINT_MARGIN_RATE, 0);
+  const marginBalance = state.walletBalance + unrealized;
+  return {
+    unrealized,
+    initialMargin,
+    maintMargin,
+    marginBalance,
+    available: Math.max(0, marginBalance - initialMargin)
+  };
+};
+
+export const getDemoLeverage = (symbol: string): number => settingsFor(symbol).leverage;
+
+export const getDemoPositionMode = (): PositionMode => state.positionMode;
+
+export const getDemoAvailableBalance = (): number => totals().available;
+
+export const setDemoMarkPrice = (symbol: string, price: number) => {
+  state.marks[symbol.toUpperCase()] = price;
+};
+
+export const getDemoPositionAmount = (symbol: string, positionSide: PositionSide): number => {
+  return state.positions[positionKey(symbol, positionSide)]?.amount || 0;
+};
+
+export const hasDemoPosition = (symbol: string): boolean => {
+  return openPositions().some(p => p.symbol === symbol.toUpperCase());
+};
+
+export const getDemoBalances = (): BinanceBalance[] => {
+  const { unrealized, available } = totals();
+  return [{
+    accountAlias: 'demo',
+    asset: QUOTE_ASSET,
+    balance: state.walletBalance.toFixed(8),
+    crossWalletBalance: state.walletBalance.toFixed(8),
+    crossUnPnl: unrealized.toFixed(8),
+    availableBalance: available.toFixed(8),
+    maxWithdrawAmount: Math.min(available, state.walletBalance).toFixed(8),
+    updateTime: Date.now()
+  }];
+};
+
+export const getDemoAccount = (): BinanceAccountInfo => {
+  const { unrealized, initialMargin, maintMargin, marginBalance, available } = totals();
+  const wallet = state.walletBalance.toFixed(8);
+  return {
+    totalInitialMargin: initialMargin.toFixed(8),
+    totalMaintMargin: maintMargin.toFixed(8),
+    totalWalletBalance: wallet,
+    totalUnrealizedProfit: unrealized.toFixed(8),
+    totalMarginBalance: marginBalance.toFixed(8),
+    availableBalance: available.toFixed(8),
+    maxWithdrawAmount: Math.min(available, state.walletBalance).toFixed(8),
+    assets: [{
+      asset: QUOTE_ASSET,
+      walletBalance: wallet,
+      unrealizedProfit: unrealized.toFixed(8),
+      availableBalance: available.toFixed(8)
+    }],
+    positions: Object.entries(state.symbols).map(([symbol, s]) => ({
+      symbol,
+      leverage: s.leverage.toString(),
+      isolated: s.marginType === 'ISOLATED',
+      positionSide: 'BOTH'
+    }))
+  };
+};
+
+/**
+ * Liquidation price treating each position as if isolated with its initial
+ * margin; close enough for a simulation and never shown as exact.
+ */
+const liquidationPriceOf = (p: DemoPosition): number => {
+  const leverage = settingsFor(p.symbol).leverage;
+  const direction = p.amount > 0 ? 1 : -1;
+  return Math.max(0, p.entryPrice * (1 - direction / leverage + direction * MAINT_MARGIN_RATE));
+};
+
+export const getDemoPositionRisk = (): BinancePositionRisk[] => {
+  return openPositions().map(p => {
+    const settings = settingsFor(p.symbol);
+    return {
+      symbol: p.symbol,
+      positionAmt: p.amount.toString(),
+      entryPrice: p.entryPrice.toString(),
+      markPrice: markOf(p).toString(),
+      unRealizedProfit: unrealizedOf(p).toFixed(8),
+      liquidationPrice: liquidationPriceOf(p).toString(),
+      leverage: settings.leverage.toString(),
+      marginType: settings.marginType === 'ISOLATED' ? 'isolated' : 'cross',
+      isolatedWallet: settings.marginType === 'ISOLATED' ? initialMarginOf(p).toFixed(8) : '0',
+      positionSide: p.positionSide,
+      updateTime: p.updateTime
+    };
+  });
+};
+
+/**
+ * Books a fill against the position leg and the wallet. Returns the realized
+ * PnL of the reducing part, before fees.
+ */
+export const applyDemoFill = (fill: {
+  symbol: string;
+  side: OrderSide;
+  positionSide: PositionSide;
+  quantity: number;
+  price: number;
+  fee: number;
+}): number => {
+  const key = positionKey(fill.symbol, fill.positionSide);
+  const position = state.positions[key] || {
+    symbol: fill.symbol.toUpperCase(),
+    positionSide: fill.positionSide,
+    amount: 0,
+    entryPrice: 0,
+    updateTime: 0
+  };
+
+  const delta = fill.side === OrderSide.BUY ? fill.quantity : -fill.quantity;
+  const amount = position.amount;
+  let realized = 0;
+  let entryPrice = position.entryPrice;
+  const next = round8(amount + delta);
+
+  if (amount === 0 || Math.sign(amount) === Math.sign(delta)) {
+    // Increasing: volume-weighted entry
+    entryPrice = (Math.abs(amount) * position.entryPrice + Math.abs(delta) * fill.price) / Math.abs(next);
+  } else {
+    const closed = Math.min(Math.abs(delta), Math.abs(amount));
+    realized = closed * (fill.price - position.entryPrice) * Math.sign(amount);
+    if (next === 0) {
+      entryPrice = 0;
+    } else if (Math.sign(next) !== Math.sign(amount)) {
+      // Flipped through zero: the remainder opens at the fill price
+      entryPrice = fill.price;
+    }
+  }
+
+  state.positions[key] = { ...position, amount: next, entryPrice, updateTime: Date.now() };
+  state.walletBalance += realized - fill.fee;
+  return realized;
+};
+
+/**
+ * ACCOUNT_UPDATE payload for a single position leg, as the user data stream
+ * would send it after a fill.
+ */
+export const buildDemoAccountUpdate = (
+  symbol: string,
+  positionSide: PositionSide,
+  balanceChange: number
+): AccountUpdate => {
+  const p = state.positions[positionKey(symbol, positionSide)];
+  const settings = settingsFor(symbol);
+  const wallet = state.walletBalance.toFixed(8);
+  return {
+    eventTime: Date.now(),
+    reason: 'ORDER',
+    balances: [{
+      asset: QUOTE_ASSET,
+      walletBalance: wallet,
+      crossWalletBalance: wallet,
+      balanceChange: balanceChange.toFixed(8)
+    }],
+    positions: [{
+      symbol: symbol.toUpperCase(),
+      positionAmt: (p?.amount || 0).toString(),
+      entryPrice: (p?.entryPrice || 0).toString(),
+      unrealizedProfit: p ? unrealizedOf(p).toFixed(8) : '0',
+      marginType: settings.marginType === 'ISOLATED' ? 'isolated' : 'cross',
+      isolatedWallet: p && settings.marginType === 'ISOLATED' ? initialMarginOf(p).toFixed(8) : '0',
+      positionSide
+    }]
+  };
+};
+
+export const setDemoLeverage = (symbol: string, leverage: number) => {
+  settingsFor(symbol).leverage = leverage;
+  return { symbol: symbol.toUpperCase(), leverage, maxNotionalValue: '1000000' };
+};
+
+export const setDemoMarginType = (symbol: string, marginType: MarginType) => {
+  const settings = settingsFor(symbol);
+  if (settings.marginType === marginType) {
+    // Binance rejects no-op changes with -4046
+    throw new Error('No need to change margin type.');
+  }
+  if (hasDemoPosition(symbol)) {
+    throw new Error('Margin type cannot be changed if there exists position.');
+  }
+  settings.marginType = marginType;
+  return { code: 200, msg: 'success' };
+};
+
+export const setDemoPositionMode = (mode: PositionMode) => {
+  if (state.positionMode === mode) {
+    throw new Error('No need to change position side.');
+  }
+  if (openPositions().length > 0) {
+    throw new Error('Position side cannot be changed if there exists position.');
+  }
+  state.positionMode = mode;
+  return { code: 200, msg: 'success' };
+};
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getActiveEnvironment, updateEnvironmentProfile } from './environment';
+
+describe('environment profiles', () => {
+  it('refuses Binance production hosts on the editable profiles', () => {
+    expect(() => updateEnvironmentProfile('custom', { baseUrl: 'https://fapi.binance.com' })).toThrow(/Futures Mainnet/);
+    expect(() => updateEnvironmentProfile('custom', { streamUrl: 'wss://FSTREAM.binance.com/' })).toThrow(/Futures Mainnet/);
+    expect(() => updateEnvironmentProfile('proxy', { baseUrl: 'fapi.binance.com' })).toThrow(/Futures Mainnet/);
+    expect(getActiveEnvironment().baseUrl).not.toContain('binance.com');
+  });
+
+  it('accepts the testnet and local hosts', () => {
+    expect(updateEnvironmentProfile('custom', { baseUrl: 'https://testnet.binancefuture.com' }).baseUrl)
+      .toBe('https://testnet.binancefuture.com');
+    expect(updateEnvironmentProfile('custom', { streamUrl: 'ws://localhost:4010/' }).streamUrl).toBe('ws://localhost:4010');
+  });
+});
@@ -0,0 +1,147 @@
+import { EnvironmentId, EnvironmentProfile } from '../types';
+
+/**
+ * Environment profiles for Live Mode: the Futures Testnet, mainnet, a custom
+ * pair of REST/WebSocket hosts (e.g. the stand-in server in server/), or the
+ * local signing proxy, which holds the credentials and signs on our behalf.
+ * BINANCE_BASE_URL / BINANCE_STREAM_URL in .env seed the custom profile and
+ * make it the starting one.
+ *
+ * Switching to mainnet requires typing MAINNET_CONFIRMATION; every profile
+ * carries a notional cap that App checks before an order is sent. Binance
+ * production hosts are refused on the editable profiles, so mainnet is only
+ * reachable through the mainnet profile and its guard rails.
+ */
+
+export const MAINNET_CONFIRMATION = 'I UNDERSTAND THIS USES REAL FUNDS';
+
+const LOCAL_BASE_URL = 'http://localhost:4010';
+const LOCAL_STREAM_URL = 'ws://localhost:4010';
+const PROXY_BASE_URL = 'http://localhost:4020';
+const PROXY_STREAM_URL = 'ws://localhost:4020';
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, '');
+
+// fapi / fstream and every other *.binance.com host trade real funds; the testnet is binancefuture.com
+const isProductionHost = (url: string): boolean => {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    hostname = url.trim().toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/:]/)[0];
+  }
+  hostname = hostname.replace(/\.$/, '');
+  return hostname === 'binance.com' || hostname.endsWith('.binance.com');
+};
+
+const productionHostError = (url: string) =>
+  new Error(`${url} is a Binance production host; use the Futures Mainnet environment, which asks for confirmation and caps order size.`);
+
+const envHost = (value: string | undefined): string => {
+  if (!value) return '';
+  if (isProductionHost(value)) {
+    console.warn(productionHostError(value).message);
+    return '';
+  }
+  return trimSlash(value);
+};
+
+const envBaseUrl = envHost(process.env.BINANCE_BASE_URL);
+const envStreamUrl = envHost(process.env.BINANCE_STREAM_URL);
+
+const profiles: Record<EnvironmentId, EnvironmentProfile> = {
+  testnet: {
+    id: 'testnet',
+    label: 'Futures Testnet',
+    baseUrl: 'https://testnet.binancefuture.com',
+    streamUrl: 'wss://stream.binancefuture.com',
+    maxOrderNotional: null,
+    signedByProxy: false
+  },
+  mainnet: {
+    id: 'mainnet',
+    label: 'Futures Mainnet',
+    baseUrl: 'https://fapi.binance.com',
+    streamUrl: 'wss://fstream.binance.com',
+    maxOrderNotional: 1000,
+    signedByProxy: false
+  },
+  custom: {
+    id: 'custom',
+    label: 'Custom Endpoints',
+    baseUrl: envBaseUrl || LOCAL_BASE_URL,
+    streamUrl: envStreamUrl || LOCAL_STREAM_URL,
+    maxOrderNotional: null,
+    signedByProxy: false
+  },
+  proxy: {
+    id: 'proxy',
+    label: 'Local Signing Proxy',
+    baseUrl: PROXY_BASE_URL,
+    streamUrl: PROXY_STREAM_URL,
+    maxOrderNotional: null,
+    signedByProxy: true
+  }
+};
+
+// Profiles whose hosts the user may edit
+const EDITABLE_HOSTS: EnvironmentId[] = ['custom', 'proxy'];
+
+let activeId: EnvironmentId = envBaseUrl || envStreamUrl ? 'custom' : 'testnet';
+
+export const getEnvironmentProfiles = (): EnvironmentProfile[] => Object.values(profiles).map(p => ({ ...p }));
+
+export const getActiveEnvironment = (): EnvironmentProfile => ({ ...profiles[activeId] });
+
+export const isMainnet = (): boolean => activeId === 'mainnet';
+
+// The signing proxy adds timestamp, signature and API key itself
+export const isProxySigning = (): boolean => profiles[activeId].signedByProxy;
+
+/**
+ * Switches the active profile. Mainnet is refused unless `confirmation`
+ * matches MAINNET_CONFIRMATION exactly.
+ */
+export const setActiveEnvironment = (id: EnvironmentId, confirmation?: string): EnvironmentProfile => {
+  if (!profiles[id]) {
+    throw new Error(`Unknown environment: ${id}`);
+  }
+  if (id === 'mainnet' && id !== activeId && confirmation !== MAINNET_CONFIRMATION) {
+    throw new Error(`Type "${MAINNET_CONFIRMATION}" to switch to mainnet.`);
+  }
+  activeId = id;
+  return getActiveEnvironment();
+};
+
+/**
+ * Edits a profile. Hosts can only be changed on the custom and proxy
+ * profiles, and never to a Binance production host; caps on any of them.
+ * A cap of null (or <= 0) means no cap.
+ */
+export const updateEnvironmentProfile = (
+  id: EnvironmentId,
+  patch: Partial<Pick<EnvironmentProfile, 'baseUrl' | 'streamUrl' | 'maxOrderNotional'>>
+): EnvironmentProfile => {
+  const profile = profiles[id];
+  if (!profile) {
+    throw new Error(`Unknown environment: ${id}`);
+  }
+  if (!EDITABLE_HOSTS.includes(id) && (patch.baseUrl !== undefined || patch.streamUrl !== undefined)) {
+    throw new Error(`Hosts for ${profile.label} are fixed; use the Custom environment instead.`);
+  }
+  const production = [patch.baseUrl, patch.streamUrl].find(url => url !== undefined && isProductionHost(url));
+  if (production !== undefined) throw productionHostError(production);
+
+  if (patch.baseUrl !== undefined) profile.baseUrl = trimSlash(patch.baseUrl);
+  if (patch.streamUrl !== undefined) profile.streamUrl = trimSlash(patch.streamUrl);
+  if (patch.maxOrderNotional !== undefined) {
+    const cap = patch.maxOrderNotional;
+    profile.maxOrderNotional = cap !== null && Number.isFinite(cap) && cap > 0 ? cap : null;
+  }
+  return { ...profile };
+};
+
+export const getRestBaseUrl = (): string => profiles[activeId].baseUrl;
+
+// Raw streams live under /ws/<name>, combined streams under /stream?streams=
+export const getStreamBaseUrl = (): string => profiles[activeId].streamUrl;
@@ -0,0 +1,135 @@
+import { BinanceSymbolInfo, SymbolRules } from '../types';
+import { getExchangeInfo } from './api';
+import { getRestBaseUrl } from './environment';
+import { decimalsOf } from '../utils/precision';
+
+/**
+ * Loads and caches per-symbol trading rules from /fapi/v1/exchangeInfo.
+ * Rules are refreshed at most once per CACHE_TTL unless a reload is forced.
+ */
+
+const CACHE_TTL = 60 * 60 * 1000;
+
+// Conservative fallback used until exchangeInfo has been loaded
+export const DEFAULT_RULES: SymbolRules = {
+  minQty: 0.001,
+  maxQty: Number.MAX_SAFE_INTEGER,
+  stepSize: 0.001,
+  marketMinQty: 0.001,
+  marketMaxQty: Number.MAX_SAFE_INTEGER,
+  marketStepSize: 0.001,
+  tickSize: 0.01,
+  minPrice: 0,
+  maxPrice: Number.MAX_SAFE_INTEGER,
+  minNotional: 0,
+  multiplierUp: 0,
+  multiplierDown: 0,
+  priceDecimals: 2,
+  qtyDecimals: 3
+};
+
+let rulesCache: Record<string, SymbolRules> = {};
+let cacheSource: string | null = null; // Demo fixture or the REST host the cache was loaded from
+let loadedAt = 0;
+let pending: Promise<number> | null = null;
+let pendingSource: string | null = null;
+
+const sourceOf = (isDemo: boolean) => isDemo ? 'demo' : getRestBaseUrl();
+
+const toNumber = (value: string | number | undefined, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const n = parseFloat(value.toString());
+  return isNaN(n) ? fallback : n;
+};
+
+export const parseSymbolRules = (info: BinanceSymbolInfo): SymbolRules => {
+  const rules: SymbolRules = { ...DEFAULT_RULES };
+  const byType = Object.fromEntries(info.filters.map(f => [f.filterType, f]));
+
+  const priceFilter = byType['PRICE_FILTER'];
+  if (priceFilter) {
+    rules.tickSize = toNumber(priceFilter.tickSize, rules.tickSize);
+    rules.minPrice = toNumber(priceFilter.minPrice, rules.minPrice);
+    rules.maxPrice = toNumber(priceFilter.maxPrice, rules.maxPrice);
+    rules.priceDecimals = decimalsOf(String(priceFilter.tickSize ?? rules.tickSize));
+  } else {
+    rules.priceDecimals = info.pricePrecision;
+  }
+
+  const lotSize = byType['LOT_SIZE'];
+  if (lotSize) {
+    rules.stepSize = toNumber(lotSize.stepSize, rules.stepSize);
+    rules.minQty = toNumber(lotSize.minQty, rules.minQty);
+    rules.maxQty = toNumber(lotSize.maxQty, rules.maxQty);
+    rules.qtyDecimals = decimalsOf(String(lotSize.stepSize ?? rules.stepSize));
+  } else {
+    rules.qtyDecimals = info.quantityPrecision;
+  }
+
+  // MARKET orders have their own (usually tighter) lot limits
+  const marketLot = byType['MARKET_LOT_SIZE'];
+  rules.marketStepSize = toNumber(marketLot?.stepSize, rules.stepSize);
+  rules.marketMinQty = toNumber(marketLot?.minQty, rules.minQty);
+  rules.marketMaxQty = toNumber(marketLot?.maxQty, rules.maxQty);
+
+  // Futures report the threshold as `notional`, spot as `minNotional`
+  const minNotional = byType['MIN_NOTIONAL'];
+  if (minNotional) {
+    rules.minNotional = toNumber(minNotional.notional ?? minNotional.minNotional, 0);
+  }
+
+  // Limit prices must stay within a band around the mark price
+  const percentPrice = byType['PERCENT_PRICE'];
+  if (percentPrice) {
+    rules.multiplierUp = toNumber(percentPrice.multiplierUp, 0);
+    rules.multiplierDown = toNumber(percentPrice.multiplierDown, 0);
+  }
+
+  return rules;
+};
+
+/**
+ * Fetches exchangeInfo for the given mode (and, live, the active environment) and replaces the cache.
+ * Concurrent callers share the same in-flight request.
+ * Returns the number of tradable symbols loaded.
+ */
+export const loadSymbolRules = async (isDemo: boolean, force = false): Promise<number> => {
+  const source = sourceOf(isDemo);
+  const fresh = cacheSource === source && Date.now() - loadedAt < CACHE_TTL;
+  if (fresh && !force) return Object.keys(rulesCache).length;
+  if (pending && pendingSource === source) return pending;
+
+  pendingSource = source;
+  const request = (async () => {
+    try {
+      const info = await getExchangeInfo(isDemo);
+      const next: Record<string, SymbolRules> = {};
+      for (const s of info.symbols) {
+        if (s.status !== 'TRADING') continue;
+        next[s.symbol.toUpperCase()] = parseSymbolRules(s);
+      }
+      // Drop results for a mode/environment the user has already switched away from
+      if (pendingSource === source) {
+        rulesCache = next;
+        cacheSource = source;
+        loadedAt = Date.now();
+      }
+      return Object.keys(next).length;
+    } finally {
+      if (pending === request) pending = null;
+    }
+  })();
+
+  pending = request;
+  return request;
+};
+
+export const isSymbolRulesLoaded = (): boolean => loadedAt > 0;
+
+export const hasSymbolRules = (symbol: string): boolean => {
+  return symbol.toUpperCase() in rulesCache;
+};
+
+export const getCachedSymbolRules = (symbol: string): SymbolRules => {
+  return rulesCache[symbol.toUpperCase()] || DEFAULT_RULES;
+};
@@ -0,0 +1,97 @@
+import { BinanceExchangeInfo, BinanceSymbolInfo } from '../../types';
+
+/**
+ * Offline snapshot of /fapi/v1/exchangeInfo used by Demo Mode.
+ * Filter values mirror the Binance Futures Testnet at the time of writing.
+ */
+
+interface FixtureSpec {
+  tickSize: string;
+  minPrice: string;
+  maxPrice: string;
+  stepSize: string;
+  minQty: string;
+  maxQty: string;
+  marketMaxQty: string;
+  notional: string;
+  pricePrecision: number;
+  quantityPrecision: number;
+}
+
+const symbolFixture = (symbol: string, baseAsset: string, spec: FixtureSpec): BinanceSymbolInfo => ({
+  symbol,
+  pair: symbol,
+  contractType: 'PERPETUAL',
+  status: 'TRADING',
+  baseAsset,
+  quoteAsset: 'USDT',
+  marginAsset: 'USDT',
+  pricePrecision: spec.pricePrecision,
+  quantityPrecision: spec.quantityPrecision,
+  filters: [
+    { filterType: 'PRICE_FILTER', minPrice: spec.minPrice, maxPrice: spec.maxPrice, tickSize: spec.tickSize },
+    { filterType: 'LOT_SIZE', minQty: spec.minQty, maxQty: spec.maxQty, stepSize: spec.stepSize },
+    { filterType: 'MARKET_LOT_SIZE', minQty: spec.minQty, maxQty: spec.marketMaxQty, stepSize: spec.stepSize },
+    { filterType: 'MAX_NUM_ORDERS', limit: 200 },
+    { filterType: 'MAX_NUM_ALGO_ORDERS', limit: 10 },
+    { filterType: 'MIN_NOTIONAL', notional: spec.notional },
+    { filterType: 'PERCENT_PRICE', multiplierUp: '1.0500', multiplierDown: '0.9500', multiplierDecimal: '4' }
+  ]
+});
+
+export const EXCHANGE_INFO_FIXTURE: BinanceExchangeInfo = {
+  timezone: 'UTC',
+  serverTime: 0,
+  symbols: [
+    symbolFixture('BTCUSDT', 'BTC', {
+      tickSize: '0.10', minPrice: '261.10', maxPrice: '809484', stepSize: '0.001',
+      minQty: '0.001', maxQty: '1000', marketMaxQty: '120', notional: '100',
+      pricePrecision: 2, quantityPrecision: 3
+    }),
+    symbolFixture('ETHUSDT', 'ETH', {
+      tickSize: '0.01', minPrice: '39.86', maxPrice: '306177', stepSize: '0.001',
+      minQty: '0.001', maxQty: '10000', marketMaxQty: '2000', notional: '20',
+      pricePrecision: 2, quantityPrecision: 3
+    }),
+    symbolFixture('BNBUSDT', 'BNB', {
+      tickSize: '0.010', minPrice: '6.600', maxPrice: '100000', stepSize: '0.01',
+      minQty: '0.01', maxQty: '100000', marketMaxQty: '2000', notional: '5',
+      pricePrecision: 3, quantityPrecision: 2
+    }),
+    symbolFixture('SOLUSDT', 'SOL', {
+      tickSize: '0.0100', minPrice: '0.4200', maxPrice: '6857', stepSize: '1',
+      minQty: '1', maxQty: '1000000', marketMaxQty: '5000', notional: '5',
+      pricePrecision: 4, quantityPrecision: 0
+    }),
+    symbolFixture('XRPUSDT', 'XRP', {
+      tickSize: '0.0001', minPrice: '0.0143', maxPrice: '100000', stepSize: '0.1',
+      minQty: '0.1', maxQty: '10000000', marketMaxQty: '2000000', notional: '5',
+      pricePrecision: 4, quantityPrecision: 1
+    }),
+    symbolFixture('ADAUSDT', 'ADA', {
+      tickSize: '0.00010', minPrice: '0.01740', maxPrice: '2000', stepSize: '1',
+      minQty: '1', maxQty: '10000000', marketMaxQty: '500000', notional: '5',
+      pricePrecision: 5, quantityPrecision: 0
+    }),
+    symbolFixture('DOGEUSDT', 'DOGE', {
+      tickSize: '0.000010', minPrice: '0.002440', maxPrice: '30', stepSize: '1',
+      minQty: '1', maxQty: '50000000', marketMaxQty: '30000000', notional: '5',
+      pricePrecision: 6, quantityPrecision: 0
+    }),
+    symbolFixture('LTCUSDT', 'LTC', {
+      tickSize: '0.01', minPrice: '3.61', maxPrice: '100000', stepSize: '0.001',
+      minQty: '0.001', maxQty: '100000', marketMaxQty: '5000', notional: '20',
+      pricePrecision: 2, quantityPrecision: 3
+    }),
+    symbolFixture('LINKUSDT', 'LINK', {
+      tickSize: '0.001', minPrice: '0.460', maxPrice: '200000', stepSize: '0.01',
+      minQty: '0.01', maxQty: '500000', marketMaxQty: '20000', notional: '20',
+      pricePrecision: 3, quantityPrecision: 2
+    }),
+    symbolFixture('AVAXUSDT', 'AVAX', {
+      tickSize: '0.0010', minPrice: '0.3500', maxPrice: '100000', stepSize: '1',
+      minQty: '1', maxQty: '1000000', marketMaxQty: '10000', notional: '5',
+      pricePrecision: 4, quantityPrecision: 0
+    })
+  ]
+};
@@ -0,0 +1,337 @@
+import { BatchOrderResult, BinanceOrderResponse, GridBot, GridBotSpec, LogEntry, OrderRequest, OrderSide, OrderType, TimeInForce } from '../types';
+import { OrderUpdate } from './websocket';
+import { oppositeSide } from '../utils/bracket';
+import { nearestLevelIndex } from '../utils/grid';
+
+/**
+ * Running grid strategy. Levels below the reference price start with a BUY,
+ * levels above with a SELL, and the level nearest the reference is left
+ * empty. When a BUY at level N fills, a SELL goes up at N+1 (and a filled SELL
+ * at N puts a BUY at N-1); each such closing fill completes a cycle and adds
+ * its spread to the bot's realized profit.
+ *
+ * Bots are persisted to localStorage after every change. On reload (restore)
+ * each order the bot believes is resting is looked up on the exchange, so
+ * fills that happened while the page was closed are still processed.
+ */
+
+export interface GridBotManagerDeps {
+  submitOrder: (order: OrderRequest) => Promise<BinanceOrderResponse>;
+  submitBatch: (orders: OrderRequest[], rollbackOnFailure: boolean) => Promise<BatchOrderResult[]>;
+  cancelOrder: (symbol: string, clientOrderId: string) => Promise<any>;
+  // Resolves to null when the exchange has no order with this client id
+  getOrder: (symbol: string, clientOrderId: string) => Promise<BinanceOrderResponse | null>;
+  onLog: (level: LogEntry['level'], message: string, details?: any) => void;
+  onChange: (bots: GridBot[]) => void;
+}
+
+const STORAGE_KEY = 'binance-terminal.grid-bots';
+const FILLED = 'FILLED';
+const CLOSED_STATUSES = ['CANCELED', 'EXPIRED', 'REJECTED'];
+const newGridBotId = () => `grd_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const loadBots = (): GridBot[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const createGridBotManager = (deps: GridBotManagerDeps) => {
+  const bots = new Map<string, GridBot>(loadBots().map(b => [b.id, b]));
+  let venue: string | null = null;
+
+  const list = () => Array.from(bots.values()).filter(b => b.venue === venue);
+
+  // Persists every bot (other venues included) and republishes this venue's
+  const commit = (bot?: GridBot) => {
+    if (bot) bot.updatedAt = Date.now();
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(bots.values())));
+    } catch (e: any) {
+      deps.onLog('WARN', 'Failed to save grid bot state', { error: e.message });
+    }
+    deps.onChange(list().map(b => ({ ...b, levels: b.levels.map(l => ({ ...l })) })));
+  };
+
+  const findLevel = (clientOrderId: string): { bot: GridBot; index: number } | undefined => {
+    for (const bot of list()) {
+      const index = bot.levels.findIndex(l => l.clientOrderId === clientOrderId);
+      if (index !== -1) return { bot, index };
+    }
+    return undefined;
+  };
+
+  // Claims the level with a fresh client id, so a fast fill event finds it
+  const claimLevel = (bot: GridBot, index: number): OrderRequest => {
+    const level = bot.levels[index];
+    const clientOrderId = `${bot.id}_${index}${level.side === OrderSide.BUY ? 'B' : 'S'}${Math.random().toString(36).slice(2, 6)}`;
+    level.clientOrderId = clientOrderId;
+    return {
+      symbol: bot.symbol,
+      side: level.side!,
+      type: OrderType.LIMIT,
+      quantity: level.quantity,
+      price: level.price,
+      timeInForce: TimeInForce.GTC,
+      newClientOrderId: clientOrderId
+    };
+  };
+
+  const releaseLevel = (bot: GridBot, clientOrderId: string) => {
+    const level = bot.levels.find(l => l.clientOrderId === clientOrderId);
+    if (level) level.clientOrderId = null;
+  };
+
+  const placeLevel = async (bot: GridBot, index: number) => {
+    const level = bot.levels[index];
+    if (!level.side || level.clientOrderId) return;
+
+    const order = claimLevel(bot, index);
+    commit(bot);
+    try {
+      await deps.submitOrder(order);
+    } catch (e: any) {
+      releaseLevel(bot, order.newClientOrderId!);
+      commit(bot);
+      deps.onLog('ERROR', `Grid ${bot.id}: failed to place ${order.side} @ ${order.price}`, { error: e.message });
+    }
+  };
+
+  /**
+   * Places every level that should hold an order but doesn't, in batches.
+   * Resolves to true when all of them went on the book.
+   */
+  const fillGaps = async (bot: GridBot, rollbackOnFailure = false): Promise<boolean> => {
+    const orders = bot.levels
+      .map((level, i) => (level.side && !level.clientOrderId ? i : -1))
+      .filter(i => i !== -1)
+      .map(i => claimLevel(bot, i));
+    if (orders.length === 0) return true;
+    commit(bot);
+
+    let results: BatchOrderResult[];
+    try {
+      results = await deps.submitBatch(orders, rollbackOnFailure);
+    } catch (e: any) {
+      orders.forEach(order => releaseLevel(bot, order.newClientOrderId!));
+      commit(bot);
+      deps.onLog('ERROR', `Grid ${bot.id}: failed to place orders`, { error: e.message });
+      return false;
+    }
+
+    for (const result of results) {
+      if (result.response && !result.rolledBack) continue;
+      releaseLevel(bot, result.order.newClientOrderId!);
+      if (result.error) {
+        deps.onLog('ERROR', `Grid ${bot.id}: failed to place ${result.order.side} @ ${result.order.price}`, result.error);
+      }
+    }
+    commit(bot);
+    return results.every(r => r.response && !r.rolledBack);
+  };
+
+  const applyFill = (bot: GridBot, index: number, avgPrice: string) => {
+    const level = bot.levels[index];
+    const side = level.side!;
+    const fillPrice = parseFloat(avgPrice) || parseFloat(level.price);
+
+    if (level.entryPrice) {
+      const entry = parseFloat(level.entryPrice);
+      const profit = (side === OrderSide.SELL ? fillPrice - entry : entry - fillPrice) * parseFloat(level.quantity);
+      bot.cycles++;
+      bot.realizedProfit += profit;
+      deps.onLog('SUCCESS', `Grid ${bot.id}: cycle ${bot.cycles} closed ${side} @ ${fillPrice}, profit ${profit.toFixed(4)}`, {
+        realizedProfit: bot.realizedProfit
+      });
+    } else {
+      deps.onLog('INFO', `Grid ${bot.id}: ${side} @ ${fillPrice} filled`);
+    }
+
+    level.side = null;
+    level.clientOrderId = null;
+    level.entryPrice = undefined;
+
+    const counterIndex = side === OrderSide.BUY ? index + 1 : index - 1;
+    const counter = bot.levels[counterIndex];
+    if (!counter) {
+      deps.onLog('WARN', `Grid ${bot.id}: ${side} filled at the edge of the range, no counter order`);
+    } else if (counter.side) {
+      deps.onLog('WARN', `Grid ${bot.id}: level ${counter.price} already holds a ${counter.side}, counter order skipped`);
+    } else {
+      // The counter order closes exactly what this fill opened
+      counter.side = oppositeSide(side);
+      counter.quantity = level.quantity;
+      counter.entryPrice = fillPrice.toString();
+    }
+    commit(bot);
+
+    if (counter && bot.status === 'RUNNING') placeLevel(bot, counterIndex);
+  };
+
+  /**
+   * Feed every ORDER_TRADE_UPDATE here. Updates for orders that don't belong
+   * to a grid bot are ignored.
+   */
+  const handleOrderUpdate = (data: OrderUpdate) => {
+    const match = findLevel(data.clientOrderId);
+    if (!match) return;
+    const { bot, index } = match;
+
+    if (data.status === FILLED) {
+      applyFill(bot, index, data.avgPrice);
+    } else if (CLOSED_STATUSES.includes(data.status)) {
+      // The level keeps its side so resuming puts the order back
+      bot.levels[index].clientOrderId = null;
+      commit(bot);
+      if (bot.status === 'RUNNING') {
+        deps.onLog('WARN', `Grid ${bot.id}: order @ ${bot.levels[index].price} ${data.status.toLowerCase()} outside the bot; pause and resume to replace it`);
+      }
+    }
+  };
+
+  const start = async (spec: GridBotSpec): Promise<GridBot> => {
+    if (venue === null) throw new Error('Grid bots are not ready yet');
+    if (spec.levels.length < 2) throw new Error('A grid needs at least 2 levels');
+
+    const emptyIndex = nearestLevelIndex(spec.levels.map(l => parseFloat(l.price)), spec.referencePrice);
+
+    const bot: GridBot = {
+      id: newGridBotId(),
+      venue,
+      symbol: spec.symbol.toUpperCase(),
+      status: 'RUNNING',
+      levels: spec.levels.map(({ price, quantity }, i) => ({
+        price,
+        quantity,
+        side: i < emptyIndex ? OrderSide.BUY : i > emptyIndex ? OrderSide.SELL : null,
+        clientOrderId: null
+      })),
+      cycles: 0,
+      realizedProfit: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    bots.set(bot.id, bot);
+    commit(bot);
+    deps.onLog('INFO', `Grid ${bot.id}: starting ${bot.symbol} with ${bot.levels.length} levels (${spec.levels[0].price} - ${spec.levels[spec.levels.length - 1].price})`);
+
+    // All or nothing: a half-deployed grid is cancelled again
+    if (!(await fillGaps(bot, true))) {
+      // Levels still holding a client id are orders the rollback could not cancel
+      const stranded = bot.levels.filter(l => l.clientOrderId).map(l => l.clientOrderId!);
+      if (stranded.length > 0) {
+        bot.status = 'FAILED';
+        commit(bot);
+        deps.onLog('ERROR', `Grid ${bot.id}: ${stranded.length} placed order(s) could not be cancelled and may still be live. Stop the bot to cancel them.`, {
+          clientOrderIds: stranded
+        });
+        throw new Error(`Grid ${bot.id}: deployment failed, ${stranded.length} order(s) may still be on the book`);
+      }
+      bot.status = 'STOPPED';
+      bots.delete(bot.id);
+      commit();
+      throw new Error(`Grid ${bot.id}: deployment failed, placed orders were cancelled`);
+    }
+    deps.onLog('SUCCESS', `Grid ${bot.id}: ${bot.levels.filter(l => l.clientOrderId).length} orders resting`);
+    return bot;
+  };
+
+  const cancelOutstanding = async (bot: GridBot) => {
+    for (const level of bot.levels) {
+      if (!level.clientOrderId) continue;
+      const clientOrderId = level.clientOrderId;
+      try {
+        await deps.cancelOrder(bot.symbol, clientOrderId);
+        if (level.clientOrderId === clientOrderId) level.clientOrderId = null;
+      } catch (e: any) {
+        // Most likely filled in the meantime; its update still reaches handleOrderUpdate
+        deps.onLog('WARN', `Grid ${bot.id}: failed to cancel ${clientOrderId}`, { error: e.message });
+      }
+    }
+    commit(bot);
+  };
+
+  const pause = async (id: string) => {
+    const bot = bots.get(id);
+    if (!bot || bot.status !== 'RUNNING') return;
+    bot.status = 'PAUSED';
+    commit(bot);
+    await cancelOutstanding(bot);
+    deps.onLog('WARN', `Grid ${bot.id}: paused, orders cancelled`);
+  };
+
+  const resume = async (id: string) => {
+    const bot = bots.get(id);
+    if (!bot || bot.status !== 'PAUSED') return;
+    bot.status = 'RUNNING';
+    commit(bot);
+    deps.onLog('INFO', `Grid ${bot.id}: resumed`);
+    await fillGaps(bot);
+  };
+
+  const stop = async (id: string) => {
+    const bot = bots.get(id);
+    if (!bot) return;
+    bot.status = 'STOPPED';
+    commit(bot);
+    await cancelOutstanding(bot);
+    bots.delete(id);
+    commit();
+    deps.onLog('WARN', `Grid ${bot.id}: stopped after ${bot.cycles} cycles, realized ${bot.realizedProfit.toFixed(4)}`);
+  };
+
+  /**
+   * Checks every order a bot believes is resting against the exchange.
+   */
+  const reconcile = async (bot: GridBot) => {
+    for (let i = 0; i < bot.levels.length; i++) {
+      const clientOrderId = bot.levels[i].clientOrderId;
+      if (!clientOrderId) continue;
+      try {
+        const order = await deps.getOrder(bot.symbol, clientOrderId);
+        if (bot.levels[i].clientOrderId !== clientOrderId) continue;
+        if (!order || CLOSED_STATUSES.includes(order.status)) {
+          bot.levels[i].clientOrderId = null;
+          commit(bot);
+        } else if (order.status === FILLED) {
+          applyFill(bot, i, order.avgPrice || order.price);
+        }
+      } catch (e: any) {
+        deps.onLog('WARN', `Grid ${bot.id}: could not check order ${clientOrderId}`, { error: e.message });
+      }
+    }
+  };
+
+  /**
+   * Switches to the bots of `nextVenue` ('demo' or an environment id),
+   * reconciles their orders and puts missing ones back.
+   */
+  const restore = async (nextVenue: string) => {
+    venue = nextVenue;
+    commit();
+    const restored = list().filter(b => b.status === 'RUNNING');
+    if (restored.length === 0) return;
+
+    deps.onLog('INFO', `Restoring ${restored.length} grid bot(s)`);
+    for (const bot of restored) {
+      await reconcile(bot);
+      if (venue !== nextVenue) return;
+      await fillGaps(bot);
+    }
+  };
+
+  return {
+    start,
+    pause,
+    resume,
+    stop,
+    restore,
+    handleOrderUpdate,
+    list
+  };
+};
+
+export type GridBotManager = ReturnType<typeof createGridBotManager>;
@@ -0,0 +1,112 @@
+import { DepthDiffEvent, OrderBookView } from '../types';
+import { getDepthSnapshot } from './api';
+import { subscribeToDepth } from './websocket';
+import { LocalOrderBook, aggregateLevels, applyDepthEvent, createOrderBook } from '../utils/orderBook';
+
+/**
+ * Keeps a correctly sequenced local order book for one symbol by combining
+ * the @depth diff stream with REST snapshots, resyncing on any gap.
+ */
+
+const RESYNC_DELAY = 1000;
+const MAX_BUFFERED_EVENTS = 1000;
+const EMITTED_LEVELS = 500; // Raw levels per side handed to the UI for grouping
+
+export const subscribeToOrderBook = (
+  symbol: string,
+  onBook: (view: OrderBookView) => void,
+  onError?: (message: string) => void
+) => {
+  let active = true;
+  let book: LocalOrderBook | null = null;
+  let buffer: DepthDiffEvent[] = [];
+  let syncing = false;
+  let resyncTimeout: any = null;
+
+  if (!symbol) return () => {};
+
+  const emit = (synced: boolean) => {
+    if (!book) return;
+    onBook({
+      symbol,
+      lastUpdateId: book.lastUpdateId,
+      bids: aggregateLevels(book.bids.entries(), true, 0, EMITTED_LEVELS),
+      asks: aggregateLevels(book.asks.entries(), false, 0, EMITTED_LEVELS),
+      synced
+    });
+  };
+
+  const scheduleResync = () => {
+    if (!active || resyncTimeout) return;
+    resyncTimeout = setTimeout(() => {
+      resyncTimeout = null;
+      resync();
+    }, RESYNC_DELAY);
+  };
+
+  const resync = async () => {
+    if (!active || syncing) return;
+    syncing = true;
+
+    try {
+      const snapshot = await getDepthSnapshot(symbol);
+      if (!active) return;
+
+      const next = createOrderBook(snapshot);
+      const pending = buffer;
+      buffer = [];
+
+      for (const event of pending) {
+        if (applyDepthEvent(next, event) === 'gap') {
+          // Snapshot is older than the stream can bridge; fetch another
+          scheduleResync();
+          return;
+        }
+      }
+
+      book = next;
+      emit(true);
+    } catch (e: any) {
+      if (onError) onError(`Order book snapshot failed for ${symbol}: ${e.message}`);
+      scheduleResync();
+    } finally {
+      syncing = false;
+    }
+  };
+
+  const invalidate = () => {
+    if (book) {
+      emit(false);
+      book = null;
+    }
+    buffer = [];
+    scheduleResync();
+  };
+
+  const handleEvent = (event: DepthDiffEvent) => {
+    if (!book) {
+      buffer.push(event);
+      if (buffer.length > MAX_BUFFERED_EVENTS) buffer.shift();
+      // Request the snapshot only once events are buffering, so it can be bridged
+      if (!syncing && !resyncTimeout) resync();
+      return;
+    }
+
+    const result = applyDepthEvent(book, event);
+    if (result === 'gap') {
+      if (onError) onError(`Order book sequence gap on ${symbol}. Resyncing...`);
+      invalidate();
+      buffer.push(event);
+    } else if (result === 'applied') {
+      emit(true);
+    }
+  };
+
+  const closeStream = subscribeToDepth(symbol, handleEvent, invalidate);
+
+  return () => {
+    active = false;
+    if (resyncTimeout) clearTimeout(resyncTimeout);
+    closeStream();
+  };
+};
@@ -0,0 +1,88 @@
+import { BinanceOrderResponse, LogEntry, OrderRequest } from '../types';
+import { isBinanceApiError } from './restClient';
+
+/**
+ * Idempotent order placement. Every order gets a newClientOrderId before it
+ * is first sent, so when a submission ends without a definite answer (network
+ * failure, timeout, 5xx) the exchange can be asked whether that exact order
+ * exists. It is only resubmitted, under the same client id, once the query
+ * says it was never placed.
+ */
+
+export interface OrderSubmitterDeps {
+  placeOrder: (order: OrderRequest) => Promise<BinanceOrderResponse>;
+  // Resolves to null when the exchange has no order with this client id
+  getOrder: (symbol: string, clientOrderId: string) => Promise<BinanceOrderResponse | null>;
+  onLog: (level: LogEntry['level'], message: string, details?: any) => void;
+}
+
+const MAX_SUBMISSIONS = 3;
+// An order can take a moment to show up after a timed-out submission
+const QUERY_DELAY_MS = 1000;
+const QUERY_ATTEMPTS = 2;
+// ClientOrderId is duplicated: an earlier attempt did get through
+const DUPLICATE_CLIENT_ID_CODE = -4116;
+
+// Binance accepts ^[.A-Z:/a-z0-9_-]{1,36}$
+export const newClientOrderId = (prefix = 'web') => {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+};
+
+const isUncertain = (e: unknown) => isBinanceApiError(e) && e.executionUnknown;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const createOrderSubmitter = (deps: OrderSubmitterDeps) => {
+  /**
+   * Asks the exchange for the order. Throws if the state cannot be determined,
+   * in which case the order must not be sent again.
+   */
+  const lookup = async (order: OrderRequest & { newClientOrderId: string }): Promise<BinanceOrderResponse | null> => {
+    let lastError: any = null;
+    for (let i = 0; i < QUERY_ATTEMPTS; i++) {
+      await sleep(QUERY_DELAY_MS * (i + 1));
+      try {
+        const found = await deps.getOrder(order.symbol, order.newClientOrderId);
+        if (found) return found;
+        lastError = null;
+      } catch (e: any) {
+        lastError = e;
+      }
+    }
+    if (lastError) {
+      throw new Error(
+        `Order ${order.newClientOrderId} may or may not have been placed and its state could not be checked `
+        + `(${lastError.message}). Check Open Orders before retrying.`
+      );
+    }
+    return null;
+  };
+
+  const submit = async (request: OrderRequest): Promise<BinanceOrderResponse> => {
+    const order = { ...request, newClientOrderId: request.newClientOrderId || newClientOrderId() };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await deps.placeOrder(order);
+      } catch (e: any) {
+        const duplicate = isBinanceApiError(e) && e.code === DUPLICATE_CLIENT_ID_CODE && attempt > 1;
+        if (!isUncertain(e) && !duplicate) throw e;
+
+        deps.onLog('WARN', `Order ${order.newClientOrderId}: submission outcome unknown (${e.message}). Checking the exchange...`);
+        const found = await lookup(order);
+        if (found) {
+          deps.onLog('SUCCESS', `Order ${order.newClientOrderId} reached the exchange (#${found.orderId}, ${found.status})`, found);
+          return found;
+        }
+        if (attempt >= MAX_SUBMISSIONS) {
+          throw new Error(`Order ${order.newClientOrderId} was not placed after ${attempt} attempts: ${e.message}`);
+        }
+        deps.onLog('INFO', `Order ${order.newClientOrderId} never reached the exchange. Resubmitting (attempt ${attempt + 1}/${MAX_SUBMISSIONS})`);
+      }
+    }
+  };
+
+  return { submit };
+};
+
+export type OrderSubmitter = ReturnType<typeof createOrderSubmitter>;
@@ -0,0 +1,575 @@
+import {
+  BinanceOrderResponse,
+  OrderAmendment,
+  OrderRequest,
+  OrderSide,
+  OrderType,
+  PositionSide,
+  TimeInForce,
+  WorkingType
+} from '../types';
+import { BookTickerUpdate, OrderUpdate, UserDataHandlers, subscribeToBookTicker } from './websocket';
+import { getCachedSymbolRules } from './exchangeInfo';
+import {
+  applyDemoFill,
+  buildDemoAccountUpdate,
+  getDemoAvailableBalance,
+  getDemoLeverage,
+  getDemoPositionAmount,
+  getDemoPositionMode,
+  hasDemoPosition,
+  setDemoMarkPrice
+} from './demoAccount';
+import { requiresPrice, supportsClosePosition, supportsTimeInForce, toBinanceOrderType } from '../utils/orderTypes';
+import { roundToStep } from '../utils/precision';
+
+/**
+ * Paper-trading engine behind Demo Mode. Orders are matched in memory against
+ * the live bookTicker stream: market executions take the touch (plus
+ * slippage), limit orders rest until the opposite side crosses them, and
+ * conditional orders trigger off the mid price. Every state change is
+ * published as the same OrderUpdate / AccountUpdate events the user data
+ * stream produces, so the app handles both modes identically.
+ *
+ * The top of book carries no depth, so fills are always complete.
+ */
+
+export interface PaperConfig {
+  slippageBps: number;  // Applied against the taker on market executions
+  makerFeeRate: number; // Fraction of notional, e.g. 0.0002 = 0.02%
+  takerFeeRate: number;
+  latencyMs: number;    // Simulated round trip for every request
+}
+
+export const DEFAULT_PAPER_CONFIG: PaperConfig = {
+  slippageBps: 2,
+  makerFeeRate: 0.0002,
+  takerFeeRate: 0.0005,
+  latencyMs: 150
+};
+
+const QUOTE_TIMEOUT = 5000;
+// Final orders kept for getOrder lookups; older ones are forgotten
+const MAX_FINISHED_ORDERS = 500;
+
+interface PaperOrder {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  positionSide: PositionSide;
+  origQty: number; // 0 for closePosition until it fills
+  price: number;
+  stopPrice: number;
+  timeInForce: TimeInForce;
+  workingType: WorkingType;
+  priceProtect: boolean;
+  reduceOnly: boolean;
+  closePosition: boolean;
+  callbackRate: number;
+  activationPrice: number;
+  status: string;
+  executedQty: number;
+  cumQuote: number;
+  triggered: boolean; // Conditional order has fired (STOP / TAKE_PROFIT now rest as limits)
+  trailingExtreme: number | null; // Best price seen since the trailing stop activated
+  updateTime: number;
+}
+
+interface Listener {
+  onOrderUpdate: (data: OrderUpdate) => void;
+  handlers: UserDataHandlers;
+}
+
+let config: PaperConfig = { ...DEFAULT_PAPER_CONFIG };
+let nextOrderId = 8000000000 + Math.floor(Math.random() * 1000000);
+const orders = new Map<number, PaperOrder>(); // Open orders only
+const finished = new Map<number, PaperOrder>(); // Oldest first
+const quotes = new Map<string, BookTickerUpdate>();
+const feeds = new Map<string, () => void>();
+const quoteWaiters = new Map<string, ((quote: BookTickerUpdate) => void)[]>();
+const listeners = new Set<Listener>();
+
+export const getPaperConfig = (): PaperConfig => ({ ...config });
+
+export const setPaperConfig = (patch: Partial<PaperConfig>) => {
+  config = { ...config, ...patch };
+};
+
+const delay = () => new Promise(resolve => setTimeout(resolve, config.latencyMs));
+
+const isOpen = (o: PaperOrder) => o.status === 'NEW' || o.status === 'PARTIALLY_FILLED';
+
+const openOrdersFor = (symbol: string) => Array.from(orders.values()).filter(o => isOpen(o) && o.symbol === symbol);
+
+const midOf = (quote: BookTickerUpdate) => (quote.bidPrice + quote.askPrice) / 2;
+
+const toResponse = (o: PaperOrder): BinanceOrderResponse => {
+  const rules = getCachedSymbolRules(o.symbol);
+  const type = toBinanceOrderType(o.type);
+  return {
+    orderId: o.orderId,
+    symbol: o.symbol,
+    status: o.status,
+    clientOrderId: o.clientOrderId,
+    price: o.price.toString(),
+    avgPrice: o.executedQty > 0 ? (o.cumQuote / o.executedQty).toFixed(rules.priceDecimals) : '0',
+    origQty: o.origQty.toString(),
+    executedQty: o.executedQty.toString(),
+    cumQuote: o.cumQuote.toFixed(8),
+    timeInForce: o.timeInForce,
+    type,
+    side: o.side,
+    stopPrice: o.stopPrice.toString(),
+    workingType: o.workingType,
+    priceProtect: o.priceProtect,
+    origType: type,
+    updateTime: o.updateTime,
+    reduceOnly: o.reduceOnly || o.closePosition,
+    closePosition: o.closePosition,
+    positionSide: o.positionSide,
+    ...(o.type === OrderType.TRAILING_STOP_MARKET && {
+      activatePrice: o.activationPrice ? o.activationPrice.toString() : undefined,
+      priceRate: o.callbackRate.toString()
+    })
+  };
+};
+
+const emit = (o: PaperOrder, executionType: string, fill?: { qty: number; price: number; realized: number }) => {
+  const response = toResponse(o);
+  const update: OrderUpdate = {
+    symbol: o.symbol,
+    orderId: o.orderId,
+    clientOrderId: o.clientOrderId,
+    side: o.side,
+    type: response.type,
+    status: o.status,
+    executionType,
+    price: response.price,
+    stopPrice: response.stopPrice,
+    originalQty: response.origQty,
+    executedQty: response.executedQty,
+    avgPrice: response.avgPrice,
+    lastFilledQty: fill ? fill.qty.toString() : '0',
+    lastFilledPrice: fill ? fill.price.toString() : '0',
+    realizedProfit: fill ? fill.realized.toFixed(8) : '0',
+    reduceOnly: response.reduceOnly || false,
+    positionSide: o.positionSide,
+    updateTime: o.updateTime
+  };
+  listeners.forEach(l => l.onOrderUpdate(update));
+  if (!isOpen(o)) retire(o);
+};
+
+// Moves an order that reached a final state into the bounded history
+const retire = (o: PaperOrder) => {
+  orders.delete(o.orderId);
+  finished.set(o.orderId, o);
+  if (finished.size > MAX_FINISHED_ORDERS) finished.delete(finished.keys().next().value!);
+};
+
+const watch = (symbol: string) => {
+  if (feeds.has(symbol)) return;
+  feeds.set(symbol, subscribeToBookTicker(symbol, onQuote));
+};
+
+/**
+ * Drops feeds for symbols with nothing left to match or mark.
+ */
+const unwatchIdle = () => {
+  for (const [symbol, cleanup] of feeds) {
+    if (openOrdersFor(symbol).length === 0 && !hasDemoPosition(symbol)) {
+      cleanup();
+      feeds.delete(symbol);
+      quotes.delete(symbol);
+    }
+  }
+};
+
+const awaitQuote = (symbol: string): Promise<BookTickerUpdate> => {
+  const cached = quotes.get(symbol);
+  if (cached) return Promise.resolve(cached);
+  watch(symbol);
+
+  return new Promise((resolve, reject) => {
+    const waiter = (quote: BookTickerUpdate) => {
+      clearTimeout(timeout);
+      resolve(quote);
+    };
+    const timeout = setTimeout(() => {
+      quoteWaiters.set(symbol, (quoteWaiters.get(symbol) || []).filter(w => w !== waiter));
+      unwatchIdle();
+      reject(new Error(`No market data for ${symbol}; cannot simulate the order.`));
+    }, QUOTE_TIMEOUT);
+    quoteWaiters.set(symbol, [...(quoteWaiters.get(symbol) || []), waiter]);
+  });
+};
+
+// In hedge mode trading against a leg is implicitly reduce-only
+const isReducing = (o: PaperOrder): boolean => {
+  if (o.reduceOnly || o.closePosition) return true;
+  return o.positionSide !== 'BOTH' && (o.positionSide === 'LONG') === (o.side === OrderSide.SELL);
+};
+
+/**
+ * Size the order may actually trade. Reducing orders are clipped to the
+ * position they reduce; closePosition takes all of it.
+ */
+const executableQty = (o: PaperOrder): number => {
+  const remaining = o.origQty - o.executedQty;
+  if (!isReducing(o)) return remaining;
+
+  // Only the opposite-signed part of the position can be reduced
+  const position = getDemoPositionAmount(o.symbol, o.positionSide);
+  const reducible = o.side === OrderSide.BUY ? Math.max(0, -position) : Math.max(0, position);
+  return o.closePosition ? reducible : Math.min(remaining, reducible);
+};
+
+const fill = (o: PaperOrder, price: number, isMaker: boolean) => {
+  const qty = executableQty(o);
+  o.updateTime = Date.now();
+
+  if (qty <= 0) {
+    // Nothing left to reduce: Binance expires the order instead of opening a position
+    o.status = 'EXPIRED';
+    emit(o, 'EXPIRED');
+    return;
+  }
+
+  const rules = getCachedSymbolRules(o.symbol);
+  const fillPrice = parseFloat(roundToStep(price, rules.tickSize));
+  const fee = qty * fillPrice * (isMaker ? config.makerFeeRate : config.takerFeeRate);
+  const realized = applyDemoFill({
+    symbol: o.symbol,
+    side: o.side,
+    positionSide: o.positionSide,
+    quantity: qty,
+    price: fillPrice,
+    fee
+  });
+
+  if (o.closePosition) o.origQty = qty;
+  o.executedQty += qty;
+  o.cumQuote += qty * fillPrice;
+  // A clipped reduce-only order has nothing further to do
+  o.status = 'FILLED';
+  emit(o, 'TRADE', { qty, price: fillPrice, realized });
+
+  const accountUpdate = buildDemoAccountUpdate(o.symbol, o.positionSide, realized - fee);
+  listeners.forEach(l => l.handlers.onAccountUpdate?.(accountUpdate));
+};
+
+/**
+ * Taker execution at the touch, worsened by the configured slippage and
+ * capped at the limit price when there is one.
+ */
+const takeLiquidity = (o: PaperOrder, quote: BookTickerUpdate) => {
+  const slip = config.slippageBps / 10000;
+  let price = o.side === OrderSide.BUY ? quote.askPrice * (1 + slip) : quote.bidPrice * (1 - slip);
+  if (o.price > 0) {
+    price = o.side === OrderSide.BUY ? Math.min(price, o.price) : Math.max(price, o.price);
+  }
+  fill(o, price, false);
+};
+
+const isMarketable = (o: PaperOrder, quote: BookTickerUpdate) => {
+  return o.side === OrderSide.BUY ? quote.askPrice <= o.price : quote.bidPrice >= o.price;
+};
+
+const isStopType = (type: OrderType) => type === OrderType.STOP_LIMIT || type === OrderType.STOP_MARKET;
+
+/**
+ * Stops fire when price moves against the side (buy stop above, sell stop
+ * below); take-profits when it moves in favour.
+ */
+const shouldTrigger = (o: PaperOrder, reference: number) => {
+  const above = reference >= o.stopPrice;
+  const below = reference <= o.stopPrice;
+  if (o.side === OrderSide.BUY) return isStopType(o.type) ? above : below;
+  return isStopType(o.type) ? below : above;
+};
+
+/**
+ * Advances the trailing stop; returns true once the callback is hit.
+ */
+const trailingHit = (o: PaperOrder, reference: number) => {
+  if (o.trailingExtreme === null) {
+    if (o.activationPrice) {
+      const activated = o.side === OrderSide.SELL ? reference >= o.activationPrice : reference <= o.activationPrice;
+      if (!activated) return false;
+    }
+    o.trailingExtreme = reference;
+  }
+
+  const rate = o.callbackRate / 100;
+  if (o.side === OrderSide.SELL) {
+    o.trailingExtreme = Math.max(o.trailingExtreme, reference);
+    o.stopPrice = o.trailingExtreme * (1 - rate);
+    return reference <= o.stopPrice;
+  }
+  o.trailingExtreme = Math.min(o.trailingExtreme, reference);
+  o.stopPrice = o.trailingExtreme * (1 + rate);
+  return reference >= o.stopPrice;
+};
+
+/**
+ * Runs one order against a quote. `isNew` marks the placement pass, where a
+ * crossing limit is a taker rather than a resting maker.
+ */
+const evaluate = (o: PaperOrder, quote: BookTickerUpdate, isNew: boolean) => {
+  // The mark price stream is not simulated; both trigger sources use the mid
+  const reference = midOf(quote);
+
+  switch (o.type) {
+    case OrderType.MARKET:
+      takeLiquidity(o, quote);
+      return;
+
+    case OrderType.TRAILING_STOP_MARKET:
+      if (trailingHit(o, reference)) takeLiquidity(o, quote);
+      return;
+
+    case OrderType.STOP_MARKET:
+    case OrderType.TAKE_PROFIT_MARKET:
+      if (shouldTrigger(o, reference)) takeLiquidity(o, quote);
+      return;
+
+    case OrderType.STOP_LIMIT:
+    case OrderType.TAKE_PROFIT:
+      if (!o.triggered) {
+        if (!shouldTrigger(o, reference)) return;
+        o.triggered = true;
+        isNew = true; // Freshly triggered limits cross as takers
+      }
+      break;
+  }
+
+  // Plain or triggered limit
+  if (!isMarketable(o, quote)) return;
+  if (isNew) {
+    takeLiquidity(o, quote);
+  } else {
+    fill(o, o.price, true);
+  }
+};
+
+const onQuote = (quote: BookTickerUpdate) => {
+  const symbol = quote.symbol;
+  quotes.set(symbol, quote);
+  setDemoMarkPrice(symbol, midOf(quote));
+
+  const waiters = quoteWaiters.get(symbol);
+  if (waiters) {
+    quoteWaiters.delete(symbol);
+    waiters.forEach(w => w(quote));
+  }
+
+  const resting = openOrdersFor(symbol);
+  if (resting.length === 0) return;
+  resting.forEach(o => evaluate(o, quote, false));
+  unwatchIdle();
+};
+
+const findOrder = (symbol: string, id: Record<string, string>): PaperOrder => {
+  const upper = symbol.toUpperCase();
+  const matches = (o: PaperOrder) => o.symbol === upper && (
+    id.orderId ? o.orderId === parseInt(id.orderId) : o.clientOrderId === id.origClientOrderId
+  );
+  // The most recent order wins when a client id was reused
+  const match = Array.from(orders.values()).find(matches) || Array.from(finished.values()).reverse().find(matches);
+  if (!match) throw new Error('Unknown order sent.');
+  return match;
+};
+
+const requiredMargin = (o: PaperOrder, quote: BookTickerUpdate) => {
+  const reference = o.price || o.stopPrice || midOf(quote);
+  const notional = o.origQty * reference;
+  return notional / getDemoLeverage(o.symbol) + notional * config.takerFeeRate;
+};
+
+const reservedMargin = () => {
+  return Array.from(orders.values())
+    .filter(o => isOpen(o) && !isReducing(o))
+    .reduce((sum, o) => {
+      const quote = quotes.get(o.symbol);
+      return quote ? sum + requiredMargin(o, quote) : sum;
+    }, 0);
+};
+
+export const paperPlaceOrder = async (order: OrderRequest): Promise<BinanceOrderResponse> => {
+  await delay();
+
+  const symbol = order.symbol.toUpperCase();
+  const positionSide: PositionSide = order.positionSide || 'BOTH';
+  const hedge = getDemoPositionMode() === 'HEDGE';
+  if (hedge !== (positionSide !== 'BOTH')) {
+    throw new Error("Order's position side does not match user's setting.");
+  }
+  if (order.reduceOnly && hedge) {
+    throw new Error('Parameter reduceonly sent when not required.');
+  }
+
+  const clientOrderId = order.newClientOrderId || `web_${Date.now()}${Math.random().toString(36).slice(2, 6)}`;
+  if (Array.from(orders.values()).some(o => isOpen(o) && o.clientOrderId === clientOrderId)) {
+    throw new Error('Duplicate clientOrderId.');
+  }
+
+  const quote = await awaitQuote(symbol);
+  const closePosition = !!order.closePosition && supportsClosePosition(order.type);
+  const o: PaperOrder = {
+    orderId: nextOrderId++,
+    clientOrderId,
+    symbol,
+    side: order.side,
+    type: order.type,
+    positionSide,
+    origQty: closePosition ? 0 : parseFloat(order.quantity),
+    price: requiresPrice(order.type) ? parseFloat(order.price || '0') : 0,
+    stopPrice: parseFloat(order.stopPrice || '0'),
+    timeInForce: supportsTimeInForce(order.type) ? (order.timeInForce || TimeInForce.GTC) : TimeInForce.GTC,
+    workingType: order.workingType || WorkingType.CONTRACT_PRICE,
+    priceProtect: !!order.priceProtect,
+    reduceOnly: !!order.reduceOnly,
+    closePosition,
+    callbackRate: parseFloat(order.callbackRate || '0'),
+    activationPrice: parseFloat(order.activationPrice || '0'),
+    status: 'NEW',
+    executedQty: 0,
+    cumQuote: 0,
+    triggered: false,
+    trailingExtreme: null,
+    updateTime: Date.now()
+  };
+
+  if (!closePosition && !(o.origQty > 0)) {
+    throw new Error('Quantity less than or equal to zero.');
+  }
+
+  // Binance refuses conditionals that would fire on arrival (-2021)
+  if ((isStopType(o.type) || o.type === OrderType.TAKE_PROFIT || o.type === OrderType.TAKE_PROFIT_MARKET)
+    && shouldTrigger(o, midOf(quote))) {
+    throw new Error('Order would immediately trigger.');
+  }
+
+  if (!isReducing(o)) {
+    if (requiredMargin(o, quote) > getDemoAvailableBalance() - reservedMargin()) {
+      throw new Error('Margin is insufficient.');
+    }
+  }
+
+  // Post-only and immediate-or-kill limits are decided on arrival
+  if (o.type === OrderType.LIMIT) {
+    const crosses = isMarketable(o, quote);
+    if ((o.timeInForce === TimeInForce.GTX && crosses)
+      || ((o.timeInForce === TimeInForce.IOC || o.timeInForce === TimeInForce.FOK) && !crosses)) {
+      o.status = 'EXPIRED';
+      orders.set(o.orderId, o);
+      emit(o, 'EXPIRED');
+      return toResponse(o);
+    }
+  }
+
+  orders.set(o.orderId, o);
+  const response = toResponse(o);
+  emit(o, 'NEW');
+  watch(symbol);
+
+  // Match asynchronously so the REST response (status NEW) lands before the fill event
+  setTimeout(() => {
+    if (!isOpen(o)) return;
+    evaluate(o, quotes.get(symbol) || quote, true);
+    unwatchIdle();
+  }, 0);
+
+  return response;
+};
+
+export const paperCancelOrder = async (symbol: string, id: Record<string, string>): Promise<BinanceOrderResponse> => {
+  await delay();
+  const o = findOrder(symbol, id);
+  if (!isOpen(o)) throw new Error('Unknown order sent.');
+
+  o.status = 'CANCELED';
+  o.updateTime = Date.now();
+  emit(o, 'CANCELED');
+  unwatchIdle();
+  return toResponse(o);
+};
+
+export const paperCancelAllOrders = async (symbol: string): Promise<{ code: number; msg: string }> => {
+  await delay();
+  const now = Date.now();
+  openOrdersFor(symbol.toUpperCase()).forEach(o => {
+    o.status = 'CANCELED';
+    o.updateTime = now;
+    emit(o, 'CANCELED');
+  });
+  unwatchIdle();
+  return { code: 200, msg: 'The operation of cancel all open order is done.' };
+};
+
+export const paperAmendOrder = async (id: Record<string, string>, amendment: OrderAmendment): Promise<BinanceOrderResponse> => {
+  await delay();
+  const o = findOrder(amendment.symbol, id);
+  if (!isOpen(o)) throw new Error('Unknown order sent.');
+  if (o.type !== OrderType.LIMIT) throw new Error('Only LIMIT orders can be modified.');
+  if (o.side !== amendment.side) throw new Error('Order side cannot be modified.');
+
+  const quantity = parseFloat(amendment.quantity);
+  if (!(quantity > o.executedQty)) {
+    throw new Error('Quantity less than or equal to the executed quantity.');
+  }
+
+  o.price = parseFloat(amendment.price);
+  o.origQty = quantity;
+  o.updateTime = Date.now();
+  const response = toResponse(o);
+  emit(o, 'AMENDMENT');
+
+  const quote = quotes.get(o.symbol);
+  if (quote) {
+    setTimeout(() => {
+      if (!isOpen(o)) return;
+      evaluate(o, quotes.get(o.symbol) || quote, true);
+      unwatchIdle();
+    }, 0);
+  }
+  return response;
+};
+
+/**
+ * Looks an order up in any state; null when it was never placed or is older
+ * than the last MAX_FINISHED_ORDERS final orders.
+ */
+export const paperGetOrder = async (symbol: string, id: Record<string, string>): Promise<BinanceOrderResponse | null> => {
+  await delay();
+  try {
+    return toResponse(findOrder(symbol, id));
+  } catch {
+    return null;
+  }
+};
+
+export const paperGetOpenOrders = async (symbol?: string): Promise<BinanceOrderResponse[]> => {
+  await delay();
+  return Array.from(orders.values())
+    .filter(o => isOpen(o) && (!symbol || o.symbol === symbol.toUpperCase()))
+    .map(toResponse);
+};
+
+export const hasPaperOpenOrders = (): boolean => Array.from(orders.values()).some(isOpen);
+
+/**
+ * Stand-in for subscribeToUserData in Demo Mode; same callbacks, same payloads.
+ */
+export const subscribeToPaperUserData = (
+  onOrderUpdate: (data: OrderUpdate) => void,
+  handlers: UserDataHandlers = {}
+) => {
+  const listener: Listener = { onOrderUpdate, handlers };
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
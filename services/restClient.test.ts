@@ -0,0 +1,34 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { BinanceApiError, binanceRequest } from './restClient';
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+beforeAll(() => {
+  vi.stubGlobal('window', globalThis);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.stubGlobal('window', globalThis);
+});
+
+describe('binanceRequest -1021 handling', () => {
+  it('rethrows the original -1021 when the clock resync fails', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.includes('/fapi/v1/time')
+      ? json(503, { code: -1007, msg: 'Timeout waiting for response from backend server.' })
+      : json(400, { code: -1021, msg: 'Timestamp for this request is outside of the recvWindow.' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await binanceRequest({
+      method: 'GET',
+      path: '/fapi/v2/balance',
+      security: 'SIGNED',
+      creds: { apiKey: 'key', apiSecret: 'secret' }
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(BinanceApiError);
+    expect(error.code).toBe(-1021);
+    // The signed request is not sent again without a fresh offset
+    expect(fetchMock.mock.calls.filter(([url]) => url.includes('/fapi/v2/balance'))).toHaveLength(1);
+  });
+});
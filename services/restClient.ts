@@ -0,0 +1,292 @@
+import { ApiCredentials } from '../types';
+import { signPayload } from '../utils/signing';
+import { getRestBaseUrl, isProxySigning } from './environment';
+import { getRecvWindow, getServerTimestamp, syncServerTime } from './timeSync';
+
+/**
+ * The one place REST requests to the exchange are built and sent: parameter
+ * encoding, timestamps and signing, error decoding, and rate-limit accounting
+ * from the X-MBX-* response headers. Requests hold back on their own when a
+ * limit is nearly used up, and stop entirely while Binance has us in a
+ * 429/418 backoff, since ignoring those escalates to an IP ban.
+ */
+
+// NONE: public market data; USER_STREAM: API key only; SIGNED: key + signature
+export type SecurityType = 'NONE' | 'USER_STREAM' | 'SIGNED';
+
+export interface RestRequest {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  params?: Record<string, string | number | boolean | undefined>;
+  security?: SecurityType;
+  creds?: ApiCredentials;
+  // Counts against the order-rate limits (placing / amending orders)
+  isOrder?: boolean;
+  // Fallback message prefix when the response carries no msg
+  errorLabel?: string;
+}
+
+export interface RateLimitStatus {
+  usedWeight1m: number;
+  weightLimit1m: number;
+  orderCount10s: number;
+  orderLimit10s: number;
+  orderCount1m: number;
+  orderLimit1m: number;
+  blockedUntil: number | null; // Set after a 429/418 until Retry-After passes
+  updatedAt: number | null;
+}
+
+// USDT-M defaults (exchangeInfo.rateLimits)
+const WEIGHT_LIMIT_1M = 2400;
+const ORDER_LIMIT_10S = 300;
+const ORDER_LIMIT_1M = 1200;
+// Start holding requests back once this share of a limit is used
+const THROTTLE_THRESHOLD = 0.9;
+// Longest proactive pause before we give up and let the caller decide
+const MAX_THROTTLE_WAIT = 15000;
+const DEFAULT_BACKOFF_MS = 2000;
+const MAX_RETRIES = 2;
+const REQUEST_TIMEOUT_MS = 10000;
+
+// Codes that mean the request was rejected before it was executed
+const RETRYABLE_CODES = new Set([
+  -1001, // Internal error; unable to process your request
+  -1003, // Too many requests
+  -1008, // Server is currently overloaded
+  -1015  // Too many new orders
+]);
+// Codes (and 5xx) after which the outcome is unknown: the order may exist
+const UNKNOWN_STATUS_CODES = new Set([
+  -1006, // Unexpected response from the message bus; execution status unknown
+  -1007  // Timeout waiting for response from backend server; execution status unknown
+]);
+const TIMESTAMP_ERROR_CODE = -1021;
+
+/**
+ * Error returned by the exchange (or synthesized for a request we refused to
+ * send). `retryable` means it was not executed and can be sent again as-is;
+ * `executionUnknown` means it may or may not have been executed.
+ */
+export class BinanceApiError extends Error {
+  readonly code: number;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly executionUnknown: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(code: number, msg: string, status: number, retryAfterMs: number | null = null) {
+    super(msg);
+    this.name = 'BinanceApiError';
+    this.code = code;
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    // status 0: no response at all (network failure or our own timeout)
+    this.executionUnknown = UNKNOWN_STATUS_CODES.has(code) || status === 0 || (status >= 500 && !RETRYABLE_CODES.has(code));
+    this.retryable = status === 429 || status === 418 || RETRYABLE_CODES.has(code);
+  }
+
+  get msg(): string {
+    return this.message;
+  }
+}
+
+export const isBinanceApiError = (e: unknown): e is BinanceApiError => e instanceof BinanceApiError;
+
+let limits: RateLimitStatus = {
+  usedWeight1m: 0,
+  weightLimit1m: WEIGHT_LIMIT_1M,
+  orderCount10s: 0,
+  orderLimit10s: ORDER_LIMIT_10S,
+  orderCount1m: 0,
+  orderLimit1m: ORDER_LIMIT_1M,
+  blockedUntil: null,
+  updatedAt: null
+};
+
+const listeners = new Set<(status: RateLimitStatus) => void>();
+
+const publish = (patch: Partial<RateLimitStatus>) => {
+  limits = { ...limits, ...patch };
+  listeners.forEach(listener => listener({ ...limits }));
+};
+
+export const getRateLimitStatus = (): RateLimitStatus => ({ ...limits });
+
+export const subscribeToRateLimits = (listener: (status: RateLimitStatus) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Counters reset on exchange-clock window boundaries
+const msUntilNext = (windowMs: number) => windowMs - (getServerTimestamp() % windowMs);
+
+const windowOf = (windowMs: number, at: number | null) => at === null ? -1 : Math.floor(at / windowMs);
+
+/**
+ * How long to hold the next request so it does not cross a limit, judging
+ * by the counters from the last response in the same window.
+ */
+const throttleDelay = (isOrder: boolean): number => {
+  const now = getServerTimestamp();
+  if (limits.blockedUntil !== null && limits.blockedUntil > Date.now()) {
+    return limits.blockedUntil - Date.now();
+  }
+
+  let wait = 0;
+  const sameMinute = windowOf(60000, limits.updatedAt) === windowOf(60000, now);
+  if (sameMinute && limits.usedWeight1m >= limits.weightLimit1m * THROTTLE_THRESHOLD) {
+    wait = Math.max(wait, msUntilNext(60000));
+  }
+  if (isOrder) {
+    const sameTenSeconds = windowOf(10000, limits.updatedAt) === windowOf(10000, now);
+    if (sameTenSeconds && limits.orderCount10s >= limits.orderLimit10s * THROTTLE_THRESHOLD) {
+      wait = Math.max(wait, msUntilNext(10000));
+    }
+    if (sameMinute && limits.orderCount1m >= limits.orderLimit1m * THROTTLE_THRESHOLD) {
+      wait = Math.max(wait, msUntilNext(60000));
+    }
+  }
+  return wait;
+};
+
+const recordHeaders = (headers: Headers) => {
+  const read = (name: string) => {
+    const value = headers.get(name);
+    return value === null ? undefined : parseInt(value, 10);
+  };
+  const patch: Partial<RateLimitStatus> = { updatedAt: getServerTimestamp() };
+  const weight = read('x-mbx-used-weight-1m');
+  const orders10s = read('x-mbx-order-count-10s');
+  const orders1m = read('x-mbx-order-count-1m');
+  if (weight !== undefined) patch.usedWeight1m = weight;
+  if (orders10s !== undefined) patch.orderCount10s = orders10s;
+  if (orders1m !== undefined) patch.orderCount1m = orders1m;
+  publish(patch);
+};
+
+const retryAfterOf = (headers: Headers): number | null => {
+  const value = headers.get('retry-after');
+  if (value === null) return null;
+  const seconds = parseFloat(value);
+  return isNaN(seconds) ? null : seconds * 1000;
+};
+
+/**
+ * Percent-encodes params in insertion order; `undefined` values are dropped.
+ * The signature is computed over exactly this string.
+ */
+export const encodeParams = (params: Record<string, string | number | boolean | undefined>): string => {
+  return Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+};
+
+const send = async (request: RestRequest): Promise<Response> => {
+  const security = request.security || 'NONE';
+  const creds = request.creds || { apiKey: '', apiSecret: '' };
+  const proxied = isProxySigning();
+  const params = { ...request.params };
+
+  if (security === 'SIGNED') {
+    params.timestamp = getServerTimestamp();
+    params.recvWindow = getRecvWindow();
+  }
+  let query = encodeParams(params);
+
+  if (security === 'SIGNED' && !proxied) {
+    if (!creds.apiKey || !creds.apiSecret) throw new Error('API Credentials missing');
+    query = `${query}&signature=${encodeURIComponent(await signPayload(creds, query))}`;
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  // The signing proxy adds its own key
+  if (security !== 'NONE' && !proxied) {
+    if (!creds.apiKey) throw new Error('API Key missing');
+    headers['X-MBX-APIKEY'] = creds.apiKey;
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(`${getRestBaseUrl()}${request.path}${query ? `?${query}` : ''}`, {
+      method: request.method,
+      headers,
+      signal: controller.signal
+    });
+  } catch (e: any) {
+    // The request may still have reached the exchange
+    if (e?.name === 'AbortError') {
+      throw new BinanceApiError(-1007, `Request timed out after ${REQUEST_TIMEOUT_MS / 1000}s; execution status unknown.`, 0);
+    }
+    throw new BinanceApiError(-1000, `Network error: ${e?.message || 'request failed'}; execution status unknown.`, 0);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Sends a request and returns the decoded JSON body, throwing
+ * BinanceApiError for exchange errors. Retries on its own only when the
+ * request was certainly not executed: rate-limit rejections (after waiting
+ * Retry-After) and a single -1021 after resyncing the clock.
+ */
+export const binanceRequest = async <T = any>(request: RestRequest): Promise<T> => {
+  const label = request.errorLabel || 'API Error';
+
+  for (let attempt = 0; ; attempt++) {
+    const wait = throttleDelay(!!request.isOrder);
+    if (wait > MAX_THROTTLE_WAIT) {
+      throw new BinanceApiError(-1003, `Rate limit reached; requests paused for ${Math.ceil(wait / 1000)}s.`, 429, wait);
+    }
+    if (wait > 0) await sleep(wait);
+
+    const response = await send(request);
+    recordHeaders(response.headers);
+
+    const text = await response.text();
+    let data: any = null;
+    try {
+      data = text ? JSON.parse(text) : null;
+    } catch {
+      // Gateways answer some failures with HTML
+    }
+    if (response.ok) return data as T;
+
+    const retryAfterMs = retryAfterOf(response.headers);
+    const error = new BinanceApiError(
+      typeof data?.code === 'number' ? data.code : -1000,
+      data?.msg || `${label}: ${response.status}`,
+      response.status,
+      retryAfterMs
+    );
+
+    const backoff = retryAfterMs ?? DEFAULT_BACKOFF_MS * 2 ** attempt;
+    const rateLimited = response.status === 429 || response.status === 418;
+    if (rateLimited) {
+      // Everything waits, not just this request
+      publish({ blockedUntil: Date.now() + backoff });
+    }
+
+    if (error.code === TIMESTAMP_ERROR_CODE && attempt === 0 && request.security === 'SIGNED') {
+      try {
+        await syncServerTime();
+      } catch {
+        // Callers expect a BinanceApiError; the clock problem is the one to report
+        throw error;
+      }
+      continue;
+    }
+    if (error.retryable && attempt < MAX_RETRIES) {
+      // A rate-limited retry waits out blockedUntil at the top of the loop
+      if (!rateLimited) await sleep(backoff);
+      continue;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,140 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { BinanceOrderResponse, OrderRequest } from '../types';
+import { OrderUpdate } from './websocket';
+import { createStrategyRuntime } from './strategyRuntime';
+import { dcaBot } from '../strategies/dca';
+
+const tickers = vi.hoisted(() => new Map<string, (price: string) => void>());
+
+vi.mock('./websocket', () => ({
+  subscribeToTicker: (symbol: string, callback: (price: string) => void) => {
+    tickers.set(symbol, callback);
+    return () => tickers.delete(symbol);
+  }
+}));
+vi.mock('./candles', () => ({ subscribeToCandles: () => () => {} }));
+
+beforeAll(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => store.set(key, value),
+    removeItem: (key: string) => store.delete(key)
+  });
+});
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const filled = (order: OrderRequest, price: number): BinanceOrderResponse => ({
+  orderId: 1,
+  symbol: order.symbol,
+  status: 'FILLED',
+  clientOrderId: order.newClientOrderId!,
+  price: '0',
+  avgPrice: price.toString(),
+  origQty: order.quantity!,
+  executedQty: order.quantity!,
+  cumQuote: '0',
+  timeInForce: 'GTC',
+  type: 'MARKET',
+  side: order.side,
+  stopPrice: '0',
+  workingType: 'CONTRACT_PRICE',
+  priceProtect: false,
+  origType: 'MARKET',
+  updateTime: Date.now()
+});
+
+const updateOf = (response: BinanceOrderResponse): OrderUpdate => ({
+  symbol: response.symbol,
+  orderId: response.orderId,
+  clientOrderId: response.clientOrderId,
+  side: response.side,
+  type: response.type,
+  status: response.status,
+  executionType: 'TRADE',
+  price: response.price,
+  stopPrice: response.stopPrice,
+  originalQty: response.origQty,
+  executedQty: response.executedQty,
+  avgPrice: response.avgPrice,
+  lastFilledQty: response.executedQty,
+  lastFilledPrice: response.avgPrice,
+  realizedProfit: '0',
+  reduceOnly: false,
+  positionSide: 'BOTH',
+  updateTime: response.updateTime
+});
+
+describe('strategy runtime', () => {
+  it('keeps a filled order open until its update has reached the strategy', async () => {
+    let price = 100;
+    const sent: BinanceOrderResponse[] = [];
+    const runtime = createStrategyRuntime({
+      strategies: [dcaBot],
+      submitOrder: async (order) => {
+        const response = filled(order, price);
+        sent.push(response);
+        return response;
+      },
+      cancelOrder: async () => {},
+      getOrder: async () => null,
+      getPositions: () => [],
+      getAccount: () => null,
+      onLog: () => {},
+      onChange: () => {}
+    });
+    await runtime.restore('demo');
+    runtime.start('dca', 'BTCUSDT', { quoteAmount: 100, intervalMinutes: 60, maxBuys: 1, takeProfitPercent: 1 });
+    const tick = () => tickers.get('BTCUSDT')!(price.toString());
+
+    tick();
+    await settle();
+    runtime.handleOrderUpdate(updateOf(sent[0]));
+    await settle();
+
+    // The take-profit fills at once, but its update lags behind the next tick
+    price = 110;
+    tick();
+    await settle();
+    tick();
+    await settle();
+    expect(sent.map(r => r.side)).toEqual(['BUY', 'SELL']);
+
+    runtime.handleOrderUpdate(updateOf(sent[1]));
+    await settle();
+    const [instance] = runtime.list();
+    expect(instance.status).toBe('RUNNING');
+    expect(instance.openOrderIds).toEqual([]);
+    expect(instance.state.cycles).toBe(1);
+  });
+
+  it('keeps a stopped instance while one of its orders may still be live', async () => {
+    let cancelFails = true;
+    const runtime = createStrategyRuntime({
+      strategies: [dcaBot],
+      submitOrder: async (order) => ({ ...filled(order, 100), status: 'NEW' }),
+      cancelOrder: async () => {
+        if (cancelFails) throw new Error('Timeout waiting for response from backend server.');
+      },
+      getOrder: async () => {
+        throw new Error('Timeout waiting for response from backend server.');
+      },
+      getPositions: () => [],
+      getAccount: () => null,
+      onLog: () => {},
+      onChange: () => {}
+    });
+    await runtime.restore('stop-test');
+    const { id } = runtime.start('dca', 'ETHUSDT', { quoteAmount: 100, intervalMinutes: 60, maxBuys: 1, takeProfitPercent: 1 });
+    tickers.get('ETHUSDT')!('100');
+    await settle();
+
+    await runtime.stop(id);
+    expect(runtime.list().map(i => [i.status, i.openOrderIds.length])).toEqual([['FAILED', 1]]);
+
+    cancelFails = false;
+    await runtime.stop(id);
+    expect(runtime.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,449 @@
+import {
+  AssetBalance,
+  AccountInfo,
+  BinanceOrderResponse,
+  Kline,
+  KlineInterval,
+  LogEntry,
+  OrderRequest,
+  Position,
+  StrategyInstance
+} from '../types';
+import { OrderUpdate, subscribeToTicker } from './websocket';
+import { subscribeToCandles } from './candles';
+
+/**
+ * Runs strategy plugins. A strategy is a plain object of callbacks (see
+ * `Strategy`); the runtime feeds each running instance its symbol's prices,
+ * closed candles, order updates and position changes, one event at a time,
+ * and hands it a context for placing and cancelling orders.
+ *
+ * Orders an instance places carry its id as client id prefix, which is how
+ * their updates find their way back. Instances are persisted to localStorage
+ * per venue like grid bots, strategy state included, so they pick up where
+ * they left off after a reload. A callback that throws pauses its instance.
+ */
+
+export type StrategyOrder = Omit<OrderRequest, 'symbol' | 'newClientOrderId'>;
+
+export interface StrategyParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min?: number;
+  step?: number;
+}
+
+export interface StrategyContext<S = any> {
+  readonly instanceId: string;
+  readonly symbol: string;
+  readonly params: Record<string, number>;
+  state: S; // Saved after every callback that changes it
+  placeOrder: (order: StrategyOrder) => Promise<BinanceOrderResponse>;
+  cancelOrder: (clientOrderId: string) => Promise<void>;
+  getPositions: () => Position[]; // Open legs on this symbol
+  getBalances: () => AssetBalance[];
+  getOpenOrderIds: () => string[];
+  log: (level: LogEntry['level'], message: string, details?: any) => void;
+}
+
+export interface Strategy<S = any> {
+  id: string;
+  name: string;
+  description: string;
+  params: StrategyParam[];
+  klineInterval?: KlineInterval; // Candles onKline is called with
+  initialState: (params: Record<string, number>) => S;
+  describe?: (state: S, params: Record<string, number>) => string; // One-line status for the panel
+  // Each time the instance starts receiving events: start, resume and restore
+  onStart?: (ctx: StrategyContext<S>) => void | Promise<void>;
+  onTick?: (ctx: StrategyContext<S>, price: number) => void | Promise<void>;
+  // Once per closed candle; `history` is every closed candle up to and including it
+  onKline?: (ctx: StrategyContext<S>, kline: Kline, history: Kline[]) => void | Promise<void>;
+  onOrderUpdate?: (ctx: StrategyContext<S>, update: OrderUpdate) => void | Promise<void>;
+  // When the size or entry of this symbol's position changes; empty once flat
+  onPositionUpdate?: (ctx: StrategyContext<S>, positions: Position[]) => void | Promise<void>;
+}
+
+export interface StrategyRuntimeDeps {
+  strategies: Strategy[];
+  submitOrder: (order: OrderRequest) => Promise<BinanceOrderResponse>;
+  cancelOrder: (symbol: string, clientOrderId: string) => Promise<any>;
+  // Resolves to null when the exchange has no order with this client id
+  getOrder: (symbol: string, clientOrderId: string) => Promise<BinanceOrderResponse | null>;
+  getPositions: () => Position[];
+  getAccount: () => AccountInfo | null;
+  onLog: (level: LogEntry['level'], message: string, details?: any, source?: string) => void;
+  onChange: (instances: StrategyInstance[]) => void;
+}
+
+// Event plumbing of an instance that is currently running
+interface LiveInstance {
+  unsubscribe: (() => void)[];
+  queue: Promise<void>;
+  price: number | null;
+  tickQueued: boolean;
+  lastKlineTime: number | null;
+  positionKey: string;
+}
+
+const STORAGE_KEY = 'binance-terminal.strategies';
+const RESTING_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+const newStrategyInstanceId = () => `stg_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const loadInstances = (): StrategyInstance[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+const symbolPositions = (positions: Position[], symbol: string) =>
+  positions.filter(p => p.symbol === symbol && p.positionAmt !== 0);
+
+// Mark price moves are not position changes
+const positionKey = (positions: Position[]) =>
+  positions.map(p => `${p.positionSide}:${p.positionAmt}@${p.entryPrice}`).join(',');
+
+export const createStrategyRuntime = (deps: StrategyRuntimeDeps) => {
+  const registry = new Map(deps.strategies.map(s => [s.id, s]));
+  const instances = new Map<string, StrategyInstance>(loadInstances().map(i => [i.id, i]));
+  const live = new Map<string, LiveInstance>();
+  let venue: string | null = null;
+
+  const list = () => Array.from(instances.values()).filter(i => i.venue === venue);
+
+  const commit = (instance?: StrategyInstance) => {
+    if (instance) instance.updatedAt = Date.now();
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(Array.from(instances.values())));
+    } catch (e: any) {
+      deps.onLog('WARN', 'Failed to save strategy state', { error: e.message });
+    }
+    deps.onChange(list().map(i => ({ ...i, openOrderIds: [...i.openOrderIds], state: structuredClone(i.state) })));
+  };
+
+  const sourceOf = (instance: StrategyInstance) =>
+    `${registry.get(instance.strategyId)?.name || instance.strategyId} ${instance.symbol} #${instance.id.slice(-4)}`;
+
+  const log = (instance: StrategyInstance, level: LogEntry['level'], message: string, details?: any) => {
+    deps.onLog(level, message, details, sourceOf(instance));
+  };
+
+  const forgetOrder = (instance: StrategyInstance, clientOrderId: string) => {
+    instance.openOrderIds = instance.openOrderIds.filter(id => id !== clientOrderId);
+  };
+
+  const contextFor = (instance: StrategyInstance): StrategyContext => ({
+    instanceId: instance.id,
+    symbol: instance.symbol,
+    params: instance.params,
+    get state() {
+      return instance.state;
+    },
+    set state(next) {
+      instance.state = next;
+    },
+    placeOrder: async (order) => {
+      if (instance.status !== 'RUNNING') throw new Error('Strategy is not running');
+      const clientOrderId = `${instance.id}_${Date.now().toString(36).slice(-5)}${Math.random().toString(36).slice(2, 5)}`;
+      // Tracked before submitting, so an update that beats the response still finds it.
+      // It stays tracked until handleOrderUpdate has delivered the final status,
+      // even when the response already says FILLED
+      instance.openOrderIds.push(clientOrderId);
+      commit(instance);
+      try {
+        return await deps.submitOrder({ ...order, symbol: instance.symbol, newClientOrderId: clientOrderId });
+      } catch (e) {
+        forgetOrder(instance, clientOrderId);
+        commit(instance);
+        throw e;
+      }
+    },
+    cancelOrder: async (clientOrderId) => {
+      await deps.cancelOrder(instance.symbol, clientOrderId);
+      forgetOrder(instance, clientOrderId);
+      commit(instance);
+    },
+    getPositions: () => symbolPositions(deps.getPositions(), instance.symbol),
+    getBalances: () => deps.getAccount()?.assets || [],
+    getOpenOrderIds: () => [...instance.openOrderIds],
+    log: (level, message, details) => log(instance, level, message, details)
+  });
+
+  /**
+   * Queues a callback behind the instance's previous ones. Nothing runs once
+   * the instance is paused; a callback that throws pauses it. `settle` runs
+   * once the callback is done, or would have been, whatever the outcome.
+   */
+  const dispatch = (
+    instance: StrategyInstance,
+    event: string,
+    run: (strategy: Strategy, ctx: StrategyContext) => any,
+    settle?: () => void
+  ) => {
+    const entry = live.get(instance.id);
+    const strategy = registry.get(instance.strategyId);
+    if (!entry || !strategy) {
+      settle?.();
+      return;
+    }
+
+    entry.queue = entry.queue.then(async () => {
+      try {
+        if (instance.status !== 'RUNNING' || live.get(instance.id) !== entry) return;
+        const before = JSON.stringify(instance.state);
+        try {
+          await run(strategy, contextFor(instance));
+        } catch (e: any) {
+          log(instance, 'ERROR', `${event} failed: ${e.message}. Pausing the strategy.`);
+          pause(instance.id);
+          return;
+        }
+        if (JSON.stringify(instance.state) !== before) commit(instance);
+      } finally {
+        settle?.();
+      }
+    });
+  };
+
+  const attach = (instance: StrategyInstance) => {
+    const strategy = registry.get(instance.strategyId);
+    if (live.has(instance.id)) return;
+    if (!strategy) {
+      deps.onLog('WARN', `Strategy ${instance.id}: unknown strategy "${instance.strategyId}", not started`);
+      return;
+    }
+
+    const entry: LiveInstance = {
+      unsubscribe: [],
+      queue: Promise.resolve(),
+      price: null,
+      tickQueued: false,
+      lastKlineTime: null,
+      positionKey: positionKey(symbolPositions(deps.getPositions(), instance.symbol))
+    };
+    live.set(instance.id, entry);
+    if (strategy.onStart) dispatch(instance, 'onStart', (s, ctx) => s.onStart!(ctx));
+
+    if (strategy.onTick) {
+      entry.unsubscribe.push(subscribeToTicker(instance.symbol, (price) => {
+        entry.price = parseFloat(price);
+        // Prices arrive faster than a strategy may handle them; only the latest is delivered
+        if (entry.tickQueued) return;
+        entry.tickQueued = true;
+        dispatch(instance, 'onTick', (s, ctx) => {
+          entry.tickQueued = false;
+          return s.onTick!(ctx, entry.price!);
+        });
+      }));
+    }
+
+    if (strategy.onKline && strategy.klineInterval) {
+      entry.unsubscribe.push(subscribeToCandles(
+        instance.symbol,
+        strategy.klineInterval,
+        (candles) => {
+          const history = candles[candles.length - 1]?.closed ? candles : candles.slice(0, -1);
+          const kline = history[history.length - 1];
+          if (!kline || (entry.lastKlineTime !== null && kline.openTime <= entry.lastKlineTime)) return;
+          entry.lastKlineTime = kline.openTime;
+          dispatch(instance, 'onKline', (s, ctx) => s.onKline!(ctx, kline, history));
+        },
+        (message) => log(instance, 'WARN', message)
+      ));
+    }
+  };
+
+  const detach = (id: string) => {
+    const entry = live.get(id);
+    if (!entry) return;
+    live.delete(id);
+    entry.unsubscribe.forEach(unsubscribe => unsubscribe());
+  };
+
+  /**
+   * Feed every ORDER_TRADE_UPDATE here. Updates for orders no strategy placed
+   * are ignored.
+   */
+  const handleOrderUpdate = (data: OrderUpdate) => {
+    const instance = list().find(i => data.clientOrderId.startsWith(`${i.id}_`));
+    if (!instance) return;
+    if (instance.status === 'FAILED') {
+      if (RESTING_STATUSES.includes(data.status)) return;
+      forgetOrder(instance, data.clientOrderId);
+      commit(instance);
+      if (instance.openOrderIds.length === 0) finishStop(instance);
+      return;
+    }
+
+    // A finished order is forgotten only after onOrderUpdate has seen it, so a
+    // tick queued in between still finds it open and the state not yet updated
+    const settle = RESTING_STATUSES.includes(data.status) ? undefined : () => {
+      forgetOrder(instance, data.clientOrderId);
+      commit(instance);
+    };
+    dispatch(instance, 'onOrderUpdate', (s, ctx) => s.onOrderUpdate?.(ctx, data), settle);
+  };
+
+  /**
+   * Feed the app's positions here whenever they change.
+   */
+  const handlePositions = (positions: Position[]) => {
+    for (const instance of list()) {
+      const entry = live.get(instance.id);
+      if (!entry) continue;
+      const legs = symbolPositions(positions, instance.symbol);
+      const key = positionKey(legs);
+      if (key === entry.positionKey) continue;
+      entry.positionKey = key;
+      const strategy = registry.get(instance.strategyId);
+      if (strategy?.onPositionUpdate) dispatch(instance, 'onPositionUpdate', (s, ctx) => s.onPositionUpdate!(ctx, legs));
+    }
+  };
+
+  const start = (strategyId: string, symbol: string, params: Record<string, number>): StrategyInstance => {
+    if (venue === null) throw new Error('Strategies are not ready yet');
+    const strategy = registry.get(strategyId);
+    if (!strategy) throw new Error(`Unknown strategy "${strategyId}"`);
+    for (const param of strategy.params) {
+      const value = params[param.key];
+      if (!Number.isFinite(value) || (param.min !== undefined && value < param.min)) {
+        throw new Error(`${strategy.name}: ${param.label} must be a number${param.min !== undefined ? ` of at least ${param.min}` : ''}`);
+      }
+    }
+
+    const instance: StrategyInstance = {
+      id: newStrategyInstanceId(),
+      venue,
+      strategyId,
+      symbol: symbol.toUpperCase(),
+      params: { ...params },
+      status: 'RUNNING',
+      state: strategy.initialState(params),
+      openOrderIds: [],
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+    instances.set(instance.id, instance);
+    commit(instance);
+    log(instance, 'SUCCESS', `Started on ${instance.symbol}`, instance.params);
+    attach(instance);
+    return instance;
+  };
+
+  const cancelOutstanding = async (instance: StrategyInstance) => {
+    for (const clientOrderId of [...instance.openOrderIds]) {
+      try {
+        await deps.cancelOrder(instance.symbol, clientOrderId);
+        forgetOrder(instance, clientOrderId);
+      } catch (e: any) {
+        // Most likely filled in the meantime; its update still reaches handleOrderUpdate
+        log(instance, 'WARN', `Failed to cancel ${clientOrderId}`, { error: e.message });
+      }
+    }
+    commit(instance);
+  };
+
+  const pause = async (id: string) => {
+    const instance = instances.get(id);
+    if (!instance || instance.status !== 'RUNNING') return;
+    instance.status = 'PAUSED';
+    detach(id);
+    commit(instance);
+    await cancelOutstanding(instance);
+    log(instance, 'WARN', 'Paused, orders cancelled');
+  };
+
+  const resume = (id: string) => {
+    const instance = instances.get(id);
+    if (!instance || instance.status !== 'PAUSED') return;
+    instance.status = 'RUNNING';
+    commit(instance);
+    log(instance, 'INFO', 'Resumed');
+    attach(instance);
+  };
+
+  // Drops orders that are no longer resting on the exchange (after a reload, or a failed cancel)
+  const reconcile = async (instance: StrategyInstance) => {
+    for (const clientOrderId of [...instance.openOrderIds]) {
+      try {
+        const order = await deps.getOrder(instance.symbol, clientOrderId);
+        if (!order || !RESTING_STATUSES.includes(order.status)) forgetOrder(instance, clientOrderId);
+      } catch (e: any) {
+        log(instance, 'WARN', `Could not check order ${clientOrderId}`, { error: e.message });
+      }
+    }
+    commit(instance);
+  };
+
+  // Removes a stopping instance once none of its orders can still be live
+  const finishStop = (instance: StrategyInstance) => {
+    if (instance.openOrderIds.length > 0) {
+      instance.status = 'FAILED';
+      commit(instance);
+      log(instance, 'ERROR', `${instance.openOrderIds.length} order(s) could not be cancelled and may still be live. Stop again to retry.`, {
+        clientOrderIds: [...instance.openOrderIds]
+      });
+      return;
+    }
+    instance.status = 'STOPPED';
+    instances.delete(instance.id);
+    commit();
+    log(instance, 'WARN', 'Stopped, orders cancelled. Open positions are left as they are.');
+  };
+
+  const stop = async (id: string) => {
+    const instance = instances.get(id);
+    if (!instance) return;
+    instance.status = 'STOPPED';
+    detach(id);
+    commit(instance);
+    await cancelOutstanding(instance);
+    // A failed cancel usually means the order is already gone; ask the exchange
+    await reconcile(instance);
+    finishStop(instance);
+  };
+
+  /**
+   * Switches to the instances of `nextVenue` ('demo' or an environment id)
+   * and starts feeding the running ones again.
+   */
+  const restore = async (nextVenue: string) => {
+    Array.from(live.keys()).forEach(detach);
+    venue = nextVenue;
+    commit();
+    // Failed stops finish once the orders they were waiting on are gone
+    for (const instance of list().filter(i => i.status === 'FAILED')) {
+      await reconcile(instance);
+      if (venue !== nextVenue) return;
+      if (instance.openOrderIds.length === 0) finishStop(instance);
+    }
+
+    const restored = list().filter(i => i.status === 'RUNNING');
+    if (restored.length === 0) return;
+
+    deps.onLog('INFO', `Restoring ${restored.length} strateg${restored.length === 1 ? 'y' : 'ies'}`);
+    for (const instance of restored) {
+      await reconcile(instance);
+      if (venue !== nextVenue) return;
+      attach(instance);
+    }
+  };
+
+  return {
+    strategies: deps.strategies,
+    start,
+    pause,
+    resume,
+    stop,
+    restore,
+    handleOrderUpdate,
+    handlePositions,
+    list
+  };
+};
+
+export type StrategyRuntime = ReturnType<typeof createStrategyRuntime>;
@@ -0,0 +1,227 @@
+import { getStreamBaseUrl } from './environment';
+
+/**
+ * Reconnecting WebSocket used by every stream subscription. Reconnects back
+ * off exponentially with full jitter, so a flapping host or many tabs do not
+ * hammer the exchange in lockstep. Liveness is checked by sending a
+ * LIST_SUBSCRIPTIONS request whenever a socket has been quiet for a while
+ * (browsers answer the exchange's ping frames but cannot send their own);
+ * a socket that stops answering is marked stale and then replaced. Binance
+ * closes every connection after 24 hours, so sockets are rotated shortly
+ * before that.
+ *
+ * The state of every open connection is published for the UI.
+ */
+
+// connecting: first handshake; stale: not answering the heartbeat;
+// reconnecting: dropped, waiting for (or in) the next attempt
+export type StreamState = 'connecting' | 'open' | 'stale' | 'reconnecting';
+
+export interface StreamStatus {
+  id: number;
+  label: string;
+  state: StreamState;
+  since: number;          // When the current state was entered
+  attempts: number;       // Reconnects since the last healthy connection
+  lastError: string | null;
+}
+
+export interface StreamConnectionOptions {
+  label: string;
+  // Path under the stream base URL, e.g. /ws/btcusdt@bookTicker; re-read on every (re)connect
+  path: () => string;
+  onMessage: (msg: any) => void;
+  // `reconnected` is true after a drop: events may have been missed
+  onOpen?: (reconnected: boolean) => void;
+}
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60000;
+const HEARTBEAT_CHECK_MS = 5000;
+// Ping once a socket has delivered nothing for this long...
+const QUIET_AFTER_MS = 30000;
+// ...stale if the reply takes longer than this, replaced after twice as long
+const PONG_TIMEOUT_MS = 10000;
+// Binance disconnects at 24h; rotate a little earlier, on our own terms
+const MAX_CONNECTION_AGE_MS = 24 * 60 * 60 * 1000 - 5 * 60 * 1000;
+
+// lastError while a healthy socket is being replaced ahead of the 24h cut-off
+export const ROTATION_REASON = 'Rotating connection before the 24h limit';
+
+const statuses = new Map<number, StreamStatus>();
+const listeners = new Set<(statuses: StreamStatus[]) => void>();
+let nextConnectionId = 1;
+
+const publish = () => {
+  const snapshot = getStreamStatuses();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+export const getStreamStatuses = (): StreamStatus[] => Array.from(statuses.values()).map(s => ({ ...s }));
+
+export const subscribeToStreamStatus = (listener: (statuses: StreamStatus[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Full jitter: anywhere between zero and the exponential ceiling
+const backoffDelay = (attempt: number) => Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+
+export const openStreamConnection = (options: StreamConnectionOptions) => {
+  const id = nextConnectionId++;
+  let ws: WebSocket | null = null;
+  let closed = false;
+  let hasConnected = false;
+  let healthy = false;       // The current socket has delivered something
+  let lastMessageAt = 0;
+  let pingSentAt: number | null = null;
+  let nextRequestId = 1;
+  const pending = new Set<number>();
+  let reconnectTimeout: any = null;
+  let heartbeatInterval: any = null;
+  let rotateTimeout: any = null;
+
+  const status: StreamStatus = { id, label: options.label, state: 'connecting', since: Date.now(), attempts: 0, lastError: null };
+
+  const setState = (state: StreamState, error: string | null = status.lastError) => {
+    if (closed) return;
+    if (state !== status.state) status.since = Date.now();
+    status.state = state;
+    status.lastError = error;
+    statuses.set(id, { ...status });
+    publish();
+  };
+
+  const stopTimers = () => {
+    clearInterval(heartbeatInterval);
+    clearTimeout(rotateTimeout);
+    heartbeatInterval = null;
+    rotateTimeout = null;
+  };
+
+  // Detaches the current socket so none of its late events are acted on
+  const dropSocket = () => {
+    stopTimers();
+    const socket = ws;
+    ws = null;
+    pending.clear();
+    pingSentAt = null;
+    if (socket) {
+      socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) socket.close();
+    }
+  };
+
+  const scheduleReconnect = (reason: string, immediate = false) => {
+    dropSocket();
+    if (closed) return;
+    const delay = immediate ? 0 : backoffDelay(status.attempts);
+    status.attempts += 1;
+    setState('reconnecting', reason);
+    reconnectTimeout = setTimeout(connect, delay);
+  };
+
+  const request = (method: string, params?: string[]): boolean => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+    const requestId = nextRequestId++;
+    pending.add(requestId);
+    ws.send(JSON.stringify(params ? { method, params, id: requestId } : { method, id: requestId }));
+    return true;
+  };
+
+  const checkHeartbeat = () => {
+    const now = Date.now();
+    if (pingSentAt === null) {
+      if (now - lastMessageAt >= QUIET_AFTER_MS && request('LIST_SUBSCRIPTIONS')) pingSentAt = now;
+      return;
+    }
+    const waited = now - pingSentAt;
+    if (waited >= PONG_TIMEOUT_MS * 2) {
+      scheduleReconnect(`No heartbeat reply for ${Math.round(waited / 1000)}s`);
+    } else if (waited >= PONG_TIMEOUT_MS && status.state === 'open') {
+      setState('stale', 'Heartbeat reply overdue');
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    lastMessageAt = Date.now();
+    pingSentAt = null;
+    if (!healthy) {
+      // Only a connection that actually delivers resets the backoff
+      healthy = true;
+      status.attempts = 0;
+    }
+    if (status.state !== 'open') setState('open', null);
+
+    let msg: any;
+    try {
+      msg = JSON.parse(event.data);
+    } catch (err) {
+      console.error(`Error parsing ${options.label} message`, err);
+      return;
+    }
+    // Replies to our own requests (heartbeats, SUBSCRIBE...)
+    if (msg && msg.id !== undefined && pending.delete(msg.id)) {
+      if (msg.code !== undefined) console.warn(`${options.label} request rejected:`, msg);
+      return;
+    }
+    options.onMessage(msg);
+  };
+
+  const connect = () => {
+    reconnectTimeout = null;
+    if (closed) return;
+    healthy = false;
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(`${getStreamBaseUrl()}${options.path()}`);
+    } catch (e: any) {
+      scheduleReconnect(`Failed to connect: ${e.message}`);
+      return;
+    }
+    ws = socket;
+
+    socket.onopen = () => {
+      lastMessageAt = Date.now();
+      setState('open', null);
+      heartbeatInterval = setInterval(checkHeartbeat, HEARTBEAT_CHECK_MS);
+      rotateTimeout = setTimeout(() => scheduleReconnect(ROTATION_REASON, true), MAX_CONNECTION_AGE_MS);
+      const reconnected = hasConnected;
+      hasConnected = true;
+      if (options.onOpen) options.onOpen(reconnected);
+    };
+
+    socket.onmessage = handleMessage;
+
+    socket.onerror = () => {
+      status.lastError = 'WebSocket error';
+    };
+
+    socket.onclose = (event) => {
+      scheduleReconnect(`Closed (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`);
+    };
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(reconnectTimeout);
+    dropSocket();
+    statuses.delete(id);
+    publish();
+  };
+
+  setState('connecting');
+  connect();
+
+  return {
+    // Sends a JSON request (SUBSCRIBE...) on the open socket; false if not connected
+    request,
+    close
+  };
+};
+
+export type StreamConnection = ReturnType<typeof openStreamConnection>;
@@ -0,0 +1,125 @@
+import { getRestBaseUrl } from './environment';
+
+/**
+ * Tracks the offset between the local clock and the exchange clock so signed
+ * requests carry a timestamp Binance accepts (-1021 otherwise). The offset is
+ * measured against /fapi/v1/time, taking the sample with the lowest round trip
+ * and assuming the server stamped it half-way through.
+ */
+
+export interface TimeSyncStatus {
+  offsetMs: number;    // serverTime - local time; add to Date.now()
+  rttMs: number | null;
+  recvWindow: number;
+  syncedAt: number | null;
+  host: string | null; // REST host the offset was measured against
+  error: string | null;
+}
+
+const SAMPLES = 3;
+const RESYNC_INTERVAL = 5 * 60 * 1000;
+const BASE_RECV_WINDOW = 5000;
+const MAX_RECV_WINDOW = 60000; // Binance rejects anything larger
+// Offsets beyond this are worth telling the user about
+export const DRIFT_WARNING_MS = 1000;
+
+let status: TimeSyncStatus = {
+  offsetMs: 0,
+  rttMs: null,
+  recvWindow: BASE_RECV_WINDOW,
+  syncedAt: null,
+  host: null,
+  error: null
+};
+let inFlight: Promise<TimeSyncStatus> | null = null;
+
+const listeners = new Set<(status: TimeSyncStatus) => void>();
+
+const publish = (next: TimeSyncStatus) => {
+  status = next;
+  listeners.forEach(listener => listener({ ...status }));
+};
+
+/**
+ * Room for the request to reach the matching engine: the base window, widened
+ * on slow links so a request isn't rejected for time spent on the wire.
+ */
+const recvWindowFor = (rttMs: number) => Math.min(MAX_RECV_WINDOW, Math.max(BASE_RECV_WINDOW, Math.ceil(rttMs * 4 / 1000) * 1000));
+
+const sample = async (host: string): Promise<{ offset: number; rtt: number }> => {
+  const sentAt = Date.now();
+  const response = await fetch(`${host}/fapi/v1/time`);
+  const receivedAt = Date.now();
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.msg || `Failed to load server time: ${response.status}`);
+  }
+  return {
+    offset: data.serverTime - Math.round((sentAt + receivedAt) / 2),
+    rtt: receivedAt - sentAt
+  };
+};
+
+/**
+ * Measures the offset now. Concurrent callers share one measurement.
+ */
+export const syncServerTime = (): Promise<TimeSyncStatus> => {
+  if (inFlight) return inFlight;
+
+  const host = getRestBaseUrl();
+  inFlight = (async () => {
+    try {
+      let best: { offset: number; rtt: number } | null = null;
+      for (let i = 0; i < SAMPLES; i++) {
+        const next = await sample(host);
+        if (!best || next.rtt < best.rtt) best = next;
+      }
+      publish({
+        offsetMs: best!.offset,
+        rttMs: best!.rtt,
+        recvWindow: recvWindowFor(best!.rtt),
+        syncedAt: Date.now(),
+        host,
+        error: null
+      });
+    } catch (e: any) {
+      // Keep the last good offset; it is still better than none
+      publish({ ...status, error: e.message || 'Time sync failed' });
+      throw e;
+    } finally {
+      inFlight = null;
+    }
+    return { ...status };
+  })();
+  return inFlight;
+};
+
+/**
+ * Local time corrected to the exchange clock, for the `timestamp` parameter.
+ * The offset is only applied to the host it was measured against.
+ */
+export const getServerTimestamp = (): number => {
+  return status.host === getRestBaseUrl() ? Date.now() + status.offsetMs : Date.now();
+};
+
+export const getRecvWindow = (): number => status.host === getRestBaseUrl() ? status.recvWindow : BASE_RECV_WINDOW;
+
+export const getTimeSyncStatus = (): TimeSyncStatus => ({ ...status });
+
+/**
+ * Syncs immediately and then every few minutes. Returns a stop function.
+ */
+export const startTimeSync = (onError?: (message: string) => void): (() => void) => {
+  const run = () => syncServerTime().catch((e: any) => onError?.(e.message));
+  run();
+  const timer = setInterval(run, RESYNC_INTERVAL);
+  return () => clearInterval(timer);
+};
+
+export const subscribeToTimeSync = (listener: (status: TimeSyncStatus) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
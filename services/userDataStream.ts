@@ -0,0 +1,128 @@
+import { LogEntry } from '../types';
+import { closeListenKey, getListenKey, keepAliveListenKey } from './api';
+import { isBinanceApiError } from './restClient';
+import { AccountUpdate, OrderUpdate, subscribeToUserData } from './websocket';
+
+/**
+ * Owns the Live Mode user data stream end to end: obtains a listenKey, keeps
+ * it alive, notices when it is gone (a listenKeyExpired event, or a keep-alive
+ * answered with -1125) and recovers by creating a new key and reconnecting.
+ * Whenever events may have been missed, during a recovery or a dropped socket,
+ * `onResync` asks the app to reload orders and positions over REST. Stopping
+ * closes the key.
+ */
+
+export interface UserDataStreamDeps {
+  apiKey: string; // Empty when the signing proxy supplies the key
+  onOrderUpdate: (data: OrderUpdate) => void;
+  onAccountUpdate: (data: AccountUpdate) => void;
+  onResync: () => void;
+  onLog: (level: LogEntry['level'], message: string, details?: any) => void;
+}
+
+// Keys live 60 minutes past the last keep-alive; this leaves room for retries
+const KEEP_ALIVE_INTERVAL_MS = 30 * 60 * 1000;
+const KEEP_ALIVE_RETRY_MS = 60 * 1000;
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+// This listenKey does not exist
+const UNKNOWN_LISTEN_KEY_CODE = -1125;
+
+export const startUserDataStream = (deps: UserDataStreamDeps): (() => void) => {
+  let stopped = false;
+  let listenKey: string | null = null;
+  let closeSocket: (() => void) | null = null;
+  let keepAliveTimeout: any = null;
+  let retryTimeout: any = null;
+  let failures = 0;
+  let connecting = false;
+
+  const teardown = () => {
+    clearTimeout(keepAliveTimeout);
+    clearTimeout(retryTimeout);
+    keepAliveTimeout = null;
+    retryTimeout = null;
+    if (closeSocket) closeSocket();
+    closeSocket = null;
+  };
+
+  const scheduleKeepAlive = (delay: number) => {
+    keepAliveTimeout = setTimeout(keepAlive, delay);
+  };
+
+  const keepAlive = async () => {
+    try {
+      await keepAliveListenKey(deps.apiKey);
+      if (stopped) return;
+      deps.onLog('INFO', 'User Stream ListenKey extended');
+      scheduleKeepAlive(KEEP_ALIVE_INTERVAL_MS);
+    } catch (e: any) {
+      if (stopped) return;
+      if (isBinanceApiError(e) && e.code === UNKNOWN_LISTEN_KEY_CODE) {
+        recover('the listenKey no longer exists');
+        return;
+      }
+      deps.onLog('WARN', `Failed to extend ListenKey. Retrying in ${KEEP_ALIVE_RETRY_MS / 1000}s`, { error: e.message });
+      scheduleKeepAlive(KEEP_ALIVE_RETRY_MS);
+    }
+  };
+
+  const connect = async (resync: boolean) => {
+    connecting = true;
+    let key: string;
+    try {
+      key = await getListenKey(deps.apiKey);
+    } catch (e: any) {
+      connecting = false;
+      if (stopped) return;
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** failures++);
+      deps.onLog('ERROR', `Failed to get a listenKey. Retrying in ${Math.round(delay / 1000)}s`, { error: e.message });
+      retryTimeout = setTimeout(() => connect(resync), delay);
+      return;
+    }
+    connecting = false;
+    // Stopped while the key was being created
+    if (stopped) {
+      closeListenKey(deps.apiKey).catch(() => {});
+      return;
+    }
+
+    failures = 0;
+    listenKey = key;
+    closeSocket = subscribeToUserData(key, deps.onOrderUpdate, {
+      onAccountUpdate: deps.onAccountUpdate,
+      onReconnect: () => {
+        deps.onLog('INFO', 'User Data Stream reconnected. Reconciling orders and positions...');
+        deps.onResync();
+      },
+      onListenKeyExpired: () => recover('the listenKey expired')
+    });
+    scheduleKeepAlive(KEEP_ALIVE_INTERVAL_MS);
+    deps.onLog('SUCCESS', 'User Data Stream Connected');
+
+    if (resync) {
+      deps.onLog('INFO', 'Reconciling orders and positions missed while the stream was down...');
+      deps.onResync();
+    }
+  };
+
+  const recover = (reason: string) => {
+    if (stopped || connecting) return;
+    deps.onLog('WARN', `User Data Stream lost: ${reason}. Creating a new listenKey...`);
+    teardown();
+    listenKey = null;
+    connect(true);
+  };
+
+  deps.onLog('INFO', 'Initializing Real-time User Data Stream...');
+  connect(false);
+
+  return () => {
+    stopped = true;
+    teardown();
+    if (listenKey) {
+      listenKey = null;
+      closeListenKey(deps.apiKey).catch((e: any) => deps.onLog('WARN', 'Failed to close ListenKey', { error: e.message }));
+    }
+  };
+};
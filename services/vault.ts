@@ -0,0 +1,236 @@
+import { CredentialProfile } from '../types';
+import { aesGcmDecrypt, aesGcmEncrypt, deriveAesKey, randomBase64 } from '../utils/crypto';
+
+/**
+ * Opt-in encrypted store for API key profiles. Profiles are serialized,
+ * encrypted with AES-GCM under a PBKDF2-derived key and only the ciphertext
+ * (plus salt and IV) is written to IndexedDB. The passphrase is never kept;
+ * the derived key is non-extractable and lives in memory until the vault is
+ * locked, either explicitly or after a period without user activity.
+ */
+
+const DB_NAME = 'binance-terminal';
+const STORE_NAME = 'vault';
+const RECORD_KEY = 'credentials';
+
+const PBKDF2_ITERATIONS = 310000;
+const MIN_PASSPHRASE_LENGTH = 8;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+interface VaultRecord {
+  version: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  ciphertext: string;
+  updatedAt: number;
+}
+
+const session = {
+  key: null as CryptoKey | null,
+  salt: '',
+  iterations: PBKDF2_ITERATIONS,
+  profiles: [] as CredentialProfile[],
+  autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES,
+  timer: null as ReturnType<typeof setTimeout> | null
+};
+
+const lockListeners = new Set<() => void>();
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs a single request against the vault store and closes the connection.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const readRecord = (): Promise<VaultRecord | undefined> => withStore('readonly', store => store.get(RECORD_KEY));
+
+const writeRecord = (record: VaultRecord) => withStore('readwrite', store => store.put(record, RECORD_KEY));
+
+const requireUnlocked = (): CryptoKey => {
+  if (!session.key) throw new Error('Vault is locked');
+  return session.key;
+};
+
+/**
+ * Re-encrypts the full profile list under a fresh IV and replaces the record.
+ */
+const persist = async () => {
+  const key = requireUnlocked();
+  const { iv, ciphertext } = await aesGcmEncrypt(key, JSON.stringify(session.profiles));
+  await writeRecord({
+    version: 1,
+    salt: session.salt,
+    iterations: session.iterations,
+    iv,
+    ciphertext,
+    updatedAt: Date.now()
+  });
+};
+
+const armAutoLock = () => {
+  if (session.timer) clearTimeout(session.timer);
+  session.timer = session.key ? setTimeout(lockVault, session.autoLockMinutes * 60 * 1000) : null;
+};
+
+const copyProfiles = () => session.profiles.map(p => ({ ...p }));
+
+export const vaultExists = async (): Promise<boolean> => !!(await readRecord());
+
+export const isVaultUnlocked = (): boolean => session.key !== null;
+
+/**
+ * Creates an empty vault protected by `passphrase` and leaves it unlocked.
+ * Refuses to overwrite an existing vault; use destroyVault first.
+ */
+export const createVault = async (passphrase: string): Promise<void> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+  if (await vaultExists()) {
+    throw new Error('A vault already exists');
+  }
+
+  session.salt = randomBase64(16);
+  session.iterations = PBKDF2_ITERATIONS;
+  session.key = await deriveAesKey(passphrase, session.salt, session.iterations);
+  session.profiles = [];
+  await persist();
+  armAutoLock();
+};
+
+/**
+ * Derives the key from `passphrase` and decrypts the stored profiles.
+ */
+export const unlockVault = async (passphrase: string): Promise<CredentialProfile[]> => {
+  const record = await readRecord();
+  if (!record) throw new Error('No vault has been created');
+
+  const key = await deriveAesKey(passphrase, record.salt, record.iterations);
+  let plaintext: string;
+  try {
+    plaintext = await aesGcmDecrypt(key, record.iv, record.ciphertext);
+  } catch {
+    // AES-GCM authentication fails for a wrong key and for tampered data alike
+    throw new Error('Incorrect passphrase');
+  }
+
+  session.key = key;
+  session.salt = record.salt;
+  session.iterations = record.iterations;
+  session.profiles = JSON.parse(plaintext);
+  armAutoLock();
+  return copyProfiles();
+};
+
+/**
+ * Drops the key and decrypted profiles from memory and notifies listeners.
+ */
+export const lockVault = () => {
+  const wasUnlocked = session.key !== null;
+  session.key = null;
+  session.profiles = [];
+  armAutoLock();
+  if (wasUnlocked) lockListeners.forEach(listener => listener());
+};
+
+/**
+ * Deletes the stored vault. Profiles in it cannot be recovered.
+ */
+export const destroyVault = async (): Promise<void> => {
+  lockVault();
+  await withStore('readwrite', store => store.delete(RECORD_KEY));
+};
+
+export const getVaultProfiles = (): CredentialProfile[] => {
+  requireUnlocked();
+  return copyProfiles();
+};
+
+/**
+ * Adds a profile, or replaces the one with the same id.
+ */
+export const saveVaultProfile = async (profile: Omit<CredentialProfile, 'id'> & { id?: string }): Promise<CredentialProfile> => {
+  requireUnlocked();
+  const name = profile.name.trim();
+  if (!name) throw new Error('Profile name is required');
+  if (!profile.apiKey || !profile.apiSecret) throw new Error('API Key and Secret are required');
+  if (session.profiles.some(p => p.name === name && p.id !== profile.id)) {
+    throw new Error(`A profile named "${name}" already exists`);
+  }
+
+  const saved: CredentialProfile = {
+    id: profile.id || randomBase64(9),
+    name,
+    apiKey: profile.apiKey,
+    apiSecret: profile.apiSecret,
+    keyType: profile.keyType || 'HMAC'
+  };
+  const previous = session.profiles;
+  session.profiles = [...previous.filter(p => p.id !== saved.id), saved];
+  try {
+    await persist();
+  } catch (e) {
+    session.profiles = previous;
+    throw e;
+  }
+  armAutoLock();
+  return { ...saved };
+};
+
+export const deleteVaultProfile = async (id: string): Promise<void> => {
+  requireUnlocked();
+  const previous = session.profiles;
+  session.profiles = previous.filter(p => p.id !== id);
+  try {
+    await persist();
+  } catch (e) {
+    session.profiles = previous;
+    throw e;
+  }
+  armAutoLock();
+};
+
+/**
+ * Resets the inactivity timer. Call on user activity.
+ */
+export const touchVault = () => {
+  if (session.key) armAutoLock();
+};
+
+export const getVaultAutoLockMinutes = (): number => session.autoLockMinutes;
+
+export const setVaultAutoLockMinutes = (minutes: number) => {
+  session.autoLockMinutes = Math.max(1, Math.round(minutes));
+  armAutoLock();
+};
+
+/**
+ * Registers a callback for when the vault locks (manually or by timeout).
+ * Returns an unsubscribe function.
+ */
+export const onVaultLock = (listener: () => void): (() => void) => {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+};
@@ -0,0 +1,128 @@
+import { WatchlistRow } from '../types';
+import { bookTickerMid, createCombinedStream } from './websocket';
+
+/**
+ * Live quotes for a list of symbols over a single combined-stream connection:
+ * @bookTicker for bid/ask, @ticker for the 24h change and volume, and
+ * @markPrice@1s for the funding rate. Adding or removing a symbol only sends
+ * SUBSCRIBE / UNSUBSCRIBE on the existing socket. The active trading symbol's
+ * price rides on the same connection, so switching symbols never reconnects.
+ */
+
+const STORAGE_KEY = 'binance-terminal.watchlist';
+const DEFAULT_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'SOLUSDT', 'XRPUSDT'];
+// Three streams per symbol, within the 200-stream connection limit
+export const MAX_WATCHLIST_SYMBOLS = 50;
+// Book tickers arrive many times a second; rows are republished at most this often
+const PUBLISH_INTERVAL_MS = 500;
+
+export const loadWatchlist = (): string[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : DEFAULT_SYMBOLS;
+  } catch {
+    return DEFAULT_SYMBOLS;
+  }
+};
+
+export const saveWatchlist = (symbols: string[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(symbols));
+  } catch {
+    // Not persisted; the list still works for this session
+  }
+};
+
+const emptyRow = (symbol: string): WatchlistRow => ({
+  symbol,
+  bidPrice: null,
+  askPrice: null,
+  lastPrice: null,
+  priceChangePercent: null,
+  quoteVolume: null,
+  fundingRate: null,
+  nextFundingTime: null
+});
+
+const applyStreamData = (row: WatchlistRow, data: any): WatchlistRow => {
+  switch (data.e) {
+    case 'bookTicker':
+      return { ...row, bidPrice: data.b, askPrice: data.a };
+    case '24hrTicker':
+      return { ...row, lastPrice: data.c, priceChangePercent: data.P, quoteVolume: data.q };
+    case 'markPriceUpdate':
+      return { ...row, fundingRate: data.r, nextFundingTime: data.T };
+    default:
+      return row;
+  }
+};
+
+export const createWatchlistFeed = (onUpdate: (rows: WatchlistRow[]) => void) => {
+  const stream = createCombinedStream('Watchlist');
+  const rows = new Map<string, WatchlistRow>();
+  const subscriptions = new Map<string, () => void>();
+  let order: string[] = [];
+  let dirty = false;
+
+  const publish = () => {
+    dirty = false;
+    onUpdate(order.map(symbol => rows.get(symbol)!));
+  };
+
+  const timer = setInterval(() => {
+    if (dirty) publish();
+  }, PUBLISH_INTERVAL_MS);
+
+  /**
+   * Follows `symbols` (in display order), subscribing to new ones and
+   * dropping the rest.
+   */
+  const setSymbols = (symbols: string[]) => {
+    order = Array.from(new Set(symbols.map(s => s.toUpperCase())));
+
+    for (const [symbol, unsubscribe] of subscriptions) {
+      if (order.includes(symbol)) continue;
+      unsubscribe();
+      subscriptions.delete(symbol);
+      rows.delete(symbol);
+    }
+
+    for (const symbol of order) {
+      if (subscriptions.has(symbol)) continue;
+      const name = symbol.toLowerCase();
+      rows.set(symbol, emptyRow(symbol));
+      subscriptions.set(symbol, stream.subscribe(
+        [`${name}@bookTicker`, `${name}@ticker`, `${name}@markPrice@1s`],
+        (_, data) => {
+          const row = rows.get(symbol);
+          if (!row) return;
+          rows.set(symbol, applyStreamData(row, data));
+          dirty = true;
+        }
+      ));
+    }
+    publish();
+  };
+
+  /**
+   * Mid price of `symbol` from its @bookTicker, shared with the watchlist row
+   * when the symbol is listed. Returns the unsubscribe function.
+   */
+  const subscribeToPrice = (symbol: string, callback: (price: string) => void) => {
+    return stream.subscribe([`${symbol.toLowerCase()}@bookTicker`], (_, data) => {
+      const mid = bookTickerMid(data);
+      if (mid) callback(mid);
+    });
+  };
+
+  const close = () => {
+    clearInterval(timer);
+    subscriptions.clear();
+    rows.clear();
+    stream.close();
+  };
+
+  return { setSymbols, subscribeToPrice, close };
+};
+
+export type WatchlistFeed = ReturnType<typeof createWatchlistFeed>;
@@ -1,158 +1,390 @@
 /**
- * Manages WebSocket connection to Binance Futures Testnet for real-time price updates.
+ * Binance Futures market and user data streams (Testnet by default). Each
+ * subscription runs on its own managed connection (services/streamConnection)
+ * and returns its unsubscribe function.
  */
 
+import { DepthDiffEvent, Kline, KlineInterval, PositionSide } from '../types';
+import { openStreamConnection, StreamConnection } from './streamConnection';
+
 type PriceCallback = (price: string) => void;
 
-const RECONNECT_DELAY = 3000;
+/**
+ * Mid price of a @bookTicker payload, or null for any other event.
+ */
+export const bookTickerMid = (data: any): string | null => {
+  // data.b = best bid price, data.a = best ask price
+  if (data.e !== 'bookTicker' || !data.b || !data.a) return null;
+  const mid = (parseFloat(data.b) + parseFloat(data.a)) / 2;
+  // Format based on magnitude (simple heuristic)
+  return mid < 10 ? mid.toFixed(4) : mid.toFixed(2);
+};
 
 export const subscribeToTicker = (symbol: string, callback: PriceCallback) => {
-  let ws: WebSocket | null = null;
-  let active = true;
-  let reconnectTimeout: any = null;
-
   if (!symbol) return () => {};
 
-  const connect = () => {
-    if (!active) return;
-
-    // Using bookTicker for best bid/ask to calculate mid-price
-    // Binance stream names are lowercase
-    const streamName = `${symbol.toLowerCase()}@bookTicker`;
-    const endpoint = `wss://stream.binancefuture.com/ws/${streamName}`;
-    
-    try {
-      ws = new WebSocket(endpoint);
-
-      ws.onopen = () => {
-        // console.log(`Connected to ticker stream for ${symbol}`);
-      };
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          // data.b = best bid price, data.a = best ask price
-          if (data.e === 'bookTicker' && data.b && data.a) {
-            const bid = parseFloat(data.b);
-            const ask = parseFloat(data.a);
-            // Calculate mid-price
-            const mid = (bid + ask) / 2;
-            // Format based on magnitude (simple heuristic)
-            const formatted = mid < 10 ? mid.toFixed(4) : mid.toFixed(2);
-            callback(formatted);
-          }
-        } catch (err) {
-          console.error('Error parsing ticker data', err);
-        }
-      };
+  // Using bookTicker for best bid/ask to calculate mid-price
+  // Binance stream names are lowercase
+  const connection = openStreamConnection({
+    label: `Ticker ${symbol.toUpperCase()}`,
+    path: () => `/ws/${symbol.toLowerCase()}@bookTicker`,
+    onMessage: (data) => {
+      const mid = bookTickerMid(data);
+      if (mid) callback(mid);
+    }
+  });
+  return connection.close;
+};
 
-      ws.onerror = (err) => {
-        console.warn('WebSocket error:', err);
-      };
+/**
+ * Raw @depth diff stream. Sequencing against a REST snapshot is handled by
+ * services/orderBook.ts; `onReconnect` lets it resync after a dropped socket.
+ */
+export const subscribeToDepth = (
+  symbol: string,
+  onEvent: (event: DepthDiffEvent) => void,
+  onReconnect?: () => void
+) => {
+  if (!symbol) return () => {};
 
-      ws.onclose = () => {
-        if (active) {
-            console.log(`Ticker stream closed. Reconnecting in ${RECONNECT_DELAY}ms...`);
-            reconnectTimeout = setTimeout(connect, RECONNECT_DELAY);
-        }
-      };
+  const connection = openStreamConnection({
+    label: `Depth ${symbol.toUpperCase()}`,
+    path: () => `/ws/${symbol.toLowerCase()}@depth@100ms`,
+    // Any events missed while disconnected invalidate the local book
+    onOpen: (reconnected) => {
+      if (reconnected && onReconnect) onReconnect();
+    },
+    onMessage: (data) => {
+      if (data.e === 'depthUpdate') {
+        onEvent({
+          eventTime: data.E,
+          firstUpdateId: data.U,
+          finalUpdateId: data.u,
+          prevFinalUpdateId: data.pu,
+          bids: data.b,
+          asks: data.a
+        });
+      }
+    }
+  });
+  return connection.close;
+};
+
+/**
+ * Candle updates for one symbol and interval: the forming candle on every
+ * trade, and each candle once more when it closes.
+ */
+export const subscribeToKlines = (
+  symbol: string,
+  interval: KlineInterval,
+  callback: (kline: Kline) => void,
+  onReconnect?: () => void
+) => {
+  if (!symbol) return () => {};
 
-    } catch (e) {
-      console.error('Failed to connect to WebSocket', e);
-      if (active) {
-        reconnectTimeout = setTimeout(connect, RECONNECT_DELAY);
+  const connection = openStreamConnection({
+    label: `Klines ${symbol.toUpperCase()} ${interval}`,
+    path: () => `/ws/${symbol.toLowerCase()}@kline_${interval}`,
+    onOpen: (reconnected) => {
+      if (reconnected && onReconnect) onReconnect();
+    },
+    onMessage: (data) => {
+      if (data.e === 'kline' && data.k) {
+        const k = data.k;
+        callback({
+          openTime: k.t,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v),
+          closed: k.x
+        });
       }
     }
-  };
+  });
+  return connection.close;
+};
 
-  connect();
+export interface BookTickerUpdate {
+  symbol: string;
+  bidPrice: number;
+  bidQty: number;
+  askPrice: number;
+  askQty: number;
+  eventTime: number;
+}
 
-  // Return cleanup function
-  return () => {
-    active = false;
-    if (reconnectTimeout) clearTimeout(reconnectTimeout);
-    if (ws) {
-      ws.close();
-      ws = null;
+/**
+ * Raw best bid/ask stream. Unlike subscribeToTicker this keeps both sides,
+ * which the paper-trading engine needs to fill at the touch.
+ */
+export const subscribeToBookTicker = (symbol: string, callback: (update: BookTickerUpdate) => void) => {
+  if (!symbol) return () => {};
+
+  const connection = openStreamConnection({
+    label: `Book ticker ${symbol.toUpperCase()}`,
+    path: () => `/ws/${symbol.toLowerCase()}@bookTicker`,
+    onMessage: (data) => {
+      if (data.e === 'bookTicker' && data.b && data.a) {
+        callback({
+          symbol: data.s,
+          bidPrice: parseFloat(data.b),
+          bidQty: parseFloat(data.B),
+          askPrice: parseFloat(data.a),
+          askQty: parseFloat(data.A),
+          eventTime: data.E
+        });
+      }
     }
-  };
+  });
+  return connection.close;
 };
 
 export interface OrderUpdate {
   symbol: string;
+  orderId: number;
   clientOrderId: string;
   side: string;
   type: string;
   status: string;
+  executionType: string; // NEW, TRADE, CANCELED, EXPIRED, AMENDMENT...
+  price: string;
+  stopPrice: string;
   originalQty: string;
   executedQty: string;
   avgPrice: string;
+  lastFilledQty: string;
+  lastFilledPrice: string;
+  realizedProfit: string;
+  reduceOnly: boolean;
+  positionSide: PositionSide;
+  updateTime: number;
 }
 
-export const subscribeToUserData = (listenKey: string, onOrderUpdate: (data: OrderUpdate) => void) => {
-  let userWs: WebSocket | null = null;
-  let active = true;
-  let reconnectTimeout: any = null;
+export interface AccountUpdate {
+  eventTime: number;
+  reason: string; // ORDER, FUNDING_FEE, MARGIN_TYPE_CHANGE...
+  balances: {
+    asset: string;
+    walletBalance: string;
+    crossWalletBalance: string;
+    balanceChange: string;
+  }[];
+  positions: {
+    symbol: string;
+    positionAmt: string;
+    entryPrice: string;
+    unrealizedProfit: string;
+    marginType: string;
+    isolatedWallet: string;
+    positionSide: PositionSide;
+  }[];
+}
+
+export interface MarkPriceUpdate {
+  symbol: string;
+  markPrice: string;
+  indexPrice: string;
+  fundingRate: string;
+  nextFundingTime: number;
+}
+
+/**
+ * Mark prices for several symbols over one combined-stream connection.
+ */
+export const subscribeToMarkPrices = (symbols: string[], callback: (update: MarkPriceUpdate) => void) => {
+  if (symbols.length === 0) return () => {};
+
+  const connection = openStreamConnection({
+    label: 'Mark prices',
+    path: () => `/stream?streams=${symbols.map(s => `${s.toLowerCase()}@markPrice@1s`).join('/')}`,
+    onMessage: ({ data }) => {
+      if (data && data.e === 'markPriceUpdate') {
+        callback({
+          symbol: data.s,
+          markPrice: data.p,
+          indexPrice: data.i,
+          fundingRate: data.r,
+          nextFundingTime: data.T
+        });
+      }
+    }
+  });
+  return connection.close;
+};
+
+export interface UserDataHandlers {
+  onAccountUpdate?: (data: AccountUpdate) => void;
+  // Fired when the socket reopens after a drop; events may have been missed
+  onReconnect?: () => void;
+  // The exchange invalidated the key; this socket will deliver nothing more
+  onListenKeyExpired?: () => void;
+}
+
+export const subscribeToUserData = (
+  listenKey: string,
+  onOrderUpdate: (data: OrderUpdate) => void,
+  handlers: UserDataHandlers = {}
+) => {
+  const connection = openStreamConnection({
+    label: 'User data',
+    path: () => `/ws/${listenKey}`,
+    onOpen: (reconnected) => {
+      if (reconnected && handlers.onReconnect) handlers.onReconnect();
+    },
+    onMessage: (msg) => {
+      // Event Type: ORDER_TRADE_UPDATE
+      if (msg.e === 'ORDER_TRADE_UPDATE') {
+        const o = msg.o;
+        onOrderUpdate({
+          symbol: o.s,
+          orderId: o.i,
+          clientOrderId: o.c,
+          side: o.S,
+          type: o.o,
+          status: o.X,
+          executionType: o.x,
+          price: o.p,
+          stopPrice: o.sp,
+          originalQty: o.q,
+          executedQty: o.z,
+          avgPrice: o.ap,
+          lastFilledQty: o.l,
+          lastFilledPrice: o.L,
+          realizedProfit: o.rp,
+          reduceOnly: o.R,
+          positionSide: o.ps || 'BOTH',
+          updateTime: o.T
+        });
+      } else if (msg.e === 'listenKeyExpired' && handlers.onListenKeyExpired) {
+        handlers.onListenKeyExpired();
+      } else if (msg.e === 'ACCOUNT_UPDATE' && handlers.onAccountUpdate) {
+        const a = msg.a;
+        handlers.onAccountUpdate({
+          eventTime: msg.E,
+          reason: a.m,
+          balances: (a.B || []).map((b: any) => ({
+            asset: b.a,
+            walletBalance: b.wb,
+            crossWalletBalance: b.cw,
+            balanceChange: b.bc
+          })),
+          positions: (a.P || []).map((p: any) => ({
+            symbol: p.s,
+            positionAmt: p.pa,
+            entryPrice: p.ep,
+            unrealizedProfit: p.up,
+            marginType: p.mt,
+            isolatedWallet: p.iw,
+            positionSide: p.ps
+          }))
+        });
+      }
+    }
+  });
+  return connection.close;
+};
+
+type StreamHandler = (stream: string, data: any) => void;
+
+// Binance allows up to 200 streams on one connection
+export const MAX_COMBINED_STREAMS = 200;
+// ...and 10 incoming messages per second; changes are batched per interval
+const SUBSCRIPTION_FLUSH_MS = 250;
+
+/**
+ * One combined-stream connection (/stream) shared by many subscribers.
+ * Streams are added and dropped with SUBSCRIBE / UNSUBSCRIBE messages on the
+ * open socket rather than by reconnecting; after a reconnect the current set
+ * is passed in the URL again. The socket is opened on the first subscription
+ * and closed once nothing is subscribed.
+ */
+export const createCombinedStream = (label = 'Combined stream') => {
+  // Keyed by stream name exactly as Binance spells it (lowercase symbol, camelCase type)
+  const handlers = new Map<string, Set<StreamHandler>>();
+  let sent = new Set<string>(); // Streams the server has been asked for on this socket
+  let connection: StreamConnection | null = null;
+  let flushTimeout: any = null;
+
+  const flush = () => {
+    flushTimeout = null;
+    if (!connection) return;
+    const added = Array.from(handlers.keys()).filter(name => !sent.has(name));
+    const dropped = Array.from(sent).filter(name => !handlers.has(name));
+    // Not connected: the next (re)connect puts the current set in the URL
+    if (added.length > 0 && !connection.request('SUBSCRIBE', added)) return;
+    if (dropped.length > 0) connection.request('UNSUBSCRIBE', dropped);
+    sent = new Set(handlers.keys());
+  };
+
+  const scheduleFlush = () => {
+    if (!flushTimeout) flushTimeout = setTimeout(flush, SUBSCRIPTION_FLUSH_MS);
+  };
 
   const connect = () => {
-      if (!active) return;
-      
-      const endpoint = `wss://stream.binancefuture.com/ws/${listenKey}`;
-      try {
-        userWs = new WebSocket(endpoint);
-
-        userWs.onopen = () => {
-            console.log('Connected to User Data Stream');
-        };
-
-        userWs.onmessage = (event) => {
-            try {
-            const msg = JSON.parse(event.data);
-            // Event Type: ORDER_TRADE_UPDATE
-            if (msg.e === 'ORDER_TRADE_UPDATE') {
-                const o = msg.o;
-                onOrderUpdate({
-                symbol: o.s,
-                clientOrderId: o.c,
-                side: o.S,
-                type: o.o,
-                status: o.X,
-                originalQty: o.q,
-                executedQty: o.z,
-                avgPrice: o.ap
-                });
-            }
-            } catch (err) {
-            console.error('Error parsing user data stream', err);
-            }
-        };
-
-        userWs.onerror = (err) => {
-            console.warn('User Data Stream Error', err);
-        };
-
-        userWs.onclose = () => {
-            if (active) {
-                console.warn(`User Data Stream closed. Reconnecting in ${RECONNECT_DELAY}ms...`);
-                reconnectTimeout = setTimeout(connect, RECONNECT_DELAY);
-            }
-        };
-      } catch (e) {
-          console.error("Failed to connect User Data Stream", e);
-          if(active) {
-              reconnectTimeout = setTimeout(connect, RECONNECT_DELAY);
-          }
+    connection = openStreamConnection({
+      label,
+      path: () => {
+        sent = new Set(handlers.keys());
+        return `/stream?streams=${Array.from(sent).join('/')}`;
+      },
+      // Subscriptions changed while connecting
+      onOpen: scheduleFlush,
+      onMessage: (msg) => {
+        if (msg.stream && msg.data) {
+          handlers.get(msg.stream)?.forEach(handler => handler(msg.stream, msg.data));
+        }
       }
+    });
+  };
+
+  const disconnect = () => {
+    if (flushTimeout) clearTimeout(flushTimeout);
+    flushTimeout = null;
+    if (connection) connection.close();
+    connection = null;
   };
 
-  connect();
+  /**
+   * Passes each payload on `streams` to `handler` as (stream, data). Returns
+   * the unsubscribe function; a stream is dropped once its last handler leaves.
+   */
+  const subscribe = (streams: string[], handler: StreamHandler): (() => void) => {
+    const names = Array.from(new Set(streams));
+    const added = names.filter(name => !handlers.has(name));
+    if (handlers.size + added.length > MAX_COMBINED_STREAMS) {
+      throw new Error(`A combined stream carries at most ${MAX_COMBINED_STREAMS} streams`);
+    }
 
-  return () => {
-    active = false;
-    if (reconnectTimeout) clearTimeout(reconnectTimeout);
-    if (userWs) {
-      userWs.close();
-      userWs = null;
+    for (const name of names) {
+      if (!handlers.has(name)) handlers.set(name, new Set());
+      handlers.get(name)!.add(handler);
     }
+    if (!connection) connect();
+    else if (added.length > 0) scheduleFlush();
+
+    let subscribed = true;
+    return () => {
+      if (!subscribed) return;
+      subscribed = false;
+      for (const name of names) {
+        const set = handlers.get(name);
+        if (!set) continue;
+        set.delete(handler);
+        if (set.size === 0) handlers.delete(name);
+      }
+      if (handlers.size === 0) disconnect();
+      else scheduleFlush();
+    };
+  };
+
+  const close = () => {
+    handlers.clear();
+    disconnect();
   };
-};
\ No newline at end of file
+
+  return { subscribe, close };
+};
+
+export type CombinedStream = ReturnType<typeof createCombinedStream>;
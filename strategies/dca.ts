@@ -0,0 +1,90 @@
+import { OrderSide, OrderType } from '../types';
+import { Strategy } from '../services/strategyRuntime';
+import { getSymbolRules } from '../utils/validator';
+import { floorToStep } from '../utils/precision';
+
+/**
+ * Dollar-cost averaging: buys a fixed quote amount at market every interval,
+ * up to a maximum number of buys, and sells everything once the price is
+ * the take-profit percentage above the average entry. Then a new cycle
+ * starts. The running totals come from the instance's own fills.
+ */
+
+interface DcaState {
+  buys: number;
+  quantity: number;  // Bought this cycle, in base asset
+  cost: number;      // Paid for it, in quote asset
+  lastBuyAt: number | null;
+  cycles: number;
+  realizedProfit: number; // Gross of fees
+}
+
+const newCycle = (state: DcaState) => {
+  state.buys = 0;
+  state.quantity = 0;
+  state.cost = 0;
+  state.lastBuyAt = null;
+};
+
+export const dcaBot: Strategy<DcaState> = {
+  id: 'dca',
+  name: 'DCA',
+  description: 'Buys a fixed amount at regular intervals and takes profit on the whole stack above the average entry.',
+  params: [
+    { key: 'quoteAmount', label: 'Amount Per Buy (USDT)', defaultValue: 100, min: 0, step: 10 },
+    { key: 'intervalMinutes', label: 'Interval (min)', defaultValue: 60, min: 1, step: 1 },
+    { key: 'maxBuys', label: 'Max Buys', defaultValue: 10, min: 1, step: 1 },
+    { key: 'takeProfitPercent', label: 'Take Profit %', defaultValue: 2, min: 0.1, step: 0.1 }
+  ],
+
+  initialState: () => ({ buys: 0, quantity: 0, cost: 0, lastBuyAt: null, cycles: 0, realizedProfit: 0 }),
+
+  describe: (state, params) => {
+    const average = state.quantity > 0 ? ` · avg ${(state.cost / state.quantity).toFixed(2)}` : '';
+    return `${state.buys}/${params.maxBuys} buys${average} · ${state.cycles} cycles · ${state.realizedProfit.toFixed(2)} realized`;
+  },
+
+  onTick: async (ctx, price) => {
+    // One order at a time; the totals only move once it fills
+    if (ctx.getOpenOrderIds().length > 0) return;
+    const { quoteAmount, intervalMinutes, maxBuys, takeProfitPercent } = ctx.params;
+    const state = ctx.state;
+    const { stepSize } = getSymbolRules(ctx.symbol);
+
+    const quantity = floorToStep(state.quantity, stepSize);
+    if (parseFloat(quantity) > 0 && price >= (state.cost / state.quantity) * (1 + takeProfitPercent / 100)) {
+      ctx.log('INFO', `Take profit at ${price}: selling ${quantity}`);
+      await ctx.placeOrder({ side: OrderSide.SELL, type: OrderType.MARKET, quantity, reduceOnly: true });
+      return;
+    }
+
+    if (state.buys >= maxBuys) return;
+    if (state.lastBuyAt !== null && Date.now() - state.lastBuyAt < intervalMinutes * 60 * 1000) return;
+
+    const size = floorToStep(quoteAmount / price, stepSize);
+    if (!(parseFloat(size) > 0)) throw new Error(`${quoteAmount} USDT buys less than one step of ${ctx.symbol}`);
+    state.lastBuyAt = Date.now();
+    ctx.log('INFO', `Buy ${state.buys + 1}/${maxBuys}: ${size} at ~${price}`);
+    await ctx.placeOrder({ side: OrderSide.BUY, type: OrderType.MARKET, quantity: size });
+  },
+
+  onOrderUpdate: (ctx, update) => {
+    if (update.status !== 'FILLED') return;
+    const state = ctx.state;
+    const quantity = parseFloat(update.executedQty);
+    const price = parseFloat(update.avgPrice);
+
+    if (update.side === OrderSide.BUY) {
+      state.buys++;
+      state.quantity += quantity;
+      state.cost += quantity * price;
+      return;
+    }
+
+    const profit = quantity * price - state.cost * Math.min(quantity / state.quantity, 1);
+    state.cycles++;
+    state.realizedProfit += profit;
+    ctx.log('SUCCESS', `Cycle ${state.cycles} closed at ${price}, profit ${profit.toFixed(4)}`, { realizedProfit: state.realizedProfit });
+    newCycle(state);
+  }
+};
@@ -0,0 +1,6 @@
+import { Strategy } from '../services/strategyRuntime';
+import { smaCrossover } from './smaCrossover';
+import { dcaBot } from './dca';
+
+// Strategies offered in the Strategies tab; add new plugins here
+export const STRATEGIES: Strategy[] = [smaCrossover, dcaBot];
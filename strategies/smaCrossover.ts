@@ -0,0 +1,73 @@
+import { OrderSide, OrderType } from '../types';
+import { Strategy } from '../services/strategyRuntime';
+import { getSymbolRules } from '../utils/validator';
+import { floorToStep } from '../utils/precision';
+
+/**
+ * Trend follower on 5m candles: long `quantity` after the fast SMA closes
+ * above the slow one, short the same size after it closes below. Orders
+ * target a position rather than a fixed size, so a cross that was already
+ * acted on (e.g. before a reload) doesn't trade twice.
+ */
+
+interface SmaCrossoverState {
+  signal: 'LONG' | 'SHORT' | null;
+  trades: number;
+}
+
+// Average close of `period` candles ending `offset` candles before the last
+const sma = (closes: number[], period: number, offset: number) => {
+  const end = closes.length - offset;
+  return closes.slice(end - period, end).reduce((sum, c) => sum + c, 0) / period;
+};
+
+export const smaCrossover: Strategy<SmaCrossoverState> = {
+  id: 'sma-crossover',
+  name: 'SMA Crossover',
+  description: 'Goes long when the fast SMA crosses above the slow SMA and short when it crosses below (5m candles).',
+  params: [
+    { key: 'fastPeriod', label: 'Fast SMA', defaultValue: 9, min: 1, step: 1 },
+    { key: 'slowPeriod', label: 'Slow SMA', defaultValue: 21, min: 2, step: 1 },
+    { key: 'quantity', label: 'Position Size', defaultValue: 0.001, min: 0, step: 0.001 }
+  ],
+  klineInterval: '5m',
+
+  initialState: () => ({ signal: null, trades: 0 }),
+
+  describe: (state, params) =>
+    `${state.signal || 'Waiting for a cross'} · SMA ${params.fastPeriod}/${params.slowPeriod} · ${state.trades} trades`,
+
+  onStart: (ctx) => {
+    if (ctx.params.fastPeriod >= ctx.params.slowPeriod) {
+      throw new Error('The fast SMA period must be shorter than the slow one');
+    }
+  },
+
+  onKline: async (ctx, kline, history) => {
+    const { fastPeriod, slowPeriod, quantity } = ctx.params;
+    if (history.length < slowPeriod + 1) return;
+
+    const closes = history.map(k => k.close);
+    const fast = sma(closes, fastPeriod, 0);
+    const slow = sma(closes, slowPeriod, 0);
+    const prevFast = sma(closes, fastPeriod, 1);
+    const prevSlow = sma(closes, slowPeriod, 1);
+    const crossedUp = prevFast <= prevSlow && fast > slow;
+    const crossedDown = prevFast >= prevSlow && fast < slow;
+    if (!crossedUp && !crossedDown) return;
+
+    const current = ctx.getPositions().reduce((sum, p) => sum + p.positionAmt, 0);
+    const target = crossedUp ? quantity : -quantity;
+    const size = floorToStep(Math.abs(target - current), getSymbolRules(ctx.symbol).stepSize);
+    ctx.state.signal = crossedUp ? 'LONG' : 'SHORT';
+    if (!(parseFloat(size) > 0)) return;
+
+    ctx.log('INFO', `${crossedUp ? 'Bullish' : 'Bearish'} cross at ${kline.close}: SMA${fastPeriod} ${fast.toFixed(2)} vs SMA${slowPeriod} ${slow.toFixed(2)}`);
+    await ctx.placeOrder({
+      side: target > current ? OrderSide.BUY : OrderSide.SELL,
+      type: OrderType.MARKET,
+      quantity: size
+    });
+    ctx.state.trades++;
+  }
+};
@@ -6,7 +6,23 @@ export enum OrderSide {
 export enum OrderType {
   MARKET = 'MARKET',
   LIMIT = 'LIMIT',
-  STOP_LIMIT = 'STOP_LIMIT'
+  STOP_LIMIT = 'STOP_LIMIT',
+  STOP_MARKET = 'STOP_MARKET',
+  TAKE_PROFIT = 'TAKE_PROFIT',
+  TAKE_PROFIT_MARKET = 'TAKE_PROFIT_MARKET',
+  TRAILING_STOP_MARKET = 'TRAILING_STOP_MARKET'
+}
+
+export enum TimeInForce {
+  GTC = 'GTC',
+  IOC = 'IOC',
+  FOK = 'FOK',
+  GTX = 'GTX' // Post-only
+}
+
+export enum WorkingType {
+  MARK_PRICE = 'MARK_PRICE',
+  CONTRACT_PRICE = 'CONTRACT_PRICE'
 }
 
 export interface OrderRequest {
@@ -16,7 +32,265 @@ export interface OrderRequest {
   quantity: string;
   price?: string;
   stopPrice?: string;
-  timeInForce?: string;
+  timeInForce?: TimeInForce;
+  workingType?: WorkingType;
+  priceProtect?: boolean;
+  reduceOnly?: boolean;
+  closePosition?: boolean; // STOP_MARKET / TAKE_PROFIT_MARKET only, replaces quantity
+  callbackRate?: string;   // TRAILING_STOP_MARKET, percent (0.1 - 10)
+  activationPrice?: string;
+  newClientOrderId?: string;
+  positionSide?: PositionSide; // Required in hedge mode (LONG / SHORT)
+}
+
+// Free text (e.g. from the cancel form) is resolved heuristically; structured refs are sent as-is
+export type OrderIdentifier = string | { orderId: number } | { origClientOrderId: string };
+
+export interface OpenOrder {
+  orderId: number;
+  clientOrderId: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  status: string;
+  price: string;
+  stopPrice: string;
+  origQty: string;
+  executedQty: string;
+  reduceOnly: boolean;
+  positionSide: PositionSide;
+  timeInForce: string;
+  updateTime: number;
+}
+
+export interface OrderAmendment {
+  symbol: string;
+  side: OrderSide;
+  quantity: string;
+  price: string;
+}
+
+export type PositionSide = 'BOTH' | 'LONG' | 'SHORT';
+
+export type MarginType = 'ISOLATED' | 'CROSSED';
+
+export interface Position {
+  symbol: string;
+  positionSide: PositionSide;
+  positionAmt: number; // Signed: negative for shorts in one-way mode
+  entryPrice: number;
+  markPrice: number;
+  unrealizedProfit: number;
+  liquidationPrice: number;
+  leverage: number;
+  marginType: MarginType;
+  isolatedWallet: number;
+  updateTime: number;
+}
+
+export type PositionMode = 'ONE_WAY' | 'HEDGE';
+
+export interface SymbolSettings {
+  leverage: number;
+  marginType: MarginType;
+}
+
+export interface AssetBalance {
+  asset: string;
+  walletBalance: number;
+  availableBalance: number;
+  unrealizedProfit: number;
+}
+
+export interface AccountInfo {
+  totalWalletBalance: number;
+  totalUnrealizedProfit: number;
+  totalMarginBalance: number;
+  totalInitialMargin: number;
+  totalMaintMargin: number;
+  availableBalance: number;
+  maxWithdrawAmount: number;
+  marginRatio: number; // Maintenance margin / margin balance, percent
+  assets: AssetBalance[];
+  symbolSettings: Record<string, SymbolSettings>;
+  positionMode: PositionMode;
+  updateTime: number;
+}
+
+export interface BinanceBalance {
+  accountAlias: string;
+  asset: string;
+  balance: string;
+  crossWalletBalance: string;
+  crossUnPnl: string;
+  availableBalance: string;
+  maxWithdrawAmount: string;
+  updateTime: number;
+}
+
+export interface BinanceAccountInfo {
+  totalInitialMargin: string;
+  totalMaintMargin: string;
+  totalWalletBalance: string;
+  totalUnrealizedProfit: string;
+  totalMarginBalance: string;
+  availableBalance: string;
+  maxWithdrawAmount: string;
+  assets: {
+    asset: string;
+    walletBalance: string;
+    unrealizedProfit: string;
+    availableBalance: string;
+  }[];
+  positions: {
+    symbol: string;
+    leverage: string;
+    isolated: boolean;
+    positionSide: PositionSide;
+  }[];
+}
+
+export interface BinancePositionRisk {
+  symbol: string;
+  positionAmt: string;
+  entryPrice: string;
+  markPrice: string;
+  unRealizedProfit: string;
+  liquidationPrice: string;
+  leverage: string;
+  marginType: string; // 'cross' | 'isolated'
+  isolatedWallet: string;
+  positionSide: PositionSide;
+  updateTime: number;
+}
+
+export type BracketOffsetMode = 'PRICE' | 'PERCENT' | 'ROE';
+
+export interface BracketLegSpec {
+  mode: BracketOffsetMode;
+  value: string; // Absolute price, price move % or ROE % depending on mode
+}
+
+export interface BracketSpec {
+  takeProfit?: BracketLegSpec;
+  stopLoss?: BracketLegSpec;
+  leverage: number; // Used to convert ROE offsets into price moves
+}
+
+export type BracketStatus = 'PENDING_ENTRY' | 'ACTIVE' | 'TAKE_PROFIT' | 'STOPPED_OUT' | 'CANCELED' | 'ERROR';
+
+export interface Bracket {
+  id: string;
+  venue: string; // 'demo' or the environment id the orders live on
+  symbol: string;
+  side: OrderSide;
+  positionSide?: PositionSide; // Hedge mode leg the exits must target
+  spec: BracketSpec;
+  status: BracketStatus;
+  entryClientOrderId: string;
+  takeProfitClientOrderId?: string;
+  stopLossClientOrderId?: string;
+  entryPrice?: number;
+  quantity?: string;
+  takeProfitPrice?: string;
+  stopLossPrice?: string;
+  createdAt: number;
+}
+
+export type GridSpacing = 'ARITHMETIC' | 'GEOMETRIC'; // Equal price steps / equal percentage steps
+
+// BASE: same base quantity per level; QUOTE: same notional per level;
+// PYRAMID: base quantity growing with distance from the reference price
+export type GridQuantityMode = 'BASE' | 'QUOTE' | 'PYRAMID';
+
+export interface GridLevelSpec {
+  price: string;    // Tick-aligned
+  quantity: string; // Step-aligned
+}
+
+export interface GridBotSpec {
+  symbol: string;
+  levels: GridLevelSpec[]; // Ascending by price
+  referencePrice: number;  // Buys below, sells above; the nearest level starts empty
+}
+
+// FAILED: deployment failed and some placed orders could not be cancelled
+export type GridBotStatus = 'RUNNING' | 'PAUSED' | 'STOPPED' | 'FAILED';
+
+export interface GridLevel {
+  price: string;
+  quantity: string;              // For the order this level holds
+  side: OrderSide | null;        // Order this level should hold; null when empty
+  clientOrderId: string | null;  // Set while that order is on the book
+  entryPrice?: string;           // Fill price of the opposite order this one closes
+}
+
+export interface GridBot {
+  id: string;
+  venue: string; // 'demo' or the environment id the orders live on
+  symbol: string;
+  status: GridBotStatus;
+  levels: GridLevel[];
+  cycles: number;
+  realizedProfit: number; // Gross of fees, in quote asset
+  createdAt: number;
+  updatedAt: number;
+}
+
+// FAILED: stopped, but some orders could not be cancelled
+export type StrategyStatus = 'RUNNING' | 'PAUSED' | 'STOPPED' | 'FAILED';
+
+// One running copy of a strategy plugin (see services/strategyRuntime)
+export interface StrategyInstance {
+  id: string;
+  venue: string;                  // 'demo' or the environment id the orders live on
+  strategyId: string;             // Key in the strategy registry
+  symbol: string;
+  params: Record<string, number>;
+  status: StrategyStatus;
+  state: any;                     // Owned by the strategy; persisted across reloads
+  openOrderIds: string[];         // Client ids of the instance's resting orders
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ValidationField =
+  | 'symbol'
+  | 'quantity'
+  | 'price'
+  | 'stopPrice'
+  | 'callbackRate'
+  | 'activationPrice'
+  | 'timeInForce'
+  | 'closePosition'
+  | 'positionSide'
+  | 'takeProfit'
+  | 'stopLoss'
+  | 'minPrice'
+  | 'maxPrice'
+  | 'gridCount';
+
+export enum ValidationCode {
+  UNKNOWN_SYMBOL = 'UNKNOWN_SYMBOL',
+  REQUIRED = 'REQUIRED',
+  NOT_POSITIVE = 'NOT_POSITIVE',
+  QTY_BELOW_MIN = 'QTY_BELOW_MIN',
+  QTY_ABOVE_MAX = 'QTY_ABOVE_MAX',
+  QTY_STEP = 'QTY_STEP',
+  PRICE_BELOW_MIN = 'PRICE_BELOW_MIN',
+  PRICE_ABOVE_MAX = 'PRICE_ABOVE_MAX',
+  PRICE_TICK = 'PRICE_TICK',
+  PERCENT_PRICE = 'PERCENT_PRICE',
+  MIN_NOTIONAL = 'MIN_NOTIONAL',
+  INVALID_RANGE = 'INVALID_RANGE',
+  INCOMPATIBLE_OPTIONS = 'INCOMPATIBLE_OPTIONS',
+  EXCEEDS_ORDER_CAP = 'EXCEEDS_ORDER_CAP'
+}
+
+export interface ValidationError {
+  code: ValidationCode;
+  field: ValidationField;
+  message: string;
 }
 
 export interface LogEntry {
@@ -25,11 +299,22 @@ export interface LogEntry {
   level: 'INFO' | 'SUCCESS' | 'ERROR' | 'WARN';
   message: string;
   details?: any;
+  source?: string; // Tag of the strategy instance that wrote it
 }
 
+// How the API key signs requests; Binance issues all three
+export type KeyType = 'HMAC' | 'ED25519' | 'RSA';
+
 export interface ApiCredentials {
   apiKey: string;
-  apiSecret: string;
+  apiSecret: string; // HMAC secret, or the PKCS#8 PEM private key for ED25519 / RSA
+  keyType?: KeyType; // Defaults to HMAC
+}
+
+// A named API key pair (e.g. one per sub-account) kept in the encrypted vault
+export interface CredentialProfile extends ApiCredentials {
+  id: string;
+  name: string;
 }
 
 export interface BinanceOrderResponse {
@@ -50,4 +335,129 @@ export interface BinanceOrderResponse {
   priceProtect: boolean;
   origType: string;
   updateTime: number;
-}
\ No newline at end of file
+  reduceOnly?: boolean;
+  closePosition?: boolean;
+  positionSide?: PositionSide;
+  activatePrice?: string; // TRAILING_STOP_MARKET only
+  priceRate?: string;     // TRAILING_STOP_MARKET callback rate
+}
+
+// Outcome of one order in a batch; exactly one of response / error is set
+export interface BatchOrderResult {
+  order: OrderRequest;
+  response?: BinanceOrderResponse;
+  error?: { code: number; msg: string };
+  rolledBack?: boolean; // Placed, then cancelled because another order failed
+  rollbackError?: { code: number; msg: string }; // Placed, and the rollback cancel failed: may still be live
+}
+
+export interface BatchCancelResult {
+  orderId: number;
+  response?: BinanceOrderResponse;
+  error?: { code: number; msg: string };
+}
+
+export type KlineInterval = '1m' | '5m' | '15m' | '1h' | '4h' | '1d';
+
+export interface Kline {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closed: boolean; // False for the candle still forming
+}
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+export interface DepthDiffEvent {
+  eventTime: number;
+  firstUpdateId: number;  // U
+  finalUpdateId: number;  // u
+  prevFinalUpdateId: number; // pu
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+export interface OrderBookLevel {
+  price: number;
+  qty: number;
+  total: number; // Cumulative qty from the top of book
+}
+
+export interface OrderBookView {
+  symbol: string;
+  lastUpdateId: number;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  synced: boolean;
+}
+
+// One watchlist symbol; fields stay null until their stream has reported
+export interface WatchlistRow {
+  symbol: string;
+  bidPrice: string | null;
+  askPrice: string | null;
+  lastPrice: string | null;
+  priceChangePercent: string | null; // 24h
+  quoteVolume: string | null;        // 24h, in the quote asset
+  fundingRate: string | null;
+  nextFundingTime: number | null;
+}
+
+export interface SymbolRules {
+  minQty: number;
+  maxQty: number;
+  stepSize: number;
+  marketMinQty: number;
+  marketMaxQty: number;
+  marketStepSize: number;
+  tickSize: number;
+  minPrice: number;
+  maxPrice: number;
+  minNotional: number;
+  multiplierUp: number;   // PERCENT_PRICE band, 0 when not enforced
+  multiplierDown: number;
+  priceDecimals: number; // Derived from tickSize
+  qtyDecimals: number;   // Derived from stepSize
+}
+
+export interface BinanceSymbolFilter {
+  filterType: string;
+  [key: string]: string | number | undefined;
+}
+
+export interface BinanceSymbolInfo {
+  symbol: string;
+  pair: string;
+  contractType: string;
+  status: string;
+  baseAsset: string;
+  quoteAsset: string;
+  marginAsset: string;
+  pricePrecision: number;
+  quantityPrecision: number;
+  filters: BinanceSymbolFilter[];
+}
+
+export interface BinanceExchangeInfo {
+  timezone: string;
+  serverTime: number;
+  symbols: BinanceSymbolInfo[];
+}
+
+export type EnvironmentId = 'testnet' | 'mainnet' | 'custom' | 'proxy';
+
+export interface EnvironmentProfile {
+  id: EnvironmentId;
+  label: string;
+  baseUrl: string;   // REST host, no trailing slash
+  streamUrl: string; // WebSocket host, no trailing slash
+  maxOrderNotional: number | null; // Per-order cap in quote asset; null = uncapped
+  signedByProxy: boolean; // Hosts are server/signingProxy.mjs: send requests unsigned, without keys
+}
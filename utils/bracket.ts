@@ -0,0 +1,29 @@
+import { BracketLegSpec, OrderSide } from '../types';
+import { roundToStep } from './precision';
+
+/**
+ * Converts a take-profit / stop-loss leg into an absolute trigger price.
+ * PERCENT is a move of the underlying price; ROE is return on margin, so the
+ * price move is ROE / leverage. Prices are snapped to the symbol's tick size.
+ */
+export const resolveBracketPrice = (
+  leg: BracketLegSpec,
+  kind: 'takeProfit' | 'stopLoss',
+  side: OrderSide,
+  entryPrice: number,
+  leverage: number,
+  tickSize: number
+): string => {
+  const value = parseFloat(leg.value);
+  if (leg.mode === 'PRICE') return roundToStep(value, tickSize);
+
+  const movePct = leg.mode === 'ROE' ? value / Math.max(leverage, 1) : value;
+  // Longs profit when price rises, shorts when it falls
+  const direction = (side === OrderSide.BUY ? 1 : -1) * (kind === 'takeProfit' ? 1 : -1);
+  return roundToStep(entryPrice * (1 + direction * movePct / 100), tickSize);
+};
+
+// Legs close the entry, so they trade the opposite side
+export const oppositeSide = (side: OrderSide): OrderSide => {
+  return side === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY;
+};
@@ -25,4 +25,57 @@ export const hmacSha256 = async (key: string, message: string): Promise<string>
   return Array.from(new Uint8Array(signature))
     .map(b => b.toString(16).padStart(2, '0'))
     .join('');
-};
\ No newline at end of file
+};
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomBase64 = (length: number): string => toBase64(window.crypto.getRandomValues(new Uint8Array(length)));
+
+/**
+ * Derives a non-extractable AES-GCM key from a passphrase with PBKDF2-SHA256.
+ * `salt` is base64.
+ */
+export const deriveAesKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await window.crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return window.crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+/**
+ * Encrypts `plaintext` with a fresh 96-bit IV. Both parts are returned base64.
+ */
+export const aesGcmEncrypt = async (key: CryptoKey, plaintext: string): Promise<{ iv: string; ciphertext: string }> => {
+  const iv = window.crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await window.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+/**
+ * Reverses aesGcmEncrypt. Rejects if the key is wrong or the data was altered.
+ */
+export const aesGcmDecrypt = async (key: CryptoKey, iv: string, ciphertext: string): Promise<string> => {
+  const plaintext = await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(iv) },
+    key,
+    fromBase64(ciphertext)
+  );
+  return new TextDecoder().decode(plaintext);
+};
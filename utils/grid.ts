@@ -0,0 +1,122 @@
+import { GridLevelSpec, GridQuantityMode, GridSpacing, OrderSide } from '../types';
+import { floorToStep, roundToStep } from './precision';
+
+/**
+ * Grid layout and estimates. Levels are spaced either by equal price steps
+ * (arithmetic) or equal percentage steps (geometric), and sized per the
+ * quantity mode. The estimates assume both legs of a cycle rest on the book,
+ * so maker fees apply; the taker figure is the worst case.
+ */
+
+export interface GridPlanInput {
+  minPrice: number;
+  maxPrice: number;
+  count: number;
+  spacing: GridSpacing;
+  referencePrice: number;
+  quantityMode: GridQuantityMode;
+  amount: number; // Base quantity (BASE / PYRAMID) or quote notional (QUOTE)
+  leverage: number;
+  makerFeeRate: number;
+  takerFeeRate: number;
+}
+
+export interface GridPlanRow extends GridLevelSpec {
+  side: OrderSide | null; // null for the level left empty
+  notional: number;
+  netProfit: number | null; // Per completed cycle from this level, after maker fees
+}
+
+export interface GridPlan {
+  rows: GridPlanRow[];
+  totalNotional: number;
+  marginRequired: number;
+  profitPerGrid: { min: number; max: number } | null;       // Maker fees
+  takerProfitPerGrid: { min: number; max: number } | null;  // Taker fees
+}
+
+// PYRAMID: each level further from the reference adds this much of the base size
+const PYRAMID_STEP = 0.5;
+
+/**
+ * Tick-aligned level prices, ascending. Levels that collapse onto the same
+ * tick are merged, so fewer than `count` may come back for narrow ranges.
+ */
+export const gridPrices = (minPrice: number, maxPrice: number, count: number, spacing: GridSpacing, tickSize: number): string[] => {
+  const prices: string[] = [];
+  const ratio = Math.pow(maxPrice / minPrice, 1 / (count - 1));
+  const step = (maxPrice - minPrice) / (count - 1);
+
+  for (let i = 0; i < count; i++) {
+    const raw = spacing === 'GEOMETRIC' ? minPrice * Math.pow(ratio, i) : minPrice + i * step;
+    const price = roundToStep(raw, tickSize);
+    if (prices[prices.length - 1] !== price) prices.push(price);
+  }
+  return prices;
+};
+
+/**
+ * Index of the level nearest `referencePrice`; the grid leaves it empty.
+ */
+export const nearestLevelIndex = (prices: number[], referencePrice: number): number => {
+  return prices.reduce((best, price, i) => (
+    Math.abs(price - referencePrice) < Math.abs(prices[best] - referencePrice) ? i : best
+  ), 0);
+};
+
+const quantityFor = (input: GridPlanInput, price: number, distance: number, stepSize: number): string => {
+  switch (input.quantityMode) {
+    case 'QUOTE':
+      return floorToStep(input.amount / price, stepSize);
+    case 'PYRAMID':
+      return floorToStep(input.amount * (1 + PYRAMID_STEP * Math.max(distance - 1, 0)), stepSize);
+    default:
+      return floorToStep(input.amount, stepSize);
+  }
+};
+
+// Spread between two adjacent levels minus fees on both legs
+const cycleProfit = (low: number, high: number, quantity: number, feeRate: number) => {
+  return (high - low) * quantity - (low + high) * quantity * feeRate;
+};
+
+const rangeOf = (values: number[]) => values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : null;
+
+export const buildGridPlan = (input: GridPlanInput, tickSize: number, stepSize: number): GridPlan => {
+  const prices = gridPrices(input.minPrice, input.maxPrice, input.count, input.spacing, tickSize);
+  const values = prices.map(parseFloat);
+  const emptyIndex = nearestLevelIndex(values, input.referencePrice);
+
+  const makerProfits: number[] = [];
+  const takerProfits: number[] = [];
+
+  const rows: GridPlanRow[] = prices.map((price, i) => {
+    const side = i < emptyIndex ? OrderSide.BUY : i > emptyIndex ? OrderSide.SELL : null;
+    const quantity = quantityFor(input, values[i], Math.abs(i - emptyIndex), stepSize);
+    const qty = parseFloat(quantity);
+
+    // A BUY is closed one level up, a SELL one level down
+    const closeIndex = side === OrderSide.BUY ? i + 1 : i - 1;
+    let netProfit: number | null = null;
+    if (side && values[closeIndex] !== undefined) {
+      const low = Math.min(values[i], values[closeIndex]);
+      const high = Math.max(values[i], values[closeIndex]);
+      netProfit = cycleProfit(low, high, qty, input.makerFeeRate);
+      makerProfits.push(netProfit);
+      takerProfits.push(cycleProfit(low, high, qty, input.takerFeeRate));
+    }
+
+    return { price, quantity, side, notional: values[i] * qty, netProfit };
+  });
+
+  // Every resting order reserves initial margin, sells included (they open shorts)
+  const totalNotional = rows.reduce((sum, row) => sum + (row.side ? row.notional : 0), 0);
+
+  return {
+    rows,
+    totalNotional,
+    marginRequired: totalNotional / Math.max(input.leverage, 1),
+    profitPerGrid: rangeOf(makerProfits),
+    takerProfitPerGrid: rangeOf(takerProfits)
+  };
+};
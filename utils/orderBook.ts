@@ -0,0 +1,98 @@
+import { DepthDiffEvent, DepthSnapshot, OrderBookLevel } from '../types';
+
+/**
+ * Local order book maintained from a REST snapshot plus @depth diff events,
+ * following Binance's "How to manage a local order book correctly" rules:
+ *  - drop buffered events with u < lastUpdateId
+ *  - the first applied event must satisfy U <= lastUpdateId <= u
+ *  - every later event's pu must equal the previous event's u
+ */
+
+export interface LocalOrderBook {
+  lastUpdateId: number;
+  bids: Map<number, number>;
+  asks: Map<number, number>;
+  initialized: boolean; // First event after the snapshot has been applied
+}
+
+export type DepthApplyResult = 'applied' | 'stale' | 'gap';
+
+const applyLevels = (side: Map<number, number>, levels: [string, string][]) => {
+  for (const [p, q] of levels) {
+    const price = parseFloat(p);
+    const qty = parseFloat(q);
+    if (qty === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, qty);
+    }
+  }
+};
+
+export const createOrderBook = (snapshot: DepthSnapshot): LocalOrderBook => {
+  const book: LocalOrderBook = {
+    lastUpdateId: snapshot.lastUpdateId,
+    bids: new Map(),
+    asks: new Map(),
+    initialized: false
+  };
+  applyLevels(book.bids, snapshot.bids);
+  applyLevels(book.asks, snapshot.asks);
+  return book;
+};
+
+/**
+ * Applies one diff event in place. A 'gap' result means the book is no
+ * longer trustworthy and must be rebuilt from a fresh snapshot.
+ */
+export const applyDepthEvent = (book: LocalOrderBook, event: DepthDiffEvent): DepthApplyResult => {
+  if (event.finalUpdateId < book.lastUpdateId) return 'stale';
+
+  if (!book.initialized) {
+    if (event.firstUpdateId > book.lastUpdateId) return 'gap';
+  } else if (event.prevFinalUpdateId !== book.lastUpdateId) {
+    return 'gap';
+  }
+
+  applyLevels(book.bids, event.bids);
+  applyLevels(book.asks, event.asks);
+  book.lastUpdateId = event.finalUpdateId;
+  book.initialized = true;
+  return 'applied';
+};
+
+/**
+ * Groups raw [price, qty] levels into price buckets of `step` (bids floor,
+ * asks ceil) and returns the best `depth` buckets with cumulative totals.
+ * A step of 0 keeps every raw level as its own bucket.
+ */
+export const aggregateLevels = (
+  levels: Iterable<[number, number]>,
+  isBid: boolean,
+  step: number,
+  depth: number
+): OrderBookLevel[] => {
+  const sorted = Array.from(levels).sort((a, b) => isBid ? b[0] - a[0] : a[0] - b[0]);
+  const buckets: OrderBookLevel[] = [];
+  let total = 0;
+
+  for (const [price, qty] of sorted) {
+    // Nudge before rounding so exact multiples don't land in the next bucket
+    const ratio = price / step;
+    const bucketPrice = step <= 0
+      ? price
+      : (isBid ? Math.floor(ratio + 1e-9) : Math.ceil(ratio - 1e-9)) * step;
+    const last = buckets[buckets.length - 1];
+    total += qty;
+
+    if (last && step > 0 && Math.abs(last.price - bucketPrice) < step / 2) {
+      last.qty += qty;
+      last.total = total;
+    } else {
+      if (buckets.length === depth) break;
+      buckets.push({ price: bucketPrice, qty, total });
+    }
+  }
+
+  return buckets;
+};
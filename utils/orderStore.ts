@@ -0,0 +1,86 @@
+import { BinanceOrderResponse, OpenOrder, OrderSide } from '../types';
+import { OrderUpdate } from '../services/websocket';
+import { fromBinanceOrderType } from './orderTypes';
+
+/**
+ * Pure helpers for the local open-orders store. The store is seeded from
+ * /fapi/v1/openOrders, patched by ORDER_TRADE_UPDATE events and replaced
+ * wholesale whenever we reconcile after a stream reconnect.
+ */
+
+const OPEN_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+
+export const isOpenStatus = (status: string): boolean => OPEN_STATUSES.includes(status);
+
+export const fromOrderResponse = (raw: BinanceOrderResponse): OpenOrder => ({
+  orderId: raw.orderId,
+  clientOrderId: raw.clientOrderId,
+  symbol: raw.symbol,
+  side: raw.side as OrderSide,
+  type: fromBinanceOrderType(raw.origType || raw.type),
+  status: raw.status,
+  price: raw.price,
+  stopPrice: raw.stopPrice,
+  origQty: raw.origQty,
+  executedQty: raw.executedQty,
+  reduceOnly: !!raw.reduceOnly,
+  positionSide: raw.positionSide || 'BOTH',
+  timeInForce: raw.timeInForce,
+  updateTime: raw.updateTime
+});
+
+const fromOrderUpdate = (update: OrderUpdate): OpenOrder => ({
+  orderId: update.orderId,
+  clientOrderId: update.clientOrderId,
+  symbol: update.symbol,
+  side: update.side as OrderSide,
+  type: fromBinanceOrderType(update.type),
+  status: update.status,
+  price: update.price,
+  stopPrice: update.stopPrice,
+  origQty: update.originalQty,
+  executedQty: update.executedQty,
+  reduceOnly: update.reduceOnly,
+  positionSide: update.positionSide,
+  timeInForce: '',
+  updateTime: update.updateTime
+});
+
+const sameOrder = (a: Pick<OpenOrder, 'orderId' | 'clientOrderId'>, b: Pick<OpenOrder, 'orderId' | 'clientOrderId'>) => {
+  return a.orderId === b.orderId || (!!a.clientOrderId && a.clientOrderId === b.clientOrderId);
+};
+
+/**
+ * Inserts or replaces an order; orders that reached a final state are removed.
+ * Out-of-order events (older updateTime) are ignored.
+ */
+export const upsertOrder = (orders: OpenOrder[], order: OpenOrder): OpenOrder[] => {
+  const existing = orders.find(o => sameOrder(o, order));
+  if (existing && existing.updateTime > order.updateTime) return orders;
+
+  const rest = orders.filter(o => !sameOrder(o, order));
+  if (!isOpenStatus(order.status)) return rest;
+
+  // Stream events don't carry timeInForce; keep what REST told us
+  const merged = existing ? { ...order, timeInForce: order.timeInForce || existing.timeInForce } : order;
+  return [...rest, merged].sort((a, b) => b.updateTime - a.updateTime);
+};
+
+export const applyOrderUpdate = (orders: OpenOrder[], update: OrderUpdate): OpenOrder[] => {
+  return upsertOrder(orders, fromOrderUpdate(update));
+};
+
+export const removeOrder = (orders: OpenOrder[], orderId: number): OpenOrder[] => {
+  return orders.filter(o => o.orderId !== orderId);
+};
+
+/**
+ * Replaces the local store with an exchange snapshot and reports what the
+ * stream missed, so drift can be surfaced in the console.
+ */
+export const reconcileOrders = (local: OpenOrder[], snapshot: OpenOrder[]) => {
+  const added = snapshot.filter(s => !local.some(l => sameOrder(l, s)));
+  const removed = local.filter(l => !snapshot.some(s => sameOrder(l, s)));
+  const orders = [...snapshot].sort((a, b) => b.updateTime - a.updateTime);
+  return { orders, added, removed };
+};
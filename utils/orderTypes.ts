@@ -0,0 +1,62 @@
+import { OrderType, TimeInForce } from '../types';
+
+/**
+ * Which parameters each futures order type takes, per the Binance
+ * USDT-M "New Order" endpoint documentation.
+ */
+
+export const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  [OrderType.LIMIT]: 'Limit',
+  [OrderType.MARKET]: 'Market',
+  [OrderType.STOP_LIMIT]: 'Stop Limit',
+  [OrderType.STOP_MARKET]: 'Stop Market',
+  [OrderType.TAKE_PROFIT]: 'Take Profit',
+  [OrderType.TAKE_PROFIT_MARKET]: 'TP Market',
+  [OrderType.TRAILING_STOP_MARKET]: 'Trailing Stop'
+};
+
+export const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  [TimeInForce.GTC]: 'GTC',
+  [TimeInForce.IOC]: 'IOC',
+  [TimeInForce.FOK]: 'FOK',
+  [TimeInForce.GTX]: 'Post Only'
+};
+
+// Binance Futures calls the stop-limit order type 'STOP'
+export const toBinanceOrderType = (type: OrderType): string => {
+  return type === OrderType.STOP_LIMIT ? 'STOP' : type;
+};
+
+export const fromBinanceOrderType = (type: string): OrderType => {
+  return type === 'STOP' ? OrderType.STOP_LIMIT : type as OrderType;
+};
+
+export const requiresPrice = (type: OrderType): boolean => {
+  return type === OrderType.LIMIT || type === OrderType.STOP_LIMIT || type === OrderType.TAKE_PROFIT;
+};
+
+export const requiresStopPrice = (type: OrderType): boolean => {
+  return type === OrderType.STOP_LIMIT
+    || type === OrderType.STOP_MARKET
+    || type === OrderType.TAKE_PROFIT
+    || type === OrderType.TAKE_PROFIT_MARKET;
+};
+
+// Conditional orders that sit untriggered until a working price is crossed
+export const isConditional = (type: OrderType): boolean => {
+  return requiresStopPrice(type) || type === OrderType.TRAILING_STOP_MARKET;
+};
+
+// Executes as a market order (MARKET_LOT_SIZE applies)
+export const isMarketExecution = (type: OrderType): boolean => {
+  return type === OrderType.MARKET
+    || type === OrderType.STOP_MARKET
+    || type === OrderType.TAKE_PROFIT_MARKET
+    || type === OrderType.TRAILING_STOP_MARKET;
+};
+
+export const supportsTimeInForce = (type: OrderType): boolean => requiresPrice(type);
+
+export const supportsClosePosition = (type: OrderType): boolean => {
+  return type === OrderType.STOP_MARKET || type === OrderType.TAKE_PROFIT_MARKET;
+};
@@ -0,0 +1,87 @@
+import { BinancePositionRisk, MarginType, Position } from '../types';
+import { AccountUpdate, MarkPriceUpdate } from '../services/websocket';
+
+/**
+ * Pure helpers for keeping the positions table in sync with REST snapshots,
+ * ACCOUNT_UPDATE events and the mark price stream.
+ */
+
+const toMarginType = (value: string): MarginType => {
+  return value.toLowerCase() === 'isolated' ? 'ISOLATED' : 'CROSSED';
+};
+
+export const positionKey = (p: Pick<Position, 'symbol' | 'positionSide'>) => `${p.symbol}:${p.positionSide}`;
+
+export const fromPositionRisk = (raw: BinancePositionRisk): Position => ({
+  symbol: raw.symbol,
+  positionSide: raw.positionSide,
+  positionAmt: parseFloat(raw.positionAmt),
+  entryPrice: parseFloat(raw.entryPrice),
+  markPrice: parseFloat(raw.markPrice),
+  unrealizedProfit: parseFloat(raw.unRealizedProfit),
+  liquidationPrice: parseFloat(raw.liquidationPrice),
+  leverage: parseInt(raw.leverage),
+  marginType: toMarginType(raw.marginType),
+  isolatedWallet: parseFloat(raw.isolatedWallet),
+  updateTime: raw.updateTime
+});
+
+/**
+ * ACCOUNT_UPDATE only carries the positions that changed, and omits mark,
+ * leverage and liquidation price, so those are carried over from what we had.
+ */
+export const applyAccountUpdate = (positions: Position[], update: AccountUpdate): Position[] => {
+  const byKey = new Map(positions.map(p => [positionKey(p), p]));
+
+  for (const change of update.positions) {
+    const key = positionKey(change);
+    const prev = byKey.get(key);
+    const amt = parseFloat(change.positionAmt);
+
+    if (amt === 0) {
+      byKey.delete(key);
+      continue;
+    }
+
+    const markPrice = prev?.markPrice || parseFloat(change.entryPrice);
+    byKey.set(key, {
+      symbol: change.symbol,
+      positionSide: change.positionSide,
+      positionAmt: amt,
+      entryPrice: parseFloat(change.entryPrice),
+      markPrice,
+      unrealizedProfit: parseFloat(change.unrealizedProfit),
+      liquidationPrice: prev?.liquidationPrice || 0,
+      leverage: prev?.leverage || 1,
+      marginType: toMarginType(change.marginType),
+      isolatedWallet: parseFloat(change.isolatedWallet),
+      updateTime: update.eventTime
+    });
+  }
+
+  return Array.from(byKey.values());
+};
+
+export const applyMarkPrice = (positions: Position[], mark: MarkPriceUpdate): Position[] => {
+  let changed = false;
+  const next = positions.map(p => {
+    if (p.symbol !== mark.symbol) return p;
+    changed = true;
+    const markPrice = parseFloat(mark.markPrice);
+    return {
+      ...p,
+      markPrice,
+      unrealizedProfit: p.positionAmt * (markPrice - p.entryPrice)
+    };
+  });
+  return changed ? next : positions;
+};
+
+/**
+ * ROE as Binance displays it: unrealized PnL over initial margin
+ * (entry notional / leverage).
+ */
+export const positionRoe = (p: Position): number => {
+  const initialMargin = Math.abs(p.positionAmt) * p.entryPrice / Math.max(p.leverage, 1);
+  return initialMargin > 0 ? (p.unrealizedProfit / initialMargin) * 100 : 0;
+};
@@ -0,0 +1,41 @@
+/**
+ * Decimal helpers for tick-size / step-size arithmetic.
+ * Values are scaled to integers before comparing so that 0.1 + 0.2 style
+ * floating point noise never makes a valid price look misaligned.
+ */
+
+// "0.00100000" -> 3, "1" -> 0, 1e-7 -> 7
+export const decimalsOf = (value: string | number): number => {
+  let str = typeof value === 'number' ? value.toString() : value;
+  if (/e-/i.test(str)) {
+    str = Number(str).toFixed(20);
+  }
+  if (str.indexOf('.') === -1) return 0;
+  return str.split('.')[1].replace(/0+$/, '').length;
+};
+
+export const isMultipleOfStep = (value: string | number, step: number): boolean => {
+  if (step <= 0) return true;
+  const decimals = Math.max(decimalsOf(value), decimalsOf(step));
+  const scale = Math.pow(10, decimals);
+  const scaledValue = Math.round(Number(value) * scale);
+  const scaledStep = Math.round(step * scale);
+  return scaledValue % scaledStep === 0;
+};
+
+const alignToStep = (value: number, step: number, fn: (x: number) => number): string => {
+  const decimals = decimalsOf(step);
+  if (step <= 0) return value.toFixed(decimals);
+  const scale = Math.pow(10, decimals);
+  const scaledStep = Math.round(step * scale);
+  // Round the scaled value first so 0.3 / 0.1 doesn't floor to 2
+  const scaledValue = Math.round(value * scale * 1e6) / 1e6;
+  const aligned = fn(scaledValue / scaledStep) * scaledStep;
+  return (aligned / scale).toFixed(decimals);
+};
+
+export const roundToStep = (value: number, step: number): string => alignToStep(value, step, Math.round);
+
+export const floorToStep = (value: number, step: number): string => alignToStep(value, step, Math.floor);
+
+export const ceilToStep = (value: number, step: number): string => alignToStep(value, step, Math.ceil);
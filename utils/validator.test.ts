@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { OrderSide, OrderType, ValidationCode } from '../types';
+import { validateOrderCap } from './validator';
+
+const order = (quantity: string, price: string) => ({
+  symbol: 'BTCUSDT',
+  side: OrderSide.BUY,
+  type: OrderType.LIMIT,
+  quantity,
+  price
+});
+
+describe('validateOrderCap', () => {
+  it('refuses orders above the cap', () => {
+    expect(validateOrderCap(order('1', '500'), null, 1000)).toBeNull();
+    expect(validateOrderCap(order('3', '500'), null, 1000)?.code).toBe(ValidationCode.EXCEEDS_ORDER_CAP);
+  });
+
+  it('refuses quantities and prices that are not positive instead of valuing them at or below zero', () => {
+    expect(validateOrderCap(order('-100', '500'), null, 1000)?.code).toBe(ValidationCode.EXCEEDS_ORDER_CAP);
+    expect(validateOrderCap(order('0', '500'), null, 1000)?.code).toBe(ValidationCode.EXCEEDS_ORDER_CAP);
+    expect(validateOrderCap(order('100', '-500'), null, 1000)?.code).toBe(ValidationCode.EXCEEDS_ORDER_CAP);
+  });
+
+  it('values a zero limit price at the reference price', () => {
+    expect(validateOrderCap(order('3', '0'), '500', 1000)?.code).toBe(ValidationCode.EXCEEDS_ORDER_CAP);
+  });
+});
@@ -1,104 +1,371 @@
-import { OrderRequest, OrderType } from '../types';
-
-interface SymbolRules {
-  minQty: number;
-  priceDecimals: number; // Number of decimal places allowed for price
-  qtyDecimals: number;   // Number of decimal places allowed for quantity
-}
-
-// Hardcoded rules for common Binance Futures Testnet symbols
-// In a production app, these should be fetched via /fapi/v1/exchangeInfo
-const TRADING_RULES: Record<string, SymbolRules> = {
-  'BTCUSDT': { minQty: 0.001, priceDecimals: 1, qtyDecimals: 3 },
-  'ETHUSDT': { minQty: 0.01, priceDecimals: 2, qtyDecimals: 3 },
-  'BNBUSDT': { minQty: 0.01, priceDecimals: 2, qtyDecimals: 2 },
-  'SOLUSDT': { minQty: 1, priceDecimals: 3, qtyDecimals: 0 },
-  'XRPUSDT': { minQty: 0.1, priceDecimals: 4, qtyDecimals: 1 },
-  'ADAUSDT': { minQty: 1, priceDecimals: 4, qtyDecimals: 0 },
-  'DOGEUSDT': { minQty: 1, priceDecimals: 5, qtyDecimals: 0 },
-  // Default fallback
-  'DEFAULT': { minQty: 0.001, priceDecimals: 2, qtyDecimals: 3 }
-};
+import {
+  BracketSpec,
+  GridLevelSpec,
+  GridQuantityMode,
+  OrderRequest,
+  OrderSide,
+  OrderType,
+  SymbolRules,
+  ValidationCode,
+  ValidationError,
+  ValidationField
+} from '../types';
+import { getCachedSymbolRules, hasSymbolRules, isSymbolRulesLoaded } from '../services/exchangeInfo';
+import { isMultipleOfStep } from './precision';
+import { resolveBracketPrice } from './bracket';
+import {
+  isMarketExecution,
+  requiresPrice,
+  requiresStopPrice,
+  supportsClosePosition,
+  supportsTimeInForce
+} from './orderTypes';
+
+// Binance accepts trailing callback rates from 0.1% to 10% in 0.1% steps
+const MIN_CALLBACK_RATE = 0.1;
+const MAX_CALLBACK_RATE = 10;
 
 export const getSymbolRules = (symbol: string): SymbolRules => {
-  return TRADING_RULES[symbol.toUpperCase()] || TRADING_RULES['DEFAULT'];
+  return getCachedSymbolRules(symbol);
+};
+
+const fail = (code: ValidationCode, field: ValidationField, message: string): ValidationError => ({
+  code,
+  field,
+  message
+});
+
+// Once exchangeInfo is loaded, anything not listed there is not tradable
+const unknownSymbolError = (symbol: string): ValidationError | null => {
+  if (isSymbolRulesLoaded() && !hasSymbolRules(symbol)) {
+    return fail(ValidationCode.UNKNOWN_SYMBOL, 'symbol', `Symbol ${symbol.toUpperCase()} is not listed on the exchange.`);
+  }
+  return null;
+};
+
+// Any number; callers that need a sign check it themselves
+const parseNumber = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const n = parseFloat(value);
+  return isNaN(n) ? null : n;
+};
+
+// Null unless the value is a number greater than 0
+const parsePositive = (value: string | undefined): number | null => {
+  const n = parseNumber(value);
+  return n !== null && n > 0 ? n : null;
+};
+
+/**
+ * PRICE_FILTER checks: bounds and tick alignment.
+ */
+const validatePrice = (
+  value: string | undefined,
+  field: ValidationField,
+  label: string,
+  rules: SymbolRules
+): ValidationError | null => {
+  const price = parseNumber(value);
+  if (price === null) return fail(ValidationCode.REQUIRED, field, `${label} is required and must be a number.`);
+  if (price <= 0) return fail(ValidationCode.NOT_POSITIVE, field, `${label} must be greater than 0.`);
+
+  if (price < rules.minPrice) {
+    return fail(ValidationCode.PRICE_BELOW_MIN, field, `${label} ${price} is below the minimum allowed (${rules.minPrice}).`);
+  }
+  if (price > rules.maxPrice) {
+    return fail(ValidationCode.PRICE_ABOVE_MAX, field, `${label} ${price} exceeds the maximum allowed (${rules.maxPrice}).`);
+  }
+  if (!isMultipleOfStep(value!, rules.tickSize)) {
+    return fail(ValidationCode.PRICE_TICK, field, `${label} must be a multiple of the tick size (${rules.tickSize}).`);
+  }
+  return null;
 };
 
-const countDecimals = (valueStr: string): number => {
-  if (valueStr.indexOf('.') === -1) return 0;
-  return valueStr.split('.')[1].length;
+/**
+ * PERCENT_PRICE check: limit prices may not stray too far from the market.
+ */
+const validatePriceBand = (
+  price: number,
+  field: ValidationField,
+  label: string,
+  rules: SymbolRules,
+  referencePrice: number | null
+): ValidationError | null => {
+  if (referencePrice === null || !rules.multiplierUp || !rules.multiplierDown) return null;
+
+  const upper = referencePrice * rules.multiplierUp;
+  const lower = referencePrice * rules.multiplierDown;
+  if (price > upper || price < lower) {
+    return fail(
+      ValidationCode.PERCENT_PRICE,
+      field,
+      `${label} must be within ${lower.toFixed(rules.priceDecimals)} - ${upper.toFixed(rules.priceDecimals)} of the current market.`
+    );
+  }
+  return null;
 };
 
-export const validateOrderInput = (order: OrderRequest): string | null => {
+/**
+ * Validates an order against the symbol's exchange filters.
+ * `referencePrice` (usually the live mid price) is used for the notional
+ * check on market-executed orders and for the percent-price band on limit orders.
+ * Returns every violation found; an empty array means the order is valid.
+ */
+export const validateOrderInput = (order: OrderRequest, referencePrice?: string | null): ValidationError[] => {
+  const symbolError = unknownSymbolError(order.symbol);
+  if (symbolError) return [symbolError];
+
   const rules = getSymbolRules(order.symbol);
-  
-  // 1. Validate Quantity
-  if (!order.quantity || isNaN(parseFloat(order.quantity))) {
-    return 'Quantity is required and must be a number.';
+  const ref = parsePositive(referencePrice || undefined);
+  const errors: ValidationError[] = [];
+  const isMarket = isMarketExecution(order.type);
+  const closesPosition = !!order.closePosition && supportsClosePosition(order.type);
+
+  // 0. Option compatibility
+  if (order.closePosition && !supportsClosePosition(order.type)) {
+    errors.push(fail(ValidationCode.INCOMPATIBLE_OPTIONS, 'closePosition', 'Close Position is only available for Stop Market and Take Profit Market orders.'));
   }
-  const qty = parseFloat(order.quantity);
-  
-  if (qty < rules.minQty) {
-    return `Quantity ${qty} is below the minimum allowed (${rules.minQty}) for ${order.symbol}.`;
+  if (closesPosition && order.reduceOnly) {
+    errors.push(fail(ValidationCode.INCOMPATIBLE_OPTIONS, 'closePosition', 'Close Position cannot be combined with Reduce Only.'));
+  }
+  if (order.reduceOnly && order.positionSide && order.positionSide !== 'BOTH') {
+    errors.push(fail(ValidationCode.INCOMPATIBLE_OPTIONS, 'positionSide', 'Reduce Only is not used in Hedge Mode; trade the opposite side of the position instead.'));
+  }
+  if (order.timeInForce && !supportsTimeInForce(order.type)) {
+    errors.push(fail(ValidationCode.INCOMPATIBLE_OPTIONS, 'timeInForce', `Time in force does not apply to ${order.type} orders.`));
   }
 
-  if (countDecimals(order.quantity) > rules.qtyDecimals) {
-    return `Quantity precision too high. Max decimals allowed: ${rules.qtyDecimals}.`;
+  // 1. Quantity (market-executed orders use MARKET_LOT_SIZE; closePosition sends none)
+  const qty = closesPosition ? null : parseNumber(order.quantity);
+  const minQty = isMarket ? rules.marketMinQty : rules.minQty;
+  const maxQty = isMarket ? rules.marketMaxQty : rules.maxQty;
+  const stepSize = isMarket ? rules.marketStepSize : rules.stepSize;
+
+  if (closesPosition) {
+    // Quantity is taken from the open position at trigger time
+  } else if (qty === null) {
+    errors.push(fail(ValidationCode.REQUIRED, 'quantity', 'Quantity is required and must be a number.'));
+  } else if (qty < minQty) {
+    errors.push(fail(ValidationCode.QTY_BELOW_MIN, 'quantity', `Quantity ${qty} is below the minimum allowed (${minQty}) for ${order.symbol}.`));
+  } else if (qty > maxQty) {
+    errors.push(fail(ValidationCode.QTY_ABOVE_MAX, 'quantity', `Quantity ${qty} exceeds the maximum allowed (${maxQty}) for ${order.symbol}.`));
+  } else if (!isMultipleOfStep(order.quantity, stepSize)) {
+    errors.push(fail(ValidationCode.QTY_STEP, 'quantity', `Quantity must be a multiple of the step size (${stepSize}).`));
   }
 
-  // 2. Validate Price (Limit Orders)
-  if (order.type === OrderType.LIMIT || order.type === OrderType.STOP_LIMIT) {
-    if (!order.price || isNaN(parseFloat(order.price))) {
-      return 'Price is required for Limit/Stop-Limit orders.';
+  // 2. Limit Price
+  let price: number | null = null;
+  if (requiresPrice(order.type)) {
+    const priceError = validatePrice(order.price, 'price', 'Price', rules);
+    if (priceError) {
+      errors.push(priceError);
+    } else {
+      price = parseFloat(order.price!);
+      const bandError = validatePriceBand(price, 'price', 'Price', rules, ref);
+      if (bandError) errors.push(bandError);
     }
-    const price = parseFloat(order.price);
-    if (price <= 0) return 'Price must be greater than 0.';
-    
-    if (countDecimals(order.price) > rules.priceDecimals) {
-      return `Price precision too high. Max decimals allowed: ${rules.priceDecimals}.`;
+  }
+
+  // 3. Stop / Trigger Price
+  let stopPrice: number | null = null;
+  if (requiresStopPrice(order.type)) {
+    const stopError = validatePrice(order.stopPrice, 'stopPrice', 'Stop Price', rules);
+    if (stopError) {
+      errors.push(stopError);
+    } else {
+      stopPrice = parseFloat(order.stopPrice!);
     }
   }
 
-  // 3. Validate Stop Price (Stop Orders)
-  if (order.type === OrderType.STOP_LIMIT) {
-    if (!order.stopPrice || isNaN(parseFloat(order.stopPrice))) {
-      return 'Stop Price is required for Stop-Limit orders.';
+  // 4. Trailing Stop parameters
+  let activationPrice: number | null = null;
+  if (order.type === OrderType.TRAILING_STOP_MARKET) {
+    const rate = parseNumber(order.callbackRate);
+    if (rate === null) {
+      errors.push(fail(ValidationCode.REQUIRED, 'callbackRate', 'Callback Rate is required for Trailing Stop orders.'));
+    } else if (rate < MIN_CALLBACK_RATE || rate > MAX_CALLBACK_RATE) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, 'callbackRate', `Callback Rate must be between ${MIN_CALLBACK_RATE}% and ${MAX_CALLBACK_RATE}%.`));
+    } else if (!isMultipleOfStep(order.callbackRate!, MIN_CALLBACK_RATE)) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, 'callbackRate', `Callback Rate must be a multiple of ${MIN_CALLBACK_RATE}%.`));
     }
-    const stopPrice = parseFloat(order.stopPrice);
-    if (stopPrice <= 0) return 'Stop Price must be greater than 0.';
 
-    if (countDecimals(order.stopPrice) > rules.priceDecimals) {
-      return `Stop Price precision too high. Max decimals allowed: ${rules.priceDecimals}.`;
+    if (order.activationPrice) {
+      const activationError = validatePrice(order.activationPrice, 'activationPrice', 'Activation Price', rules);
+      if (activationError) {
+        errors.push(activationError);
+      } else {
+        activationPrice = parseFloat(order.activationPrice);
+      }
     }
   }
 
+  // 5. Notional (qty x limit/trigger price, or qty x current price for MARKET)
+  const notionalPrice = price ?? stopPrice ?? activationPrice ?? ref;
+  if (qty !== null && notionalPrice !== null && rules.minNotional > 0 && !order.reduceOnly) {
+    const notional = qty * notionalPrice;
+    if (notional < rules.minNotional) {
+      errors.push(fail(
+        ValidationCode.MIN_NOTIONAL,
+        'quantity',
+        `Order value ${notional.toFixed(2)} is below the minimum notional (${rules.minNotional}).`
+      ));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Environment order-size cap. Orders that can only shrink a position are
+ * exempt; anything else needs a price to value it, so an order that cannot be
+ * valued is refused rather than waved through.
+ */
+export const validateOrderCap = (
+  order: OrderRequest,
+  referencePrice: string | null | undefined,
+  maxNotional: number | null
+): ValidationError | null => {
+  if (maxNotional === null) return null;
+
+  const hedgeClose = (order.positionSide === 'LONG' && order.side === OrderSide.SELL)
+    || (order.positionSide === 'SHORT' && order.side === OrderSide.BUY);
+  if (order.reduceOnly || order.closePosition || hedgeClose) return null;
+
+  const qty = parsePositive(order.quantity);
+  if (qty === null) {
+    return fail(ValidationCode.EXCEEDS_ORDER_CAP, 'quantity', `Cannot check the ${maxNotional} order cap without a positive quantity.`);
+  }
+  const price = parsePositive(order.price) ?? parsePositive(order.stopPrice)
+    ?? parsePositive(order.activationPrice) ?? parsePositive(referencePrice || undefined);
+  if (price === null) {
+    return fail(ValidationCode.EXCEEDS_ORDER_CAP, 'quantity', `Cannot check the ${maxNotional} order cap without a price for ${order.symbol}.`);
+  }
+
+  const notional = qty * price;
+  if (notional > maxNotional) {
+    return fail(
+      ValidationCode.EXCEEDS_ORDER_CAP,
+      'quantity',
+      `Order value ${notional.toFixed(2)} exceeds the environment cap (${maxNotional}).`
+    );
+  }
   return null;
 };
 
 export const validateGridInput = (
   symbol: string,
-  minPrice: string, 
-  maxPrice: string, 
-  quantity: string
-): string | null => {
+  minPrice: string,
+  maxPrice: string,
+  amount: string,
+  quantityMode: GridQuantityMode
+): ValidationError[] => {
+  const symbolError = unknownSymbolError(symbol);
+  if (symbolError) return [symbolError];
+
   const rules = getSymbolRules(symbol);
-  
+  const errors: ValidationError[] = [];
+
   // Prices
-  if (!minPrice || !maxPrice) return "Min and Max prices are required.";
-  const min = parseFloat(minPrice);
-  const max = parseFloat(maxPrice);
-  
-  if (min >= max) return "Min Price must be lower than Max Price.";
-  if (min <= 0) return "Min Price must be positive.";
-  
-  if (countDecimals(minPrice) > rules.priceDecimals) return `Min Price precision too high (Max ${rules.priceDecimals}).`;
-  if (countDecimals(maxPrice) > rules.priceDecimals) return `Max Price precision too high (Max ${rules.priceDecimals}).`;
-
-  // Quantity
-  if (!quantity) return "Quantity per grid is required.";
-  const qty = parseFloat(quantity);
-  if (qty < rules.minQty) return `Grid quantity below minimum (${rules.minQty}).`;
-  if (countDecimals(quantity) > rules.qtyDecimals) return `Quantity precision too high (Max ${rules.qtyDecimals}).`;
+  const minError = validatePrice(minPrice, 'minPrice', 'Min Price', rules);
+  const maxError = validatePrice(maxPrice, 'maxPrice', 'Max Price', rules);
+  if (minError) errors.push(minError);
+  if (maxError) errors.push(maxError);
 
-  return null;
-};
\ No newline at end of file
+  if (!minError && !maxError && parseFloat(minPrice) >= parseFloat(maxPrice)) {
+    errors.push(fail(ValidationCode.INVALID_RANGE, 'minPrice', 'Min Price must be lower than Max Price.'));
+  }
+
+  // Amount: a base quantity, except in QUOTE mode where it is a notional
+  const value = parseNumber(amount);
+  if (value === null || value <= 0) {
+    errors.push(fail(ValidationCode.REQUIRED, 'quantity', quantityMode === 'QUOTE' ? 'Notional per grid must be a positive number.' : 'Quantity per grid must be a positive number.'));
+  } else if (quantityMode !== 'QUOTE' && !isMultipleOfStep(amount, rules.stepSize)) {
+    errors.push(fail(ValidationCode.QTY_STEP, 'quantity', `Grid quantity must be a multiple of the step size (${rules.stepSize}).`));
+  }
+
+  return errors;
+};
+
+/**
+ * Per-level checks on a generated grid: every order must clear the symbol's
+ * quantity limits and minimum notional. Reports the first offending level
+ * for each rule.
+ */
+export const validateGridLevels = (symbol: string, levels: GridLevelSpec[]): ValidationError[] => {
+  const rules = getSymbolRules(symbol);
+  const errors: ValidationError[] = [];
+
+  const belowMin = levels.find(l => parseFloat(l.quantity) < rules.minQty);
+  if (belowMin) {
+    errors.push(fail(ValidationCode.QTY_BELOW_MIN, 'quantity', `Grid quantity ${belowMin.quantity} at ${belowMin.price} is below the minimum (${rules.minQty}).`));
+  }
+  const aboveMax = levels.find(l => parseFloat(l.quantity) > rules.maxQty);
+  if (aboveMax) {
+    errors.push(fail(ValidationCode.QTY_ABOVE_MAX, 'quantity', `Grid quantity ${aboveMax.quantity} at ${aboveMax.price} is above the maximum (${rules.maxQty}).`));
+  }
+
+  if (rules.minNotional > 0) {
+    const small = levels.find(l => parseFloat(l.quantity) * parseFloat(l.price) < rules.minNotional);
+    if (small) {
+      const notional = parseFloat(small.quantity) * parseFloat(small.price);
+      errors.push(fail(
+        ValidationCode.MIN_NOTIONAL,
+        'quantity',
+        `Grid order value ${notional.toFixed(2)} at ${small.price} is below the minimum notional (${rules.minNotional}).`
+      ));
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Checks that bracket exits sit on the correct side of the expected entry
+ * price. For MARKET entries the current price stands in for the fill price.
+ */
+export const validateBracketInput = (
+  order: OrderRequest,
+  spec: BracketSpec,
+  referencePrice?: string | null
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const rules = getSymbolRules(order.symbol);
+  const entry = parsePositive(order.price) ?? parsePositive(order.stopPrice) ?? parsePositive(referencePrice || undefined);
+  const isLong = order.side === OrderSide.BUY;
+
+  if (!spec.takeProfit && !spec.stopLoss) {
+    errors.push(fail(ValidationCode.REQUIRED, 'takeProfit', 'Set a take profit, a stop loss, or both.'));
+    return errors;
+  }
+
+  const legs: ['takeProfit' | 'stopLoss', string][] = [['takeProfit', 'Take Profit'], ['stopLoss', 'Stop Loss']];
+  for (const [kind, label] of legs) {
+    const leg = spec[kind];
+    if (!leg) continue;
+
+    const value = parseNumber(leg.value);
+    if (value === null || value <= 0) {
+      errors.push(fail(ValidationCode.REQUIRED, kind, `${label} must be a positive number.`));
+      continue;
+    }
+    if (kind === 'stopLoss' && leg.mode === 'PERCENT' && value >= 100) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, kind, 'Stop Loss must be less than a 100% price move.'));
+      continue;
+    }
+    if (kind === 'stopLoss' && leg.mode === 'ROE' && value / Math.max(spec.leverage, 1) >= 100) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, kind, 'Stop Loss ROE is larger than the position margin allows.'));
+      continue;
+    }
+    if (entry === null) continue;
+
+    const price = parseFloat(resolveBracketPrice(leg, kind, order.side, entry, spec.leverage, rules.tickSize));
+    const profitSide = isLong ? price > entry : price < entry;
+    if (kind === 'takeProfit' && !profitSide) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, kind, `Take Profit must be ${isLong ? 'above' : 'below'} the entry price.`));
+    } else if (kind === 'stopLoss' && (profitSide || price === entry)) {
+      errors.push(fail(ValidationCode.INVALID_RANGE, kind, `Stop Loss must be ${isLong ? 'below' : 'above'} the entry price.`));
+    }
+  }
+
+  return errors;
+};
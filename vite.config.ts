@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.BINANCE_BASE_URL': JSON.stringify(env.BINANCE_BASE_URL || ''),
+        'process.env.BINANCE_STREAM_URL': JSON.stringify(env.BINANCE_STREAM_URL || '')
       },
       resolve: {
         alias: {